@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AppSettings } from './types';
+
+/** A variety of English the learner can aim for. */
+export interface Accent {
+    /** BCP 47 locale, used for speech recognition and to match voices. */
+    code: AppSettings['accent'];
+    label: string;
+    /** Used in prompts, e.g. "British English". */
+    name: string;
+    /** A few words that differ from the other varieties, to anchor the prompt. */
+    examples: string;
+}
+
+export const ACCENTS: Accent[] = [
+    { code: 'en-US', label: 'US', name: 'American English', examples: 'color, apartment, truck, fall' },
+    { code: 'en-GB', label: 'UK', name: 'British English', examples: 'colour, flat, lorry, autumn' },
+    { code: 'en-AU', label: 'Australian', name: 'Australian English', examples: 'colour, arvo, ute, servo' },
+    { code: 'en-IN', label: 'Indian', name: 'Indian English', examples: 'colour, prepone, lakh, timepass' },
+];
+
+/** Looks up an accent by locale, falling back to US English for unknown codes. */
+export function getAccent(code: string): Accent {
+    return ACCENTS.find(accent => accent.code === code) ?? ACCENTS[0];
+}
+
+/**
+ * Tells the tutor which variety of English to use, and to point out words and
+ * spellings the learner borrows from another one.
+ */
+export function createAccentInstruction(code: AppSettings['accent']): string {
+    const accent = getAccent(code);
+    return `I am learning ${accent.name}. Use its spelling, vocabulary and expressions in your replies and corrections (for example: ${accent.examples}). If I use a word or spelling from another variety of English, it is not a mistake, but add a "vocabulary" correction with "variant" set to true that gives the ${accent.name} word and briefly explains the difference, e.g. "lorry" (UK) vs "truck" (US).`;
+}
+
+/** Normalizes a voice's language tag, which some platforms write as `en_GB`. */
+function voiceLocale(voice: SpeechSynthesisVoice): string {
+    return voice.lang.replace('_', '-').toLowerCase();
+}
+
+/**
+ * Returns the voices for an accent. If the device has none, falls back to every
+ * English voice so the learner can still hear the tutor.
+ */
+export function voicesForAccent(voices: SpeechSynthesisVoice[], code: AppSettings['accent']): SpeechSynthesisVoice[] {
+    const matching = voices.filter(voice => voiceLocale(voice) === code.toLowerCase());
+    return matching.length ? matching : voices.filter(voice => voiceLocale(voice).startsWith('en-'));
+}
+
+/** Picks the voice to use for an accent: the platform's default if it matches, otherwise the first. */
+export function defaultVoiceForAccent(voices: SpeechSynthesisVoice[], code: AppSettings['accent']): SpeechSynthesisVoice | undefined {
+    const candidates = voicesForAccent(voices, code);
+    return candidates.find(voice => voice.default) ?? candidates[0];
+}
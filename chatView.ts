@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { segmentCorrections } from './feedback';
+import type { UiStringKey } from './i18n';
+import { findSpokenWord, splitSpokenWords } from './playback';
+import type { Correction } from './types';
+
+export interface ChatViewOptions {
+    /** Returns a piece of interface text in the learner's language. */
+    t: (key: UiStringKey) => string;
+    /** What screen readers hear while the tutor is thinking. */
+    thinkingLabel: () => string;
+    /** Called when the learner taps a word in one of the tutor's messages. */
+    onWordTap: (word: string) => void;
+    /** Adds controls to a new message from the tutor, before any feedback, such as replay and translate buttons. */
+    decorateTutorMessage?: (messageElement: HTMLElement) => void;
+}
+
+/** The conversation on screen: message bubbles, cards and the thinking indicator. */
+export interface ChatView {
+    /** Adds a message bubble and scrolls to it. */
+    addMessage(text: string, sender: 'user' | 'ai', feedback?: string): HTMLElement;
+    /** Replaces the text of one of the tutor's messages that is still being streamed in. */
+    setMessageText(messageElement: HTMLElement, text: string): void;
+    /** Adds any other element, such as a card or banner, and scrolls to it. */
+    append(element: HTMLElement): void;
+    scrollToEnd(): void;
+    clear(): void;
+    showThinkingIndicator(show: boolean): void;
+}
+
+const THINKING_INDICATOR_ID = 'thinking-indicator';
+
+/**
+ * Renders a message's text as separate words, so each can be tapped to hear it
+ * and lit up while the tutor says it.
+ */
+export function renderSpokenText(textElement: HTMLElement, text: string) {
+    const nodes: Node[] = [];
+    let position = 0;
+    splitSpokenWords(text).forEach(({ word, start }) => {
+        if (start > position) nodes.push(document.createTextNode(text.slice(position, start)));
+        const span = document.createElement('span');
+        span.classList.add('spoken-word');
+        span.textContent = word;
+        nodes.push(span);
+        position = start + word.length;
+    });
+    if (position < text.length) nodes.push(document.createTextNode(text.slice(position)));
+    textElement.replaceChildren(...nodes);
+}
+
+/**
+ * Lights up the word of a message at a character index, or clears the highlight
+ * when `charIndex` is `null`.
+ */
+export function highlightSpokenWord(messageElement: HTMLElement, charIndex: number | null) {
+    messageElement.querySelectorAll('.spoken-word.speaking').forEach(word => word.classList.remove('speaking'));
+    if (charIndex === null) return;
+    const index = findSpokenWord(splitSpokenWords(messageElement.dataset.text ?? ''), charIndex);
+    messageElement.querySelectorAll('.message-text .spoken-word')[index]?.classList.add('speaking');
+}
+
+/** Rewrites a learner's message with each correction marked inline: the original struck out, the fix after it. */
+export function markCorrections(messageElement: HTMLElement, text: string, corrections: Correction[]) {
+    const { segments } = segmentCorrections(text, corrections);
+    messageElement.replaceChildren();
+    segments.forEach(({ text: segmentText, correction }) => {
+        if (!correction) {
+            messageElement.appendChild(document.createTextNode(segmentText));
+            return;
+        }
+        const mark = document.createElement('span');
+        mark.title = correction.explanation;
+        if (correction.variant) {
+            // Not a mistake: keep the learner's word and show the other variety's next to it.
+            mark.classList.add('correction', 'variant');
+            const alternative = document.createElement('span');
+            alternative.classList.add('variant-alternative');
+            alternative.textContent = correction.corrected;
+            mark.append(segmentText, alternative);
+            messageElement.appendChild(mark);
+            return;
+        }
+        mark.classList.add('correction', `category-${correction.category}`);
+        const original = document.createElement('del');
+        original.textContent = segmentText;
+        const fixed = document.createElement('ins');
+        fixed.textContent = correction.corrected;
+        mark.append(original, fixed);
+        messageElement.appendChild(mark);
+    });
+}
+
+/** Creates the view of the conversation in a container. */
+export function createChatView(container: HTMLElement, options: ChatViewOptions): ChatView {
+    const view: ChatView = {
+        addMessage(text, sender, feedback = '') {
+            const messageElement = document.createElement('div');
+            messageElement.classList.add('chat-message', sender);
+            messageElement.dataset.text = text;
+            messageElement.dir = 'auto';
+
+            if (sender === 'ai') {
+                const textElement = document.createElement('span');
+                textElement.classList.add('message-text');
+                renderSpokenText(textElement, text);
+                textElement.addEventListener('click', (e) => {
+                    const word = (e.target as HTMLElement).closest('.spoken-word');
+                    // Leave taps that finish a text selection to the notebook's save button.
+                    if (!word || window.getSelection()?.toString()) return;
+                    options.onWordTap(word.textContent ?? '');
+                });
+                messageElement.appendChild(textElement);
+                options.decorateTutorMessage?.(messageElement);
+            } else {
+                messageElement.appendChild(document.createTextNode(text));
+            }
+
+            if (feedback) {
+                const feedbackElement = document.createElement('div');
+                feedbackElement.classList.add('feedback');
+                const feedbackTitle = document.createElement('strong');
+                feedbackTitle.textContent = options.t('feedback');
+                feedbackElement.append(feedbackTitle, document.createElement('br'), document.createTextNode(feedback));
+                messageElement.appendChild(feedbackElement);
+            }
+
+            view.append(messageElement);
+            return messageElement;
+        },
+        setMessageText(messageElement, text) {
+            messageElement.dataset.text = text;
+            const textElement = messageElement.querySelector<HTMLElement>('.message-text');
+            if (textElement) renderSpokenText(textElement, text);
+            view.scrollToEnd();
+        },
+        append(element) {
+            container.appendChild(element);
+            view.scrollToEnd();
+        },
+        scrollToEnd() {
+            container.scrollTop = container.scrollHeight;
+        },
+        clear() {
+            container.replaceChildren();
+        },
+        showThinkingIndicator(show) {
+            const existing = container.querySelector(`#${THINKING_INDICATOR_ID}`);
+            if (!show) {
+                existing?.remove();
+                return;
+            }
+            if (existing) return;
+            const thinkingElement = document.createElement('div');
+            thinkingElement.id = THINKING_INDICATOR_ID;
+            thinkingElement.classList.add('chat-message', 'thinking');
+            thinkingElement.setAttribute('role', 'status');
+            thinkingElement.setAttribute('aria-label', options.thinkingLabel());
+            for (let i = 0; i < 3; i++) {
+                const dot = document.createElement('div');
+                dot.setAttribute('aria-hidden', 'true');
+                thinkingElement.appendChild(dot);
+            }
+            view.append(thinkingElement);
+        },
+    };
+    return view;
+}
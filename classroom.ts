@@ -0,0 +1,269 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Assignment, AssignmentResult, CefrLevel, ErrorCategory, PracticeSession, Scenario } from './types';
+import { getScenario } from './scenarios';
+import { summarizeScenario } from './roleplay';
+import { ERROR_CATEGORIES, isMistake } from './feedback';
+import { CEFR_LEVELS } from './report';
+
+// --- Classroom Files ---
+// Teachers and students share work as files, so no server is needed: the teacher
+// exports assignments, students import them, and students' results go back the same way.
+const ASSIGNMENTS_FORMAT = 'ai-english-practice-assignments';
+const RESULTS_FORMAT = 'ai-english-practice-results';
+
+/** Bumped whenever either classroom file changes shape. */
+export const CLASSROOM_FILE_VERSION = 1;
+
+/** What an assignments file contains. */
+interface AssignmentsFile {
+    format: typeof ASSIGNMENTS_FORMAT;
+    version: number;
+    exportedAt: number;
+    assignments: Assignment[];
+}
+
+/** What a results file contains. */
+interface ResultsFile {
+    format: typeof RESULTS_FORMAT;
+    version: number;
+    exportedAt: number;
+    student: string;
+    results: AssignmentResult[];
+}
+
+/** One student's row in the class overview, with their best attempt at each assignment. */
+export interface StudentProgress {
+    student: string;
+    /** In the same order as `ClassProgress.assignments`; `undefined` where not attempted. */
+    results: (AssignmentResult | undefined)[];
+    completed: number;
+}
+
+/** Everything the teacher's class overview shows. */
+export interface ClassProgress {
+    assignments: { id: string; title: string }[];
+    students: StudentProgress[];
+}
+
+/**
+ * The scenario an assignment plays: the library scenario, with the teacher's
+ * target vocabulary added to its own.
+ */
+export function applyAssignment(scenario: Scenario, assignment: Assignment): Scenario {
+    const vocabulary = [...scenario.requiredVocabulary];
+    assignment.targetVocabulary.forEach(item => {
+        if (!vocabulary.some(existing => existing.toLowerCase() === item.toLowerCase())) vocabulary.push(item);
+    });
+    return { ...scenario, requiredVocabulary: vocabulary };
+}
+
+/** The scenario a session plays, including its assignment's vocabulary, or `undefined` for free conversations. */
+export function getSessionScenario(session: PracticeSession): Scenario | undefined {
+    const scenario = session.scenarioId ? getScenario(session.scenarioId) : undefined;
+    return scenario && session.assignment ? applyAssignment(scenario, session.assignment) : scenario;
+}
+
+/** Whether a session has done everything its assignment asks for. */
+export function isAssignmentComplete(session: PracticeSession): boolean {
+    return Boolean(session.assignment && session.completedAt && session.turns.length >= session.assignment.minTurns);
+}
+
+/**
+ * Summarizes a student's attempt at an assignment for the teacher. The session
+ * must have been started from an assignment.
+ */
+export function summarizeAssignmentResult(session: PracticeSession, student: string): AssignmentResult {
+    const assignment = session.assignment;
+    const scenario = getSessionScenario(session);
+    if (!assignment || !scenario) throw new Error('This session was not started from an assignment.');
+
+    const summary = summarizeScenario(scenario, session);
+    const corrections: Partial<Record<ErrorCategory, number>> = {};
+    session.turns.flatMap(turn => turn.corrections).filter(isMistake).forEach(correction => {
+        corrections[correction.category] = (corrections[correction.category] ?? 0) + 1;
+    });
+    return {
+        assignmentId: assignment.id,
+        assignmentTitle: assignment.title,
+        student,
+        sessionId: session.id,
+        startedAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        completed: isAssignmentComplete(session),
+        turns: summary.turns,
+        minTurns: assignment.minTurns,
+        wordsSpoken: summary.wordsSpoken,
+        vocabularyUsed: summary.vocabularyUsed,
+        vocabularyMissed: summary.vocabularyMissed,
+        corrections,
+        cefrLevel: session.report?.cefr.level,
+    };
+}
+
+/** A file name for a classroom export, such as `2026-10-19-results-maria.json`. */
+export function classroomFileName(kind: 'assignments' | 'results', name: string = ''): string {
+    const date = new Date().toISOString().slice(0, 10);
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+    return `${date}-${kind}${slug ? `-${slug}` : ''}.json`;
+}
+
+/** Writes assignments as a file students can import. */
+export function exportAssignmentsJson(assignments: Assignment[]): string {
+    const data: AssignmentsFile = {
+        format: ASSIGNMENTS_FORMAT,
+        version: CLASSROOM_FILE_VERSION,
+        exportedAt: Date.now(),
+        assignments,
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+/** Writes a student's results as a file the teacher can load. */
+export function exportResultsJson(student: string, results: AssignmentResult[]): string {
+    const data: ResultsFile = {
+        format: RESULTS_FORMAT,
+        version: CLASSROOM_FILE_VERSION,
+        exportedAt: Date.now(),
+        student,
+        results,
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+/** Parses a classroom file and checks its format and version. */
+function readClassroomFile<T extends { format: string; version: number }>(text: string, format: T['format'], description: string): Partial<T> {
+    let data: Partial<T>;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not valid JSON.');
+    }
+    if (!data || data.format !== format) {
+        throw new Error(`This file is not ${description}.`);
+    }
+    if (typeof data.version !== 'number' || data.version > CLASSROOM_FILE_VERSION) {
+        throw new Error('This file was exported by a newer version of the app.');
+    }
+    return data;
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Reads an assignments file. Throws an error with a message for the learner if it
+ * isn't one, or if it uses a scenario this version of the app doesn't have.
+ */
+export function parseAssignmentsFile(text: string): Assignment[] {
+    const data = readClassroomFile<AssignmentsFile>(text, ASSIGNMENTS_FORMAT, 'a set of assignments');
+    if (!Array.isArray(data.assignments) || data.assignments.length === 0) {
+        throw new Error('This file has no assignments in it.');
+    }
+    return data.assignments.map(assignment => {
+        if (!assignment || typeof assignment.id !== 'string' || typeof assignment.title !== 'string'
+            || typeof assignment.minTurns !== 'number' || !isStringArray(assignment.targetVocabulary)) {
+            throw new Error('This assignments file is damaged.');
+        }
+        if (!getScenario(assignment.scenarioId)) {
+            throw new Error(`"${assignment.title}" uses a scenario this version of the app doesn't have.`);
+        }
+        return {
+            id: assignment.id,
+            title: assignment.title,
+            scenarioId: assignment.scenarioId,
+            targetVocabulary: assignment.targetVocabulary,
+            minTurns: Math.max(1, Math.round(assignment.minTurns)),
+            instructions: typeof assignment.instructions === 'string' ? assignment.instructions : undefined,
+            createdAt: typeof assignment.createdAt === 'number' ? assignment.createdAt : Date.now(),
+        };
+    });
+}
+
+function isCount(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/** Keeps the correction counts a results file can be trusted for, one per known category. */
+function readCorrectionCounts(value: unknown): Partial<Record<ErrorCategory, number>> {
+    const counts: Partial<Record<ErrorCategory, number>> = {};
+    if (!value || typeof value !== 'object') return counts;
+    ERROR_CATEGORIES.forEach(category => {
+        const count = (value as Record<string, unknown>)[category];
+        if (isCount(count)) counts[category] = Math.round(count);
+    });
+    return counts;
+}
+
+/**
+ * Reads a student's results file. Throws an error with a message for the teacher if it
+ * isn't one; fields that are missing or the wrong type get safe defaults, so nothing
+ * unreadable reaches the class overview.
+ */
+export function parseResultsFile(text: string): AssignmentResult[] {
+    const data = readClassroomFile<ResultsFile>(text, RESULTS_FORMAT, "a student's results");
+    const student = typeof data.student === 'string' ? data.student.trim() : '';
+    if (!student || !Array.isArray(data.results)) {
+        throw new Error('This results file is incomplete.');
+    }
+    return data.results.map((result: Partial<AssignmentResult> | null) => {
+        if (!result || typeof result.assignmentId !== 'string' || typeof result.sessionId !== 'string'
+            || !isCount(result.turns) || !isStringArray(result.vocabularyUsed) || !isStringArray(result.vocabularyMissed)) {
+            throw new Error('This results file is damaged.');
+        }
+        const startedAt = isCount(result.startedAt) ? result.startedAt : 0;
+        return {
+            assignmentId: result.assignmentId,
+            assignmentTitle: typeof result.assignmentTitle === 'string' && result.assignmentTitle.trim()
+                ? result.assignmentTitle
+                : result.assignmentId,
+            student,
+            sessionId: result.sessionId,
+            startedAt,
+            updatedAt: isCount(result.updatedAt) ? result.updatedAt : startedAt,
+            completed: result.completed === true,
+            turns: Math.round(result.turns),
+            minTurns: isCount(result.minTurns) ? Math.max(1, Math.round(result.minTurns)) : 1,
+            wordsSpoken: isCount(result.wordsSpoken) ? Math.round(result.wordsSpoken) : 0,
+            vocabularyUsed: result.vocabularyUsed,
+            vocabularyMissed: result.vocabularyMissed,
+            corrections: readCorrectionCounts(result.corrections),
+            cefrLevel: CEFR_LEVELS.includes(result.cefrLevel as CefrLevel) ? result.cefrLevel : undefined,
+        };
+    });
+}
+
+/** Orders attempts so the best comes first: finished, then most target words used, then most recent. */
+function compareAttempts(a: AssignmentResult, b: AssignmentResult): number {
+    return Number(b.completed) - Number(a.completed)
+        || b.vocabularyUsed.length - a.vocabularyUsed.length
+        || b.updatedAt - a.updatedAt;
+}
+
+/**
+ * Builds the class overview from every loaded result: one row per student, one
+ * column per assignment (the teacher's own first, then any others found in the
+ * results), each cell the student's best attempt.
+ */
+export function summarizeClass(results: AssignmentResult[], assignments: Assignment[]): ClassProgress {
+    const columns = assignments.map(({ id, title }) => ({ id, title }));
+    results.forEach(result => {
+        if (!columns.some(column => column.id === result.assignmentId)) {
+            columns.push({ id: result.assignmentId, title: result.assignmentTitle });
+        }
+    });
+
+    const studentNames = [...new Set(results.map(result => result.student))].sort((a, b) => a.localeCompare(b));
+    const students = studentNames.map(student => {
+        const own = results.filter(result => result.student === student);
+        const best = columns.map(column => own
+            .filter(result => result.assignmentId === column.id)
+            .sort(compareAttempts)[0]);
+        return { student, results: best, completed: best.filter(result => result?.completed).length };
+    });
+    return { assignments: columns, students };
+}
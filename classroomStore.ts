@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ASSIGNMENT_STORE, RESULT_STORE, withStore } from './db';
+import type { Assignment, AssignmentResult } from './types';
+
+/** Inserts or updates an assignment. */
+export async function saveAssignment(assignment: Assignment): Promise<void> {
+    await withStore(ASSIGNMENT_STORE, 'readwrite', store => store.put(assignment));
+}
+
+/** Lists every assignment, newest first. */
+export async function listAssignments(): Promise<Assignment[]> {
+    const assignments = await withStore<Assignment[]>(ASSIGNMENT_STORE, 'readonly', store => store.getAll());
+    return assignments.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Permanently removes an assignment. Sessions started from it keep their copy. */
+export async function deleteAssignment(id: string): Promise<void> {
+    await withStore(ASSIGNMENT_STORE, 'readwrite', store => store.delete(id));
+}
+
+/** Stores a student's result; a newer export of the same session replaces the old one. */
+export async function saveAssignmentResult(result: AssignmentResult): Promise<void> {
+    await withStore(RESULT_STORE, 'readwrite', store => store.put(result));
+}
+
+/** Lists every result the teacher has loaded. */
+export function listAssignmentResults(): Promise<AssignmentResult[]> {
+    return withStore<AssignmentResult[]>(RESULT_STORE, 'readonly', store => store.getAll());
+}
+
+/** Forgets all loaded results, e.g. at the end of a term. */
+export async function clearAssignmentResults(): Promise<void> {
+    await withStore(RESULT_STORE, 'readwrite', store => store.clear());
+}
@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ERROR_CATEGORIES } from './feedback';
+import { CEFR_LEVELS } from './report';
+import { isMastered, masteryScore } from './drills';
+import type { ProgressSummary, SessionProgress } from './progress';
+import type { GrammarMastery } from './types';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 24;
+/** How many of the most recent sessions the charts show. */
+const MAX_CHART_SESSIONS = 12;
+
+/**
+ * Renders the progress dashboard into the given container, replacing its contents.
+ * @param {string} tutorName - The name the learner has given the tutor.
+ * @param {GrammarMastery[]} mastery - The learner's grammar drill results, if any.
+ */
+export function renderDashboard(container: HTMLElement, summary: ProgressSummary, tutorName: string, mastery: GrammarMastery[] = []) {
+    container.replaceChildren();
+
+    if (summary.sessions.length === 0) {
+        const empty = document.createElement('p');
+        empty.classList.add('dashboard-empty');
+        empty.textContent = `No practice yet. Have a conversation with ${tutorName} and your progress will show up here.`;
+        container.appendChild(empty);
+        return;
+    }
+
+    container.appendChild(createStatTiles(summary));
+
+    const recent = summary.sessions.slice(-MAX_CHART_SESSIONS);
+    container.appendChild(createCard('Words spoken per session', createWordsChart(recent)));
+    container.appendChild(createCard('Errors per 100 words', createErrorRateChart(recent)));
+    const reported = summary.sessions.filter(session => session.cefr).slice(-MAX_CHART_SESSIONS);
+    if (reported.length) container.appendChild(createCard('Estimated CEFR level', createCefrChart(reported)));
+    container.appendChild(createCard('Recurring mistakes', createMistakeList(summary)));
+    if (mastery.length) container.appendChild(createCard('Grammar mastery', createMasteryList(mastery)));
+}
+
+function createCard(title: string, content: Element): HTMLElement {
+    const card = document.createElement('section');
+    card.classList.add('dashboard-card');
+    const heading = document.createElement('h3');
+    heading.textContent = title;
+    card.append(heading, content);
+    return card;
+}
+
+function createStatTiles(summary: ProgressSummary): HTMLElement {
+    const tiles = document.createElement('div');
+    tiles.classList.add('stat-tiles');
+    const dayLabel = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+    [
+        ['Current streak', dayLabel(summary.currentStreak)],
+        ['Longest streak', dayLabel(summary.longestStreak)],
+        ['Sessions', String(summary.sessions.length)],
+        ['Words spoken', String(summary.totalWords)],
+    ].forEach(([label, value]) => {
+        const tile = document.createElement('div');
+        tile.classList.add('stat-tile');
+        const valueEl = document.createElement('span');
+        valueEl.classList.add('stat-value');
+        valueEl.textContent = value;
+        const labelEl = document.createElement('span');
+        labelEl.classList.add('stat-label');
+        labelEl.textContent = label;
+        tile.append(valueEl, labelEl);
+        tiles.appendChild(tile);
+    });
+    return tiles;
+}
+
+function createSvg(label: string): SVGSVGElement {
+    const svg = document.createElementNS(SVG_NS, 'svg');
+    svg.setAttribute('viewBox', `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`);
+    svg.setAttribute('role', 'img');
+    svg.setAttribute('aria-label', label);
+    svg.classList.add('dashboard-chart');
+
+    const axis = document.createElementNS(SVG_NS, 'line');
+    axis.setAttribute('x1', String(CHART_PADDING));
+    axis.setAttribute('x2', String(CHART_WIDTH - CHART_PADDING));
+    axis.setAttribute('y1', String(CHART_HEIGHT - CHART_PADDING));
+    axis.setAttribute('y2', String(CHART_HEIGHT - CHART_PADDING));
+    axis.classList.add('chart-axis');
+    svg.appendChild(axis);
+    return svg;
+}
+
+function addText(svg: SVGSVGElement, x: number, y: number, text: string, className: string) {
+    const label = document.createElementNS(SVG_NS, 'text');
+    label.setAttribute('x', String(x));
+    label.setAttribute('y', String(y));
+    label.classList.add(className);
+    label.textContent = text;
+    svg.appendChild(label);
+}
+
+function describeSession(session: SessionProgress): string {
+    return `${session.title} (${new Date(session.date).toLocaleDateString()})`;
+}
+
+function createWordsChart(sessions: SessionProgress[]): SVGSVGElement {
+    const svg = createSvg('Bar chart of words spoken in each recent session');
+    const max = Math.max(...sessions.map(session => session.wordsSpoken), 1);
+    const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+    const slot = plotWidth / sessions.length;
+    const barWidth = Math.min(slot * 0.7, 24);
+
+    sessions.forEach((session, index) => {
+        const height = (session.wordsSpoken / max) * plotHeight;
+        const x = CHART_PADDING + slot * index + (slot - barWidth) / 2;
+        const bar = document.createElementNS(SVG_NS, 'rect');
+        bar.setAttribute('x', String(x));
+        bar.setAttribute('y', String(CHART_HEIGHT - CHART_PADDING - height));
+        bar.setAttribute('width', String(barWidth));
+        bar.setAttribute('height', String(height));
+        bar.classList.add('chart-bar');
+        const title = document.createElementNS(SVG_NS, 'title');
+        title.textContent = `${describeSession(session)}: ${session.wordsSpoken} words`;
+        bar.appendChild(title);
+        svg.appendChild(bar);
+    });
+
+    addText(svg, CHART_PADDING, CHART_PADDING - 8, `max ${max}`, 'chart-label');
+    return svg;
+}
+
+function createErrorRateChart(sessions: SessionProgress[]): HTMLElement {
+    const wrapper = document.createElement('div');
+    const svg = createSvg('Line chart of errors per 100 words, by category, across recent sessions');
+    const max = Math.max(...sessions.flatMap(session => ERROR_CATEGORIES.map(category => session.errorRate[category])), 1);
+    const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+    const step = sessions.length > 1 ? plotWidth / (sessions.length - 1) : 0;
+    const xFor = (index: number) => CHART_PADDING + (sessions.length > 1 ? step * index : plotWidth / 2);
+    const yFor = (rate: number) => CHART_HEIGHT - CHART_PADDING - (rate / max) * plotHeight;
+
+    ERROR_CATEGORIES.forEach(category => {
+        const line = document.createElementNS(SVG_NS, 'polyline');
+        line.setAttribute('points', sessions.map((session, index) => `${xFor(index)},${yFor(session.errorRate[category])}`).join(' '));
+        line.classList.add('chart-line', `category-${category}`);
+        svg.appendChild(line);
+
+        sessions.forEach((session, index) => {
+            const point = document.createElementNS(SVG_NS, 'circle');
+            point.setAttribute('cx', String(xFor(index)));
+            point.setAttribute('cy', String(yFor(session.errorRate[category])));
+            point.setAttribute('r', '2.5');
+            point.classList.add('chart-point', `category-${category}`);
+            const title = document.createElementNS(SVG_NS, 'title');
+            title.textContent = `${describeSession(session)}: ${session.errorRate[category].toFixed(1)} ${category} errors per 100 words`;
+            point.appendChild(title);
+            svg.appendChild(point);
+        });
+    });
+
+    addText(svg, CHART_PADDING, CHART_PADDING - 8, `max ${max.toFixed(1)}`, 'chart-label');
+
+    const legend = document.createElement('div');
+    legend.classList.add('chart-legend');
+    ERROR_CATEGORIES.forEach(category => {
+        const item = document.createElement('span');
+        item.classList.add('category-badge', `category-${category}`);
+        item.textContent = category;
+        legend.appendChild(item);
+    });
+
+    wrapper.append(svg, legend);
+    return wrapper;
+}
+
+function createCefrChart(sessions: SessionProgress[]): SVGSVGElement {
+    const svg = createSvg('Line chart of the CEFR band from each session report');
+    const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+    const step = sessions.length > 1 ? plotWidth / (sessions.length - 1) : 0;
+    const xFor = (index: number) => CHART_PADDING + (sessions.length > 1 ? step * index : plotWidth / 2);
+    const yFor = (band: number) => CHART_HEIGHT - CHART_PADDING - (band / (CEFR_LEVELS.length - 1)) * plotHeight;
+    const bandOf = (session: SessionProgress) => CEFR_LEVELS.indexOf(session.cefr ?? 'A1');
+
+    CEFR_LEVELS.forEach((level, band) => addText(svg, 2, yFor(band) + 3, level, 'chart-label'));
+
+    const line = document.createElementNS(SVG_NS, 'polyline');
+    line.setAttribute('points', sessions.map((session, index) => `${xFor(index)},${yFor(bandOf(session))}`).join(' '));
+    line.classList.add('chart-line', 'cefr-line');
+    svg.appendChild(line);
+
+    sessions.forEach((session, index) => {
+        const point = document.createElementNS(SVG_NS, 'circle');
+        point.setAttribute('cx', String(xFor(index)));
+        point.setAttribute('cy', String(yFor(bandOf(session))));
+        point.setAttribute('r', '3');
+        point.classList.add('chart-point', 'cefr-line');
+        const title = document.createElementNS(SVG_NS, 'title');
+        title.textContent = `${describeSession(session)}: ${session.cefr}`;
+        point.appendChild(title);
+        svg.appendChild(point);
+    });
+    return svg;
+}
+
+function createMistakeList(summary: ProgressSummary): HTMLElement {
+    if (summary.recurringMistakes.length === 0) {
+        const empty = document.createElement('p');
+        empty.classList.add('dashboard-empty');
+        empty.textContent = 'No repeated mistakes so far. Nice work!';
+        return empty;
+    }
+
+    const list = document.createElement('ol');
+    list.classList.add('mistake-list');
+    summary.recurringMistakes.slice(0, 5).forEach(mistake => {
+        const item = document.createElement('li');
+        const badge = document.createElement('span');
+        badge.classList.add('category-badge', `category-${mistake.category}`);
+        badge.textContent = mistake.category;
+        const change = document.createElement('span');
+        change.classList.add('correction-change');
+        change.textContent = `${mistake.original} → ${mistake.corrected}`;
+        const count = document.createElement('span');
+        count.classList.add('mistake-count');
+        count.textContent = `×${mistake.count}`;
+        item.append(badge, change, count);
+        list.appendChild(item);
+    });
+    return list;
+}
+
+function createMasteryList(mastery: GrammarMastery[]): HTMLElement {
+    const list = document.createElement('ul');
+    list.classList.add('mastery-list');
+    mastery.forEach(entry => {
+        const score = Math.round(masteryScore(entry) * 100);
+        const item = document.createElement('li');
+        const name = document.createElement('span');
+        name.textContent = entry.point;
+        const bar = document.createElement('span');
+        bar.classList.add('mastery-bar');
+        bar.setAttribute('role', 'img');
+        bar.setAttribute('aria-label', `${score}% mastery`);
+        const fill = document.createElement('span');
+        fill.classList.toggle('mastered', isMastered(entry));
+        fill.style.width = `${score}%`;
+        bar.appendChild(fill);
+        const detail = document.createElement('span');
+        detail.classList.add('mistake-count');
+        detail.textContent = isMastered(entry) ? 'mastered' : `${score}% · ${entry.attempts} answered`;
+        item.append(name, bar, detail);
+        list.appendChild(item);
+    });
+    return list;
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { profileStorageKey } from './profiles';
+
+// --- IndexedDB Access ---
+// Each learner profile has its own database.
+const DB_NAME = 'ai-english-practice';
+const DB_VERSION = 5;
+
+export const SESSION_STORE = 'sessions';
+export const VOCABULARY_STORE = 'vocabulary';
+export const ASSIGNMENT_STORE = 'assignments';
+export const RESULT_STORE = 'assignmentResults';
+export const MASTERY_STORE = 'grammarMastery';
+export const RECORDING_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates or upgrades) the active profile's database.
+ * The connection is shared between callers.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (!window.indexedDB) {
+                reject(new Error('IndexedDB is not supported in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(profileStorageKey(DB_NAME), DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) {
+                    const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+                if (!db.objectStoreNames.contains(VOCABULARY_STORE)) {
+                    const store = db.createObjectStore(VOCABULARY_STORE, { keyPath: 'id' });
+                    store.createIndex('dueAt', 'dueAt');
+                }
+                if (!db.objectStoreNames.contains(ASSIGNMENT_STORE)) {
+                    db.createObjectStore(ASSIGNMENT_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(RESULT_STORE)) {
+                    db.createObjectStore(RESULT_STORE, { keyPath: 'sessionId' });
+                }
+                if (!db.objectStoreNames.contains(MASTERY_STORE)) {
+                    db.createObjectStore(MASTERY_STORE, { keyPath: 'point' });
+                }
+                if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+                    const store = db.createObjectStore(RECORDING_STORE, { keyPath: 'id' });
+                    store.createIndex('sessionId', 'sessionId');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+/** Wraps an IDBRequest in a promise. */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** Runs a single request against an object store and resolves with its result. */
+export async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    return requestToPromise(action(transaction.objectStore(storeName)));
+}
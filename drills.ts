@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from '@google/genai';
+import { createAccentInstruction } from './accents';
+import type { AppSettings, Correction, GrammarMastery, PracticeSession } from './types';
+
+/** The kinds of exercise a drill mixes. */
+export type DrillType = 'gap' | 'transform' | 'structure';
+
+const DRILL_TYPES: DrillType[] = ['gap', 'transform', 'structure'];
+
+/** One short spoken exercise on a grammar point. */
+export interface DrillExercise {
+    type: DrillType;
+    grammarPoint: string;
+    /** What to do, e.g. "Put the verb in the past simple." */
+    instruction: string;
+    /** The sentence with a gap, the sentence to transform, or the question to answer. */
+    prompt: string;
+    /** A model answer; others may also be correct. */
+    answer: string;
+}
+
+/** A grammar point the learner keeps getting wrong, with their own mistakes as examples. */
+export interface FrequentGrammarPoint {
+    point: string;
+    count: number;
+    examples: Correction[];
+}
+
+/** The tutor's verdict on one drill answer. */
+export interface DrillCheck {
+    correct: boolean;
+    feedback: string;
+    correctedAnswer: string;
+}
+
+/** Label for grammar corrections recorded before they were tagged with a grammar point. */
+const GENERAL_GRAMMAR = 'general grammar';
+/** How many grammar points one drill covers. */
+const POINTS_PER_DRILL = 3;
+/** How many exercises each grammar point gets. */
+const EXERCISES_PER_POINT = 3;
+/** How many recent answers mastery is judged on. */
+const MASTERY_WINDOW = 10;
+/** The share of recent answers that must be right, over at least `MIN_MASTERY_ATTEMPTS`, for a point to count as mastered. */
+export const MASTERY_THRESHOLD = 0.8;
+const MIN_MASTERY_ATTEMPTS = 5;
+
+/** JSON schema for a generated drill. */
+export const drillResponseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        exercises: {
+            type: Type.ARRAY,
+            description: 'The exercises, grouped by grammar point.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    type: {
+                        type: Type.STRING,
+                        enum: DRILL_TYPES,
+                        description: 'gap: say the missing word(s); transform: say the sentence changed as instructed; structure: answer the question using the given structure.',
+                    },
+                    grammarPoint: {
+                        type: Type.STRING,
+                        description: 'The grammar point, exactly as given in the request.',
+                    },
+                    instruction: {
+                        type: Type.STRING,
+                        description: 'A one-line instruction for the learner.',
+                    },
+                    prompt: {
+                        type: Type.STRING,
+                        description: 'For gap, a sentence with "_____" for the gap; for transform, the sentence to change; for structure, the question to answer.',
+                    },
+                    answer: {
+                        type: Type.STRING,
+                        description: 'A model answer. For gap, only the missing word(s).',
+                    },
+                },
+                required: ['type', 'grammarPoint', 'instruction', 'prompt', 'answer'],
+                propertyOrdering: ['type', 'grammarPoint', 'instruction', 'prompt', 'answer'],
+            },
+        },
+    },
+    required: ['exercises'],
+};
+
+/** JSON schema for checking one drill answer. */
+export const drillCheckSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        correct: {
+            type: Type.BOOLEAN,
+            description: 'True if the answer uses the grammar point correctly, even if it differs from the model answer.',
+        },
+        feedback: {
+            type: Type.STRING,
+            description: 'One short, encouraging sentence on the answer.',
+        },
+        correctedAnswer: {
+            type: Type.STRING,
+            description: "The learner's answer with any mistakes fixed, or unchanged if it was right.",
+        },
+    },
+    required: ['correct', 'feedback', 'correctedAnswer'],
+    propertyOrdering: ['correct', 'feedback', 'correctedAnswer'],
+};
+
+/**
+ * Finds the grammar points the learner gets wrong most often, from the tutor's
+ * corrections in past sessions.
+ */
+export function findFrequentGrammarPoints(sessions: PracticeSession[]): FrequentGrammarPoint[] {
+    const points = new Map<string, FrequentGrammarPoint>();
+    sessions.flatMap(session => session.turns).flatMap(turn => turn.corrections)
+        .filter(correction => correction.category === 'grammar')
+        .forEach(correction => {
+            const point = correction.grammarPoint ?? GENERAL_GRAMMAR;
+            const entry = points.get(point) ?? { point, count: 0, examples: [] };
+            entry.count++;
+            entry.examples.push(correction);
+            points.set(point, entry);
+        });
+    return [...points.values()].sort((a, b) => b.count - a.count);
+}
+
+/** The share of recent drill answers on a point that were right, from 0 to 1. */
+export function masteryScore(mastery: GrammarMastery | undefined): number {
+    if (!mastery || mastery.recent.length === 0) return 0;
+    return mastery.recent.filter(Boolean).length / mastery.recent.length;
+}
+
+/** Whether the learner has shown they know a grammar point. */
+export function isMastered(mastery: GrammarMastery | undefined): boolean {
+    return Boolean(mastery && mastery.attempts >= MIN_MASTERY_ATTEMPTS && masteryScore(mastery) >= MASTERY_THRESHOLD);
+}
+
+/**
+ * Chooses what to drill: frequent mistakes first, weighted towards points that
+ * aren't mastered yet. Mastered points are only drilled when nothing else is left.
+ */
+export function pickDrillPoints(frequent: FrequentGrammarPoint[], mastery: GrammarMastery[]): FrequentGrammarPoint[] {
+    const byPoint = new Map(mastery.map(entry => [entry.point, entry]));
+    const weight = (point: FrequentGrammarPoint) => point.count * (1.2 - masteryScore(byPoint.get(point.point)));
+    const open = frequent.filter(point => !isMastered(byPoint.get(point.point)));
+    return (open.length ? open : frequent)
+        .slice()
+        .sort((a, b) => weight(b) - weight(a))
+        .slice(0, POINTS_PER_DRILL);
+}
+
+/** Creates the system instruction for writing a drill from the learner's own mistakes. */
+export function createDrillInstruction(points: FrequentGrammarPoint[], level: AppSettings['level'], accent: AppSettings['accent'], tutorName: string): string {
+    const details = points.map(({ point, examples }) => {
+        const mistakes = examples.slice(-3).map(example => `"${example.original}" → "${example.corrected}"`).join('; ');
+        return `- ${point} (my mistakes: ${mistakes})`;
+    }).join('\n');
+    return `You are ${tutorName}, an English tutor writing a short spoken grammar drill for a learner with a proficiency level of: ${level}. The learner will hear each exercise and answer out loud, so keep every prompt short and easy to say, and avoid answers that depend on punctuation or spelling. ${createAccentInstruction(accent)}
+
+Write ${EXERCISES_PER_POINT} exercises for each of these grammar points, based on the mistakes the learner actually made, and mix the three types (gap, transform, structure):
+${details}
+
+Always answer in JSON matching the schema.`;
+}
+
+/** Reads a generated drill, dropping any malformed exercises. Throws if none are usable. */
+export function parseDrillExercises(raw: string): DrillExercise[] {
+    const { exercises } = JSON.parse(raw) as { exercises?: unknown };
+    const valid = (Array.isArray(exercises) ? exercises : []).flatMap(entry => {
+        if (!entry || typeof entry !== 'object') return [];
+        const { type, grammarPoint, instruction, prompt, answer } = entry as Record<string, unknown>;
+        if (typeof prompt !== 'string' || typeof answer !== 'string' || typeof grammarPoint !== 'string' || !prompt.trim()) return [];
+        return [{
+            type: DRILL_TYPES.includes(type as DrillType) ? type as DrillType : 'transform',
+            grammarPoint: grammarPoint.trim().toLowerCase(),
+            instruction: typeof instruction === 'string' ? instruction.trim() : '',
+            prompt: prompt.trim(),
+            answer: answer.trim(),
+        }];
+    });
+    if (valid.length === 0) throw new Error('The drill had no usable exercises.');
+    return valid;
+}
+
+/** The system instruction for the tutor that checks drill answers. */
+export function createDrillCheckInstruction(tutorName: string): string {
+    return `You are ${tutorName}, an English tutor checking spoken answers in a grammar drill. Each message gives the grammar point, the exercise, a model answer and the learner's answer. Answers are usually speech-recognition transcripts, so ignore punctuation, capitalization and small recognition slips. Judge only whether the learner used the grammar point correctly; a different answer can still be correct. Always answer in JSON matching the schema.`;
+}
+
+/** Builds the message sent to the checker for one answer. */
+export function formatDrillAnswer(exercise: DrillExercise, answer: string): string {
+    return [
+        `Grammar point: ${exercise.grammarPoint}`,
+        `Exercise (${exercise.type}): ${exercise.instruction} ${exercise.prompt}`,
+        `Model answer: ${exercise.answer}`,
+        `Learner's answer: ${answer}`,
+    ].join('\n');
+}
+
+/** Reads the checker's verdict. */
+export function parseDrillCheck(raw: string): DrillCheck {
+    const { correct, feedback, correctedAnswer } = JSON.parse(raw) as Record<string, unknown>;
+    if (typeof correct !== 'boolean') throw new Error('The answer check was incomplete.');
+    return {
+        correct,
+        feedback: typeof feedback === 'string' ? feedback.trim() : '',
+        correctedAnswer: typeof correctedAnswer === 'string' ? correctedAnswer.trim() : '',
+    };
+}
+
+/** Records one drill answer against a grammar point. */
+export function updateMastery(mastery: GrammarMastery | undefined, point: string, correct: boolean, now: number = Date.now()): GrammarMastery {
+    const previous = mastery ?? { point, attempts: 0, correct: 0, recent: [], lastPracticedAt: now };
+    return {
+        point,
+        attempts: previous.attempts + 1,
+        correct: previous.correct + (correct ? 1 : 0),
+        recent: [...previous.recent, correct].slice(-MASTERY_WINDOW),
+        lastPracticedAt: now,
+    };
+}
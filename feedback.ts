@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from '@google/genai';
+import type { Correction, CorrectionStrictness, ErrorCategory, InputMode } from './types';
+import { getLanguage, UiStringKey } from './i18n';
+
+export const ERROR_CATEGORIES: ErrorCategory[] = ['grammar', 'vocabulary', 'pronunciation', 'fluency', 'spelling'];
+
+/** Marks typed messages so the model can tell them apart from speech transcripts. */
+const TYPED_MARKER = '[typed] ';
+
+/** Prompt text describing the JSON reply format that `tutorResponseSchema` enforces. */
+export const CORRECTIONS_FORMAT_INSTRUCTION = `Always answer in JSON. Put your conversational response in "reply". In "corrections", list each mistake in my latest message as its own entry: "original" must be the exact words I used, "corrected" the fixed version, "category" one of grammar, vocabulary, pronunciation, fluency or spelling, and "explanation" a short, constructive reason. For grammar mistakes, also set "grammarPoint" to a short, lower-case name for the rule, such as "past simple", "articles", "subject-verb agreement" or "prepositions of time". Leave "corrections" empty if I made no mistakes. Most of my messages are speech-recognition transcripts: judge them as speech, ignore spelling, punctuation and capitalization, and never use the spelling category. Messages starting with "${TYPED_MARKER.trim()}" were typed: judge them as writing, including spelling, punctuation and capitalization, and never use the pronunciation category. The marker is not part of my message, so never include it in "original".`;
+
+/**
+ * The correction strictness options: the interface text that labels each in
+ * settings, and how it's explained to the tutor.
+ */
+export const CORRECTION_STRICTNESS: Record<CorrectionStrictness, { label: UiStringKey; instruction: string }> = {
+    essential: {
+        label: 'strictnessEssential',
+        instruction: 'Only list mistakes that would stop a listener understanding me or that change my meaning. Leave out small slips, such as a missing article or the wrong preposition, whenever my meaning is still clear.',
+    },
+    everything: {
+        label: 'strictnessEverything',
+        instruction: 'List every mistake, including small slips and phrasing that is correct but unnatural.',
+    },
+    endOfSession: {
+        label: 'strictnessEndOfSession',
+        instruction: 'Never mention or correct my mistakes in "reply"; just keep the conversation going. Still list every mistake in "corrections": they are held back and shown to me when the session ends.',
+    },
+};
+
+/**
+ * The reply-format instruction, plus how strictly to correct and a request for
+ * explanations in the learner's native language when it isn't English.
+ * @param {string} nativeLanguage - A language code from `LANGUAGES`.
+ * @param {CorrectionStrictness} strictness - Which mistakes to correct.
+ */
+export function createCorrectionsFormatInstruction(nativeLanguage: string = 'en', strictness: CorrectionStrictness = 'everything'): string {
+    const instruction = `${CORRECTIONS_FORMAT_INSTRUCTION} ${CORRECTION_STRICTNESS[strictness].instruction}`;
+    const language = getLanguage(nativeLanguage);
+    if (language.code === 'en') return instruction;
+    return `${instruction} My native language is ${language.name}. Write "explanation" in simple English, and also put the same explanation written in ${language.name} in "translatedExplanation". Keep "reply" in English.`;
+}
+
+/** Prepares a learner message for the model, marking it if it was typed. */
+export function formatLearnerMessage(text: string, inputMode: InputMode): string {
+    return inputMode === 'typed' ? `${TYPED_MARKER}${text}` : text;
+}
+
+/** Reverses `formatLearnerMessage`, for backends that read learner messages themselves. */
+export function parseLearnerMessage(message: string): { text: string; inputMode: InputMode } {
+    return message.startsWith(TYPED_MARKER)
+        ? { text: message.slice(TYPED_MARKER.length), inputMode: 'typed' }
+        : { text: message, inputMode: 'spoken' };
+}
+
+/** The structured reply we ask the model for on every turn. */
+export interface TutorResponse {
+    reply: string;
+    corrections: Correction[];
+    /** Only present for role-play scenarios. */
+    goalMet?: boolean;
+}
+
+/** A piece of the learner's message, either untouched or covered by a correction. */
+export interface CorrectionSegment {
+    text: string;
+    correction?: Correction;
+}
+
+/** JSON schema passed to Gemini so each correction arrives as its own entry. */
+export const tutorResponseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        reply: {
+            type: Type.STRING,
+            description: 'Your conversational response to the learner.',
+        },
+        corrections: {
+            type: Type.ARRAY,
+            description: "One entry per mistake in the learner's latest message. Empty if there were none.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    original: {
+                        type: Type.STRING,
+                        description: "The exact words from the learner's message that contain the mistake.",
+                    },
+                    corrected: {
+                        type: Type.STRING,
+                        description: 'The corrected version of that span.',
+                    },
+                    category: {
+                        type: Type.STRING,
+                        enum: ERROR_CATEGORIES,
+                    },
+                    explanation: {
+                        type: Type.STRING,
+                        description: 'A short explanation of why the correction is needed.',
+                    },
+                    translatedExplanation: {
+                        type: Type.STRING,
+                        description: "The same explanation in the learner's native language, if they have told you what it is.",
+                    },
+                    grammarPoint: {
+                        type: Type.STRING,
+                        description: 'For grammar mistakes, a short lower-case name for the rule, e.g. "past simple" or "articles".',
+                    },
+                    variant: {
+                        type: Type.BOOLEAN,
+                        description: 'True when the learner used a word or spelling from another variety of English, which is not a mistake.',
+                    },
+                },
+                required: ['original', 'corrected', 'category', 'explanation'],
+                propertyOrdering: ['original', 'corrected', 'category', 'explanation', 'translatedExplanation', 'grammarPoint', 'variant'],
+            },
+        },
+    },
+    required: ['reply', 'corrections'],
+    propertyOrdering: ['reply', 'corrections'],
+};
+
+/**
+ * Parses the model's JSON reply. Malformed output is shown as plain conversation
+ * rather than dropped, and corrections missing required fields are ignored.
+ */
+export function parseTutorResponse(raw: string): TutorResponse {
+    let data: unknown;
+    try {
+        data = JSON.parse(raw);
+    } catch {
+        return { reply: raw.trim(), corrections: [] };
+    }
+
+    if (!data || typeof data !== 'object') {
+        return { reply: raw.trim(), corrections: [] };
+    }
+
+    const { reply, corrections, goalMet } = data as { reply?: unknown; corrections?: unknown; goalMet?: unknown };
+    const response: TutorResponse = {
+        reply: typeof reply === 'string' ? reply.trim() : '',
+        corrections: Array.isArray(corrections) ? corrections.flatMap(normalizeCorrection) : [],
+    };
+    if (typeof goalMet === 'boolean') response.goalMet = goalMet;
+    return response;
+}
+
+/**
+ * Reads one correction, from the model or an imported file. Returns it cleaned up
+ * in a one-item list, or an empty list if it is unusable, ready for `flatMap`.
+ */
+export function normalizeCorrection(entry: unknown): Correction[] {
+    if (!entry || typeof entry !== 'object') return [];
+    const { original, corrected, category, explanation, translatedExplanation, grammarPoint, variant } = entry as Record<string, unknown>;
+    if (typeof original !== 'string' || typeof corrected !== 'string' || !original.trim()) return [];
+    const correction: Correction = {
+        original: original.trim(),
+        corrected: corrected.trim(),
+        category: ERROR_CATEGORIES.includes(category as ErrorCategory) ? category as ErrorCategory : 'grammar',
+        explanation: typeof explanation === 'string' ? explanation.trim() : '',
+    };
+    if (typeof translatedExplanation === 'string' && translatedExplanation.trim()) {
+        correction.translatedExplanation = translatedExplanation.trim();
+    }
+    if (correction.category === 'grammar' && typeof grammarPoint === 'string' && grammarPoint.trim()) {
+        correction.grammarPoint = grammarPoint.trim().toLowerCase();
+    }
+    if (variant === true) correction.variant = true;
+    return [correction];
+}
+
+/** Whether a correction counts as an error, rather than a note about another variety of English. */
+export function isMistake(correction: Correction): boolean {
+    return !correction.variant;
+}
+
+/** Serializes a turn back into the same JSON shape the model produces, for chat history. */
+export function serializeTutorResponse(response: TutorResponse): string {
+    return JSON.stringify(response);
+}
+
+/**
+ * Splits a learner's message into plain and corrected segments so the corrections
+ * can be shown inline. Corrections whose span can't be found in the text (or that
+ * overlap an earlier one) are returned separately.
+ */
+export function segmentCorrections(text: string, corrections: Correction[]): {
+    segments: CorrectionSegment[];
+    unplaced: Correction[];
+} {
+    const lowerText = text.toLowerCase();
+    const placed: { start: number; end: number; correction: Correction }[] = [];
+    const unplaced: Correction[] = [];
+
+    for (const correction of corrections) {
+        const needle = correction.original.toLowerCase();
+        let start = lowerText.indexOf(needle);
+        while (start !== -1 && placed.some(p => start < p.end && start + needle.length > p.start)) {
+            start = lowerText.indexOf(needle, start + 1);
+        }
+        if (start === -1) {
+            unplaced.push(correction);
+        } else {
+            placed.push({ start, end: start + needle.length, correction });
+        }
+    }
+
+    placed.sort((a, b) => a.start - b.start);
+    const segments: CorrectionSegment[] = [];
+    let cursor = 0;
+    for (const { start, end, correction } of placed) {
+        if (start > cursor) segments.push({ text: text.slice(cursor, start) });
+        segments.push({ text: text.slice(start, end), correction });
+        cursor = end;
+    }
+    if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+
+    return { segments, unplaced };
+}
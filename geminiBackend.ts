@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI } from '@google/genai';
+import type { Chat } from '@google/genai';
+import type { TutorBackend, TutorChat, TutorChatOptions } from './tutorBackend';
+
+export interface GeminiBackendConfig {
+    apiKey: string;
+    model: string;
+}
+
+/** The parts of a Gemini chat the tutor uses. */
+export type GeminiChat = Pick<Chat, 'sendMessage' | 'sendMessageStream'>;
+
+/** Adapts a Gemini chat to the tutor's chat interface, which deals only in reply text. */
+export function createGeminiTutorChat(chat: GeminiChat): TutorChat {
+    return {
+        async sendMessage(message: string) {
+            const response = await chat.sendMessage({ message });
+            return response.text ?? '';
+        },
+        async *sendMessageStream(message: string, signal?: AbortSignal) {
+            signal?.throwIfAborted();
+            const stream = await chat.sendMessageStream({ message });
+            // Leaving the stream early cancels the request, and the chat only records replies it read to the end.
+            for await (const chunk of stream) {
+                signal?.throwIfAborted();
+                yield chunk.text ?? '';
+            }
+        },
+    };
+}
+
+/**
+ * Talks to Google's Gemini API, using its native structured-output support.
+ */
+export function createGeminiBackend(config: GeminiBackendConfig): TutorBackend {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+    return {
+        createChat(options: TutorChatOptions): TutorChat {
+            const chat = ai.chats.create({
+                model: config.model,
+                config: {
+                    systemInstruction: options.systemInstruction,
+                    responseMimeType: 'application/json',
+                    responseSchema: options.responseSchema,
+                },
+                history: options.history.map(message => ({
+                    role: message.role,
+                    parts: [{ text: message.text }],
+                })),
+            });
+
+            return createGeminiTutorChat(chat);
+        },
+    };
+}
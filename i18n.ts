@@ -0,0 +1,1497 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A language the learner can choose as their native language. */
+export interface Language {
+    code: string;
+    /** The language's English name, used in prompts. */
+    name: string;
+    /** The language's name in itself, used in the settings menu. */
+    nativeName: string;
+    dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Language[] = [
+    { code: 'en', name: 'English', nativeName: 'English', dir: 'ltr' },
+    { code: 'ar', name: 'Arabic', nativeName: 'العربية', dir: 'rtl' },
+    { code: 'es', name: 'Spanish', nativeName: 'Español', dir: 'ltr' },
+    { code: 'fr', name: 'French', nativeName: 'Français', dir: 'ltr' },
+    { code: 'he', name: 'Hebrew', nativeName: 'עברית', dir: 'rtl' },
+    { code: 'fa', name: 'Persian', nativeName: 'فارسی', dir: 'rtl' },
+    { code: 'ur', name: 'Urdu', nativeName: 'اردو', dir: 'rtl' },
+    { code: 'de', name: 'German', nativeName: 'Deutsch', dir: 'ltr' },
+    { code: 'it', name: 'Italian', nativeName: 'Italiano', dir: 'ltr' },
+    { code: 'pt', name: 'Portuguese', nativeName: 'Português', dir: 'ltr' },
+    { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', dir: 'ltr' },
+    { code: 'ru', name: 'Russian', nativeName: 'Русский', dir: 'ltr' },
+    { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', dir: 'ltr' },
+    { code: 'zh', name: 'Chinese', nativeName: '中文', dir: 'ltr' },
+    { code: 'ja', name: 'Japanese', nativeName: '日本語', dir: 'ltr' },
+    { code: 'ko', name: 'Korean', nativeName: '한국어', dir: 'ltr' },
+];
+
+/** Looks up a language by code, falling back to English for unknown codes. */
+export function getLanguage(code: string): Language {
+    return LANGUAGES.find(language => language.code === code) ?? LANGUAGES[0];
+}
+
+/** Picks the learner's likely native language from the browser, e.g. `ar-EG` → `ar`. */
+export function detectNativeLanguage(browserLanguages: readonly string[]): string {
+    const match = browserLanguages
+        .map(tag => tag.split('-')[0].toLowerCase())
+        .find(code => LANGUAGES.some(language => language.code === code));
+    return match ?? 'en';
+}
+
+/** The interface text, in English. Every language in `UI_STRINGS` translates all of it. */
+const ENGLISH = {
+    appTitle: 'AI English Practice',
+    chooseLevel: 'Choose Your English Level',
+    chooseLevelIntro: 'This helps {name} adjust the conversation to your needs. You can change this later in settings.',
+    beginner: 'Beginner',
+    intermediate: 'Intermediate',
+    advanced: 'Advanced',
+    notSure: 'Not sure?',
+    findMyLevel: 'Find my level with a 5-question chat',
+    openSessions: 'Open past sessions',
+    openSettings: 'Open settings',
+    offlineTitle: "You're offline.",
+    offlineMessage: 'Your notebook, past sessions and pronunciation drills still work. Messages you send will reach {name} when you reconnect.',
+    chatTab: 'Chat',
+    progressTab: 'Progress',
+    notebookTab: 'Notebook',
+    level: 'Level',
+    allLevels: 'All levels',
+    reviewDueWords: 'Review due words',
+    composerPlaceholder: 'Type a message or tap the mic',
+    message: 'Message',
+    sendMessage: 'Send message',
+    startRecording: 'Start recording',
+    stopRecording: 'Stop recording',
+    handsFreeOn: 'Hands-free: On',
+    handsFreeOff: 'Hands-free: Off',
+    handsFreeHint: 'Talk continuously, like a phone call',
+    endSession: 'End session',
+    endSessionHint: 'Finish this conversation and get a report card',
+    settings: 'Settings',
+    closeSettings: 'Close settings',
+    languageLevel: 'Language Level',
+    notSureOfLevel: 'Not sure of your level?',
+    placementChat: 'Placement chat',
+    aiVoice: 'AI Voice',
+    speechSpeed: 'Speech Speed',
+    reviewTranscripts: 'Review transcripts before sending',
+    recordMyVoice: 'Keep recordings of my voice',
+    nativeLanguage: 'Your native language',
+    tutorName: "Tutor's name",
+    tutorPersonality: "Tutor's personality",
+    correctionStrictness: 'Corrections',
+    favouriteTopics: 'Topics I enjoy',
+    avoidTopics: 'Topics to avoid',
+    targetAccent: 'English I want to learn',
+    aiProvider: 'AI Provider',
+    model: 'Model',
+    serverUrl: 'Server URL',
+    apiKey: 'API Key',
+    optional: 'Optional',
+    fontSize: 'Font Size',
+    keyboardShortcuts: 'Keyboard shortcuts',
+    shortcutTalk: 'Hold to talk',
+    shortcutReplay: "Replay {name}'s last message",
+    shortcutSlow: 'Replay it slowly',
+    shortcutClose: 'Close a panel or stop {name} speaking',
+    tutorIsThinking: '{name} is thinking…',
+    sessions: 'Sessions',
+    pastSessions: 'Past sessions',
+    closeSessions: 'Close sessions',
+    newSession: '+ New session',
+    rolePlay: 'Role-play a scenario',
+    pronunciationPractice: 'Pronunciation practice',
+    grammarDrills: 'Grammar drills',
+    shadowing: 'Shadowing',
+    importSession: 'Import session…',
+    classroom: 'Classroom',
+    closeClassroom: 'Close classroom',
+    scenarios: 'Role-play Scenarios',
+    closeScenarios: 'Close scenarios',
+    saveSelection: '+ Notebook',
+    feedback: 'Feedback:',
+    save: '+ Save',
+    translate: 'Translate',
+    hideTranslation: 'Hide translation',
+    translating: 'Translating…',
+    replay: 'Replay',
+    playAt: 'Play at',
+    myVoice: 'My voice',
+    grammar: 'grammar',
+    vocabulary: 'vocabulary',
+    pronunciation: 'pronunciation',
+    fluency: 'fluency',
+    spelling: 'spelling',
+    speechNotSupported: 'Speech Recognition Not Supported',
+    speechNotSupportedMessage: 'You can still type your messages below. For voice chat, use a browser like Chrome or Edge.',
+    apiKeyNeeded: 'API Key Needed',
+    apiKeyNeededMessage: 'Enter your Gemini API key under Settings → AI Provider, or choose another provider.',
+    initializationFailed: 'Initialization Failed',
+    checkApiKey: 'Please check your API key and refresh.',
+    checkModelSettings: 'Please check your model settings.',
+    reportNeedsConversation: 'Have a conversation first, then end the session to get your report.',
+    reportNeedsInternet: 'Your report needs an internet connection.',
+    sessionReport: 'Session report',
+    sameBandAsLastReport: 'Same band as your last report ({date}).',
+    lastReportEstimated: 'Your last report ({date}) estimated {level}.',
+    whatWentWell: 'What went well',
+    workOnNext: 'Work on next',
+    newVocabulary: 'New vocabulary',
+    whyLevel: 'Why {level}',
+    saveToNotebook: 'Save to notebook',
+    saveTermToNotebook: 'Save "{term}" to notebook',
+    startNewSession: 'Start a new session',
+    rolePlayTitle: 'Role-play: {title}',
+    talkingTo: "You're talking to {persona}, {role}.",
+    scenarioGoal: 'Goal: {goal}',
+    teachersNote: "Teacher's note: {note}",
+    assignmentComplete: 'Assignment complete ✓ ({count} turns)',
+    assignmentProgress: 'Assignment: {done} of at least {min} turns, and reach the goal.',
+    goalAchieved: 'Goal achieved!',
+    wordsOverTurns: 'You spoke {words} words over {turns} turns.',
+    targetVocabularyUsed: 'Target vocabulary used: {words}.',
+    noTargetVocabularyUsed: 'You did not use any of the target vocabulary this time.',
+    tryNextTime: 'Try next time: {words}.',
+    allTargetVocabularyUsed: 'You used every target word. Excellent!',
+    oneCorrectionAlongTheWay: '1 correction along the way.',
+    correctionsAlongTheWay: '{count} corrections along the way.',
+    playAgain: 'Play again',
+    chooseAnotherScenario: 'Choose another scenario',
+    readThisAloud: 'Read this aloud:',
+    listen: 'Listen',
+    listenAgain: 'Listen again',
+    hearWord: 'Hear "{word}"',
+    pronunciationScore: 'Score: {score}% · Heard: "{heard}"',
+    tryAgain: 'Try again',
+    nextSentence: 'Next sentence',
+    shadowingNeedsRecording: 'Shadowing needs a browser that can record audio.',
+    listenThenRepeat: 'Listen, then repeat straight away:',
+    compareWithTutor: 'Compare with {name}',
+    notebookUnavailable: 'Your notebook is unavailable in this browser.',
+    nothingDueForReview: 'Nothing is due for review. Come back later!',
+    sayMissingWord: 'Say the missing word or phrase:',
+    sayAndUseWord: 'Say this word or phrase and use it in a sentence:',
+    reviewHint: 'Hint: {note}',
+    iDontKnow: "I don't know",
+    pastSessionsUnavailable: 'Your past sessions are unavailable in this browser.',
+    noGrammarMistakesYet: 'No grammar mistakes to practise yet. Have a conversation with {name} first!',
+    drillsNeedInternet: 'Grammar drills need an internet connection.',
+    showAnswer: 'Show answer',
+    drillComplete: 'Drill complete! {right} of {total} correct.',
+    drillPointResult: '{point}: {right} of {total} this time · {status}',
+    mastered: 'mastered',
+    masteryPercent: '{percent}% mastery',
+    anotherDrill: 'Another drill',
+    alreadyInNotebook: '"{term}" is already in your notebook.',
+    savedToNotebook: 'Saved "{term}" to your notebook.',
+    notebookCounts: '{saved} saved · {due} due for review',
+    notebookEmpty: 'Select any word in the chat, or tap "Save" on a correction, to add it here.',
+    dueNow: 'Due now',
+    nextReviewInOneDay: 'Next review in 1 day',
+    nextReviewInDays: 'Next review in {days} days',
+    deleteItem: 'Delete "{item}"',
+    recommendedLevel: 'Recommended level: {level}',
+    vocabularyRange: 'Vocabulary range',
+    sentenceComplexity: 'Sentence complexity',
+    accuracy: 'Accuracy',
+    startAtLevel: 'Start at {level}',
+    readyToMoveUp: 'Based on your last {count} sessions, you might be ready to move up to {level}.',
+    moreComfortableLevel: 'Based on your last {count} sessions, {level} might feel more comfortable for now.',
+    switchToLevel: 'Switch to {level}',
+    stayAtLevel: 'Stay at {level}',
+    sessionsUnavailable: 'Saved sessions are unavailable in this browser.',
+    noSessionsYet: 'No saved sessions yet. Start talking to create one!',
+    oneTurn: '1 turn',
+    turnCount: '{count} turns',
+    assignmentKind: 'Assignment',
+    rolePlayKind: 'Role-play',
+    waitingToSend: '{count} waiting to send',
+    renameSession: 'Rename session',
+    exportSession: 'Export session',
+    deleteSession: 'Delete session',
+    confirmDeleteSession: 'Delete "{title}"? This cannot be undone.',
+    sessionTitle: 'Session title',
+    exportAs: 'Export as',
+    printOrPdf: 'Print / PDF',
+    cancelExport: 'Cancel export',
+    importedTitle: '{title} (imported)',
+    importedSession: 'Imported "{title}"',
+    sessionImportFailed: 'This session could not be imported.',
+    progressUnavailable: 'Progress is unavailable in this browser.',
+    recordingPlayFailed: 'That recording could not be played.',
+    recordingMissing: "That recording isn't on this device.",
+    recordingsUnavailable: 'Recordings are unavailable in this browser.',
+    readSentenceAloud: 'Read the sentence aloud so it can be scored.',
+    placementNeedsInternet: 'The placement chat needs an internet connection.',
+    translationsNeedInternet: 'Translations need an internet connection.',
+    translationFailed: 'Sorry, that message could not be translated.',
+    noVoices: 'No voices available',
+    otherVariety: 'Other variety',
+    profile: 'Profile',
+    whosPractising: "Who's practising",
+    profileName: 'Name',
+    profileRole: 'Role',
+    student: 'Student',
+    teacher: 'Teacher',
+    teacherProfile: '{profile} (teacher)',
+    newLearnerName: "New learner's name",
+    addProfile: '+ Add',
+    assignments: 'Assignments',
+    importAssignments: 'Import assignments…',
+    exportMyResults: 'Export my results',
+    assignmentTitle: 'Title',
+    scenario: 'Scenario',
+    targetWords: 'Target words',
+    commaSeparated: 'Comma-separated',
+    minimumTurns: 'Minimum turns',
+    notesForStudents: 'Notes for students',
+    addAssignment: '+ Add assignment',
+    exportAssignments: 'Export assignments',
+    classProgress: 'Class progress',
+    loadStudentResults: 'Load student results…',
+    clearResults: 'Clear',
+    confirmClearResults: 'Forget all loaded student results?',
+    assignmentsUnavailable: 'Assignments are unavailable in this browser.',
+    noAssignmentsTeacher: 'No assignments yet. Add one below, then export it for your students.',
+    noAssignmentsStudent: 'No assignments yet. Import the file your teacher gave you.',
+    unknownScenario: 'Unknown scenario',
+    assignmentDetails: '{scenario} · at least {turns} turns',
+    notStarted: 'Not started',
+    assignmentDone: 'Done ✓',
+    assignmentInProgress: 'In progress: {done} of {min} turns',
+    continueAssignment: 'Continue',
+    startAssignment: 'Start',
+    assignmentSaveFailed: 'The assignment could not be saved in this browser.',
+    addAssignmentFirst: 'Add an assignment first.',
+    importedAssignment: 'Imported "{title}"',
+    importedAssignments: 'Imported {count} assignments',
+    assignmentsImportFailed: 'These assignments could not be imported.',
+    startAssignmentFirst: 'Start an assignment first.',
+    resultsUnavailable: 'Your results are unavailable in this browser.',
+    fileProblem: '{file}: {problem}',
+    fileCouldNotBeLoaded: 'could not be loaded.',
+    loadedOneResultsFile: 'Loaded 1 results file',
+    loadedResultsFiles: 'Loaded {count} results files',
+    classResultsUnavailable: 'Class results are unavailable in this browser.',
+    noClassResults: 'Load the results files your students send you to see how the class is doing.',
+    doneColumn: 'Done',
+    resultWords: '{used}/{total} words',
+    resultTurnsAndWords: '{turns} turns, {words} words spoken',
+    missedWords: 'Missed: {words}',
+    usedEveryTargetWord: 'Used every target word',
+    correctionsSummary: 'Corrections: {list}',
+    noCorrections: 'No corrections',
+    estimatedLevel: 'Estimated level: {level}',
+    permissionDenied: 'Permission Denied',
+    noMicrophone: 'No Microphone',
+    noMicrophoneFound: 'No Microphone Found',
+    speechError: 'Speech Error',
+    permissionError: 'Permission Error',
+    featureNotSupported: 'Feature Not Supported',
+    allowMicrophone: 'Please allow microphone access in your browser settings, or type your messages below.',
+    connectMicrophone: 'No microphone was found. Please connect one, or type your messages below.',
+    speechServiceUnreachable: "Speech recognition couldn't reach its service. Please try again.",
+    speechNeedsConnection: 'Speech recognition needs a connection in this browser. You can type instead.',
+    unexpectedSpeechError: 'An unexpected error occurred. Please try again.',
+    microphoneBlocked: "You've blocked microphone access. Enable it in your browser's site settings to talk, or type your messages below.",
+    checkMicrophoneConnected: 'No microphone was found. Please ensure one is connected and working, or type your messages below.',
+    hardwareError: 'An unexpected hardware error occurred: {details}',
+    unknownMicrophoneError: 'An unknown error occurred while trying to access the microphone.',
+    cannotListDevices: 'Your browser cannot enumerate devices. You can still type your messages below.',
+    connectAndAllowMicrophone: 'Please connect a microphone and grant permission in your browser settings, or type your messages below.',
+    personalityWarm: 'Warm and patient',
+    personalityCasual: 'Casual friend',
+    personalityWitty: 'Witty and playful',
+    personalityFormal: 'Professional coach',
+    strictnessEssential: 'Only errors that block understanding',
+    strictnessEverything: 'Correct everything',
+    strictnessEndOfSession: 'No feedback until the session ends',
+    wideVocabulary: 'You used a wide range of vocabulary ({count} different words).',
+    solidVocabulary: 'Your vocabulary range is solid ({count} different words), with room to grow.',
+    commonVocabulary: 'You mostly used common, repeated words ({count} different words).',
+    longAnswers: 'Your answers were long and well connected (about {count} words each).',
+    reasonableAnswers: 'Your answers had a reasonable length (about {count} words each) and some linked ideas.',
+    shortAnswers: 'Your answers were short (about {count} words each) with few linking words.',
+    fewMistakes: 'You made very few mistakes ({rate} per 100 words).',
+    someMistakes: 'You made some mistakes ({rate} per 100 words).',
+    frequentMistakes: 'Mistakes were frequent ({rate} per 100 words), so a gentler pace will help.',
+    topicsExample: 'travel, films, cooking',
+    avoidTopicsExample: 'politics, exams',
+};
+
+export type UiStringKey = keyof typeof ENGLISH;
+
+/** The interface text for each language it's translated into, by language code. */
+export const UI_STRINGS: Record<string, Record<UiStringKey, string>> = {
+    en: ENGLISH,
+    ar: {
+        appTitle: 'تدريب الإنجليزية بالذكاء الاصطناعي',
+        chooseLevel: 'اختر مستواك في الإنجليزية',
+        chooseLevelIntro: 'يساعد هذا {name} على تكييف المحادثة مع احتياجاتك. يمكنك تغييره لاحقًا من الإعدادات.',
+        beginner: 'مبتدئ',
+        intermediate: 'متوسط',
+        advanced: 'متقدم',
+        notSure: 'لست متأكدًا؟',
+        findMyLevel: 'اكتشف مستواك بمحادثة من 5 أسئلة',
+        openSessions: 'فتح الجلسات السابقة',
+        openSettings: 'فتح الإعدادات',
+        offlineTitle: 'أنت غير متصل بالإنترنت.',
+        offlineMessage: 'لا يزال دفتر المفردات والجلسات السابقة وتمارين النطق تعمل. ستصل رسائلك إلى {name} عند عودة الاتصال.',
+        chatTab: 'المحادثة',
+        progressTab: 'التقدم',
+        notebookTab: 'الدفتر',
+        level: 'المستوى',
+        allLevels: 'كل المستويات',
+        reviewDueWords: 'مراجعة الكلمات المستحقة',
+        composerPlaceholder: 'اكتب رسالة أو اضغط على الميكروفون',
+        message: 'الرسالة',
+        sendMessage: 'إرسال الرسالة',
+        startRecording: 'بدء التسجيل',
+        stopRecording: 'إيقاف التسجيل',
+        handsFreeOn: 'بدون استخدام اليدين: تشغيل',
+        handsFreeOff: 'بدون استخدام اليدين: إيقاف',
+        handsFreeHint: 'تحدث باستمرار كما في مكالمة هاتفية',
+        endSession: 'إنهاء الجلسة',
+        endSessionHint: 'أنهِ هذه المحادثة واحصل على تقرير',
+        settings: 'الإعدادات',
+        closeSettings: 'إغلاق الإعدادات',
+        languageLevel: 'مستوى اللغة',
+        notSureOfLevel: 'لست متأكدًا من مستواك؟',
+        placementChat: 'محادثة تحديد المستوى',
+        aiVoice: 'صوت المساعد',
+        speechSpeed: 'سرعة الكلام',
+        reviewTranscripts: 'راجع النص قبل الإرسال',
+        recordMyVoice: 'احتفظ بتسجيلات صوتي',
+        nativeLanguage: 'لغتك الأم',
+        tutorName: 'اسم المعلم',
+        tutorPersonality: 'شخصية المعلم',
+        correctionStrictness: 'التصحيحات',
+        favouriteTopics: 'مواضيع أحبها',
+        avoidTopics: 'مواضيع أتجنبها',
+        targetAccent: 'الإنجليزية التي أريد تعلمها',
+        aiProvider: 'مزوّد الذكاء الاصطناعي',
+        model: 'النموذج',
+        serverUrl: 'عنوان الخادم',
+        apiKey: 'مفتاح API',
+        optional: 'اختياري',
+        fontSize: 'حجم الخط',
+        keyboardShortcuts: 'اختصارات لوحة المفاتيح',
+        shortcutTalk: 'اضغط مع الاستمرار للتحدث',
+        shortcutReplay: 'أعد تشغيل آخر رسالة من {name}',
+        shortcutSlow: 'أعد تشغيلها ببطء',
+        shortcutClose: 'أغلق اللوحة أو أوقف كلام {name}',
+        tutorIsThinking: '{name} يفكر…',
+        sessions: 'الجلسات',
+        pastSessions: 'الجلسات السابقة',
+        closeSessions: 'إغلاق الجلسات',
+        newSession: '+ جلسة جديدة',
+        rolePlay: 'لعب الأدوار في موقف',
+        pronunciationPractice: 'تدريب النطق',
+        grammarDrills: 'تمارين القواعد',
+        shadowing: 'التظليل (الترديد)',
+        importSession: 'استيراد جلسة…',
+        classroom: 'الفصل الدراسي',
+        closeClassroom: 'إغلاق الفصل الدراسي',
+        scenarios: 'مواقف لعب الأدوار',
+        closeScenarios: 'إغلاق المواقف',
+        saveSelection: '+ الدفتر',
+        feedback: 'ملاحظات:',
+        save: '+ حفظ',
+        translate: 'ترجمة',
+        hideTranslation: 'إخفاء الترجمة',
+        translating: 'جارٍ الترجمة…',
+        replay: 'إعادة التشغيل',
+        playAt: 'تشغيل بسرعة',
+        myVoice: 'صوتي',
+        grammar: 'قواعد',
+        vocabulary: 'مفردات',
+        pronunciation: 'نطق',
+        fluency: 'طلاقة',
+        spelling: 'إملاء',
+        speechNotSupported: 'التعرف على الكلام غير مدعوم',
+        speechNotSupportedMessage: 'لا يزال بإمكانك كتابة رسائلك في الأسفل. للمحادثة الصوتية، استخدم متصفحًا مثل Chrome أو Edge.',
+        apiKeyNeeded: 'مفتاح API مطلوب',
+        apiKeyNeededMessage: 'أدخل مفتاح Gemini API في الإعدادات ← مزود الذكاء الاصطناعي، أو اختر مزودًا آخر.',
+        initializationFailed: 'فشل التشغيل',
+        checkApiKey: 'يرجى التحقق من مفتاح API وتحديث الصفحة.',
+        checkModelSettings: 'يرجى التحقق من إعدادات النموذج.',
+        reportNeedsConversation: 'أجرِ محادثة أولًا، ثم أنهِ الجلسة لتحصل على تقريرك.',
+        reportNeedsInternet: 'يحتاج تقريرك إلى اتصال بالإنترنت.',
+        sessionReport: 'تقرير الجلسة',
+        sameBandAsLastReport: 'نفس المستوى في تقريرك السابق ({date}).',
+        lastReportEstimated: 'قدّر تقريرك السابق ({date}) مستواك بـ {level}.',
+        whatWentWell: 'ما الذي أحسنت فيه',
+        workOnNext: 'ما تعمل عليه لاحقًا',
+        newVocabulary: 'مفردات جديدة',
+        whyLevel: 'لماذا {level}',
+        saveToNotebook: 'احفظ في الدفتر',
+        saveTermToNotebook: 'احفظ "{term}" في الدفتر',
+        startNewSession: 'ابدأ جلسة جديدة',
+        rolePlayTitle: 'لعب أدوار: {title}',
+        talkingTo: 'أنت تتحدث مع {persona}، {role}.',
+        scenarioGoal: 'الهدف: {goal}',
+        teachersNote: 'ملاحظة المعلم: {note}',
+        assignmentComplete: 'اكتملت المهمة ✓ ({count} أدوار)',
+        assignmentProgress: 'المهمة: {done} من {min} أدوار على الأقل، مع تحقيق الهدف.',
+        goalAchieved: 'تحقق الهدف!',
+        wordsOverTurns: 'قلت {words} كلمة في {turns} أدوار.',
+        targetVocabularyUsed: 'المفردات المستهدفة التي استخدمتها: {words}.',
+        noTargetVocabularyUsed: 'لم تستخدم أيًا من المفردات المستهدفة هذه المرة.',
+        tryNextTime: 'جرّب في المرة القادمة: {words}.',
+        allTargetVocabularyUsed: 'استخدمت كل الكلمات المستهدفة. ممتاز!',
+        oneCorrectionAlongTheWay: 'تصحيح واحد خلال المحادثة.',
+        correctionsAlongTheWay: '{count} تصحيحات خلال المحادثة.',
+        playAgain: 'العب مرة أخرى',
+        chooseAnotherScenario: 'اختر سيناريو آخر',
+        readThisAloud: 'اقرأ هذا بصوت عالٍ:',
+        listen: 'استمع',
+        listenAgain: 'استمع مرة أخرى',
+        hearWord: 'استمع إلى "{word}"',
+        pronunciationScore: 'النتيجة: {score}% · سُمع: "{heard}"',
+        tryAgain: 'حاول مرة أخرى',
+        nextSentence: 'الجملة التالية',
+        shadowingNeedsRecording: 'يحتاج تمرين المحاكاة إلى متصفح يمكنه تسجيل الصوت.',
+        listenThenRepeat: 'استمع، ثم كرّر فورًا:',
+        compareWithTutor: 'قارن مع {name}',
+        notebookUnavailable: 'دفترك غير متاح في هذا المتصفح.',
+        nothingDueForReview: 'لا شيء للمراجعة الآن. عد لاحقًا!',
+        sayMissingWord: 'قل الكلمة أو العبارة الناقصة:',
+        sayAndUseWord: 'قل هذه الكلمة أو العبارة واستخدمها في جملة:',
+        reviewHint: 'تلميح: {note}',
+        iDontKnow: 'لا أعرف',
+        pastSessionsUnavailable: 'جلساتك السابقة غير متاحة في هذا المتصفح.',
+        noGrammarMistakesYet: 'لا توجد أخطاء قواعد للتدرب عليها بعد. تحدث مع {name} أولًا!',
+        drillsNeedInternet: 'تحتاج تمارين القواعد إلى اتصال بالإنترنت.',
+        showAnswer: 'أظهر الإجابة',
+        drillComplete: 'انتهى التمرين! {right} من {total} صحيحة.',
+        drillPointResult: '{point}: {right} من {total} هذه المرة · {status}',
+        mastered: 'متقَن',
+        masteryPercent: 'إتقان {percent}%',
+        anotherDrill: 'تمرين آخر',
+        alreadyInNotebook: '"{term}" موجودة بالفعل في دفترك.',
+        savedToNotebook: 'حُفظت "{term}" في دفترك.',
+        notebookCounts: '{saved} محفوظة · {due} للمراجعة',
+        notebookEmpty: 'حدد أي كلمة في المحادثة، أو اضغط "حفظ" على تصحيح، لإضافتها هنا.',
+        dueNow: 'مستحقة الآن',
+        nextReviewInOneDay: 'المراجعة التالية بعد يوم واحد',
+        nextReviewInDays: 'المراجعة التالية بعد {days} أيام',
+        deleteItem: 'احذف "{item}"',
+        recommendedLevel: 'المستوى المقترح: {level}',
+        vocabularyRange: 'تنوع المفردات',
+        sentenceComplexity: 'تعقيد الجمل',
+        accuracy: 'الدقة',
+        startAtLevel: 'ابدأ بمستوى {level}',
+        readyToMoveUp: 'بناءً على آخر {count} جلسات، قد تكون مستعدًا للانتقال إلى {level}.',
+        moreComfortableLevel: 'بناءً على آخر {count} جلسات، قد يكون مستوى {level} أكثر راحة لك الآن.',
+        switchToLevel: 'انتقل إلى {level}',
+        stayAtLevel: 'ابقَ في {level}',
+        sessionsUnavailable: 'الجلسات المحفوظة غير متاحة في هذا المتصفح.',
+        noSessionsYet: 'لا توجد جلسات محفوظة بعد. ابدأ التحدث لإنشاء واحدة!',
+        oneTurn: 'دور واحد',
+        turnCount: '{count} أدوار',
+        assignmentKind: 'مهمة',
+        rolePlayKind: 'لعب أدوار',
+        waitingToSend: '{count} بانتظار الإرسال',
+        renameSession: 'أعد تسمية الجلسة',
+        exportSession: 'صدّر الجلسة',
+        deleteSession: 'احذف الجلسة',
+        confirmDeleteSession: 'حذف "{title}"؟ لا يمكن التراجع عن ذلك.',
+        sessionTitle: 'عنوان الجلسة',
+        exportAs: 'صدّر بصيغة',
+        printOrPdf: 'طباعة / PDF',
+        cancelExport: 'ألغِ التصدير',
+        importedTitle: '{title} (مستوردة)',
+        importedSession: 'تم استيراد "{title}"',
+        sessionImportFailed: 'تعذّر استيراد هذه الجلسة.',
+        progressUnavailable: 'التقدم غير متاح في هذا المتصفح.',
+        recordingPlayFailed: 'تعذّر تشغيل هذا التسجيل.',
+        recordingMissing: 'هذا التسجيل غير موجود على هذا الجهاز.',
+        recordingsUnavailable: 'التسجيلات غير متاحة في هذا المتصفح.',
+        readSentenceAloud: 'اقرأ الجملة بصوت عالٍ ليتم تقييمها.',
+        placementNeedsInternet: 'تحتاج محادثة تحديد المستوى إلى اتصال بالإنترنت.',
+        translationsNeedInternet: 'تحتاج الترجمات إلى اتصال بالإنترنت.',
+        translationFailed: 'عذرًا، تعذّرت ترجمة هذه الرسالة.',
+        noVoices: 'لا توجد أصوات متاحة',
+        otherVariety: 'تنوع آخر',
+        profile: 'الملف الشخصي',
+        whosPractising: 'من يتدرب',
+        profileName: 'الاسم',
+        profileRole: 'الدور',
+        student: 'طالب',
+        teacher: 'معلم',
+        teacherProfile: '{profile} (معلم)',
+        newLearnerName: 'اسم المتعلم الجديد',
+        addProfile: '+ إضافة',
+        assignments: 'المهام',
+        importAssignments: 'استيراد المهام…',
+        exportMyResults: 'تصدير نتائجي',
+        assignmentTitle: 'العنوان',
+        scenario: 'السيناريو',
+        targetWords: 'الكلمات المستهدفة',
+        commaSeparated: 'مفصولة بفواصل',
+        minimumTurns: 'أقل عدد من الأدوار',
+        notesForStudents: 'ملاحظات للطلاب',
+        addAssignment: '+ إضافة مهمة',
+        exportAssignments: 'تصدير المهام',
+        classProgress: 'تقدم الصف',
+        loadStudentResults: 'تحميل نتائج الطلاب…',
+        clearResults: 'مسح',
+        confirmClearResults: 'هل تريد نسيان كل نتائج الطلاب المحمّلة؟',
+        assignmentsUnavailable: 'المهام غير متاحة في هذا المتصفح.',
+        noAssignmentsTeacher: 'لا توجد مهام بعد. أضف واحدة في الأسفل، ثم صدّرها لطلابك.',
+        noAssignmentsStudent: 'لا توجد مهام بعد. استورد الملف الذي أعطاك إياه معلمك.',
+        unknownScenario: 'سيناريو غير معروف',
+        assignmentDetails: '{scenario} · {turns} أدوار على الأقل',
+        notStarted: 'لم تبدأ',
+        assignmentDone: 'منجزة ✓',
+        assignmentInProgress: 'قيد التنفيذ: {done} من {min} أدوار',
+        continueAssignment: 'متابعة',
+        startAssignment: 'ابدأ',
+        assignmentSaveFailed: 'تعذّر حفظ المهمة في هذا المتصفح.',
+        addAssignmentFirst: 'أضف مهمة أولًا.',
+        importedAssignment: 'تم استيراد "{title}"',
+        importedAssignments: 'تم استيراد {count} مهام',
+        assignmentsImportFailed: 'تعذّر استيراد هذه المهام.',
+        startAssignmentFirst: 'ابدأ مهمة أولًا.',
+        resultsUnavailable: 'نتائجك غير متاحة في هذا المتصفح.',
+        fileProblem: '{file}: {problem}',
+        fileCouldNotBeLoaded: 'تعذّر تحميله.',
+        loadedOneResultsFile: 'تم تحميل ملف نتائج واحد',
+        loadedResultsFiles: 'تم تحميل {count} ملفات نتائج',
+        classResultsUnavailable: 'نتائج الصف غير متاحة في هذا المتصفح.',
+        noClassResults: 'حمّل ملفات النتائج التي يرسلها طلابك لترى أداء الصف.',
+        doneColumn: 'منجز',
+        resultWords: '{used}/{total} كلمات',
+        resultTurnsAndWords: '{turns} أدوار، {words} كلمة منطوقة',
+        missedWords: 'فاتته: {words}',
+        usedEveryTargetWord: 'استخدم كل الكلمات المستهدفة',
+        correctionsSummary: 'التصحيحات: {list}',
+        noCorrections: 'لا تصحيحات',
+        estimatedLevel: 'المستوى المقدّر: {level}',
+        permissionDenied: 'تم رفض الإذن',
+        noMicrophone: 'لا يوجد ميكروفون',
+        noMicrophoneFound: 'لم يتم العثور على ميكروفون',
+        speechError: 'خطأ في الكلام',
+        permissionError: 'خطأ في الإذن',
+        featureNotSupported: 'الميزة غير مدعومة',
+        allowMicrophone: 'يرجى السماح بالوصول إلى الميكروفون من إعدادات المتصفح، أو اكتب رسائلك في الأسفل.',
+        connectMicrophone: 'لم يتم العثور على ميكروفون. يرجى توصيل واحد، أو اكتب رسائلك في الأسفل.',
+        speechServiceUnreachable: 'تعذّر على التعرف على الكلام الوصول إلى خدمته. يرجى المحاولة مرة أخرى.',
+        speechNeedsConnection: 'يحتاج التعرف على الكلام إلى اتصال في هذا المتصفح. يمكنك الكتابة بدلًا من ذلك.',
+        unexpectedSpeechError: 'حدث خطأ غير متوقع. يرجى المحاولة مرة أخرى.',
+        microphoneBlocked: 'لقد حظرت الوصول إلى الميكروفون. فعّله من إعدادات الموقع في المتصفح لتتحدث، أو اكتب رسائلك في الأسفل.',
+        checkMicrophoneConnected: 'لم يتم العثور على ميكروفون. تأكد من أنه موصول ويعمل، أو اكتب رسائلك في الأسفل.',
+        hardwareError: 'حدث خطأ غير متوقع في الجهاز: {details}',
+        unknownMicrophoneError: 'حدث خطأ غير معروف أثناء محاولة الوصول إلى الميكروفون.',
+        cannotListDevices: 'لا يستطيع متصفحك عرض الأجهزة. لا يزال بإمكانك كتابة رسائلك في الأسفل.',
+        connectAndAllowMicrophone: 'يرجى توصيل ميكروفون ومنح الإذن من إعدادات المتصفح، أو اكتب رسائلك في الأسفل.',
+        personalityWarm: 'ودود وصبور',
+        personalityCasual: 'صديق عفوي',
+        personalityWitty: 'ظريف ومرح',
+        personalityFormal: 'مدرب محترف',
+        strictnessEssential: 'فقط الأخطاء التي تعيق الفهم',
+        strictnessEverything: 'صحّح كل شيء',
+        strictnessEndOfSession: 'لا ملاحظات حتى نهاية الجلسة',
+        wideVocabulary: 'استخدمت مفردات واسعة ({count} كلمة مختلفة).',
+        solidVocabulary: 'مفرداتك جيدة ({count} كلمة مختلفة)، مع مجال للنمو.',
+        commonVocabulary: 'استخدمت في الغالب كلمات شائعة ومتكررة ({count} كلمة مختلفة).',
+        longAnswers: 'كانت إجاباتك طويلة ومترابطة جيدًا (نحو {count} كلمة لكل منها).',
+        reasonableAnswers: 'كانت إجاباتك بطول معقول (نحو {count} كلمة لكل منها) مع بعض الأفكار المترابطة.',
+        shortAnswers: 'كانت إجاباتك قصيرة (نحو {count} كلمة لكل منها) مع قليل من كلمات الربط.',
+        fewMistakes: 'ارتكبت أخطاء قليلة جدًا ({rate} لكل 100 كلمة).',
+        someMistakes: 'ارتكبت بعض الأخطاء ({rate} لكل 100 كلمة).',
+        frequentMistakes: 'كانت الأخطاء متكررة ({rate} لكل 100 كلمة)، لذا ستساعدك وتيرة أهدأ.',
+        topicsExample: 'السفر، الأفلام، الطبخ',
+        avoidTopicsExample: 'السياسة، الامتحانات',
+    },
+    es: {
+        appTitle: 'Práctica de inglés con IA',
+        chooseLevel: 'Elige tu nivel de inglés',
+        chooseLevelIntro: 'Así {name} puede adaptar la conversación a lo que necesitas. Puedes cambiarlo más tarde en los ajustes.',
+        beginner: 'Principiante',
+        intermediate: 'Intermedio',
+        advanced: 'Avanzado',
+        notSure: '¿No estás seguro?',
+        findMyLevel: 'Descubre tu nivel con una charla de 5 preguntas',
+        openSessions: 'Abrir sesiones anteriores',
+        openSettings: 'Abrir ajustes',
+        offlineTitle: 'Estás sin conexión.',
+        offlineMessage: 'Tu cuaderno, tus sesiones anteriores y los ejercicios de pronunciación siguen funcionando. Los mensajes que envíes llegarán a {name} cuando vuelvas a conectarte.',
+        chatTab: 'Chat',
+        progressTab: 'Progreso',
+        notebookTab: 'Cuaderno',
+        level: 'Nivel',
+        allLevels: 'Todos los niveles',
+        reviewDueWords: 'Repasar palabras pendientes',
+        composerPlaceholder: 'Escribe un mensaje o toca el micrófono',
+        message: 'Mensaje',
+        sendMessage: 'Enviar mensaje',
+        startRecording: 'Empezar a grabar',
+        stopRecording: 'Detener la grabación',
+        handsFreeOn: 'Manos libres: sí',
+        handsFreeOff: 'Manos libres: no',
+        handsFreeHint: 'Habla sin parar, como en una llamada',
+        endSession: 'Terminar sesión',
+        endSessionHint: 'Termina esta conversación y recibe un informe',
+        settings: 'Ajustes',
+        closeSettings: 'Cerrar ajustes',
+        languageLevel: 'Nivel de idioma',
+        notSureOfLevel: '¿No sabes tu nivel?',
+        placementChat: 'Prueba de nivel',
+        aiVoice: 'Voz de la IA',
+        speechSpeed: 'Velocidad de voz',
+        reviewTranscripts: 'Revisar transcripciones antes de enviar',
+        recordMyVoice: 'Guardar grabaciones de mi voz',
+        nativeLanguage: 'Tu lengua materna',
+        tutorName: 'Nombre del tutor',
+        tutorPersonality: 'Personalidad del tutor',
+        correctionStrictness: 'Correcciones',
+        favouriteTopics: 'Temas que me gustan',
+        avoidTopics: 'Temas que evitar',
+        targetAccent: 'Inglés que quiero aprender',
+        aiProvider: 'Proveedor de IA',
+        model: 'Modelo',
+        serverUrl: 'URL del servidor',
+        apiKey: 'Clave de API',
+        optional: 'Opcional',
+        fontSize: 'Tamaño de letra',
+        keyboardShortcuts: 'Atajos de teclado',
+        shortcutTalk: 'Mantén pulsado para hablar',
+        shortcutReplay: 'Repetir el último mensaje de {name}',
+        shortcutSlow: 'Repetirlo despacio',
+        shortcutClose: 'Cerrar un panel o hacer callar a {name}',
+        tutorIsThinking: '{name} está pensando…',
+        sessions: 'Sesiones',
+        pastSessions: 'Sesiones anteriores',
+        closeSessions: 'Cerrar sesiones',
+        newSession: '+ Nueva sesión',
+        rolePlay: 'Practicar un juego de rol',
+        pronunciationPractice: 'Práctica de pronunciación',
+        grammarDrills: 'Ejercicios de gramática',
+        shadowing: 'Shadowing (repetición)',
+        importSession: 'Importar sesión…',
+        classroom: 'Aula',
+        closeClassroom: 'Cerrar el aula',
+        scenarios: 'Escenarios de juego de rol',
+        closeScenarios: 'Cerrar escenarios',
+        saveSelection: '+ Cuaderno',
+        feedback: 'Comentarios:',
+        save: '+ Guardar',
+        translate: 'Traducir',
+        hideTranslation: 'Ocultar traducción',
+        translating: 'Traduciendo…',
+        replay: 'Repetir',
+        playAt: 'Reproducir a',
+        myVoice: 'Mi voz',
+        grammar: 'gramática',
+        vocabulary: 'vocabulario',
+        pronunciation: 'pronunciación',
+        fluency: 'fluidez',
+        spelling: 'ortografía',
+        speechNotSupported: 'Reconocimiento de voz no disponible',
+        speechNotSupportedMessage: 'Puedes seguir escribiendo tus mensajes abajo. Para hablar, usa un navegador como Chrome o Edge.',
+        apiKeyNeeded: 'Falta la clave de API',
+        apiKeyNeededMessage: 'Introduce tu clave de API de Gemini en Ajustes → Proveedor de IA, o elige otro proveedor.',
+        initializationFailed: 'No se pudo iniciar',
+        checkApiKey: 'Revisa tu clave de API y recarga la página.',
+        checkModelSettings: 'Revisa los ajustes del modelo.',
+        reportNeedsConversation: 'Primero conversa un poco y luego termina la sesión para recibir tu informe.',
+        reportNeedsInternet: 'Tu informe necesita conexión a internet.',
+        sessionReport: 'Informe de la sesión',
+        sameBandAsLastReport: 'El mismo nivel que en tu último informe ({date}).',
+        lastReportEstimated: 'Tu último informe ({date}) estimó {level}.',
+        whatWentWell: 'Lo que salió bien',
+        workOnNext: 'Para trabajar',
+        newVocabulary: 'Vocabulario nuevo',
+        whyLevel: 'Por qué {level}',
+        saveToNotebook: 'Guardar en el cuaderno',
+        saveTermToNotebook: 'Guardar "{term}" en el cuaderno',
+        startNewSession: 'Empezar una sesión nueva',
+        rolePlayTitle: 'Juego de rol: {title}',
+        talkingTo: 'Hablas con {persona}, {role}.',
+        scenarioGoal: 'Objetivo: {goal}',
+        teachersNote: 'Nota del profesor: {note}',
+        assignmentComplete: 'Tarea completada ✓ ({count} turnos)',
+        assignmentProgress: 'Tarea: {done} de al menos {min} turnos, y alcanza el objetivo.',
+        goalAchieved: '¡Objetivo cumplido!',
+        wordsOverTurns: 'Dijiste {words} palabras en {turns} turnos.',
+        targetVocabularyUsed: 'Vocabulario objetivo usado: {words}.',
+        noTargetVocabularyUsed: 'Esta vez no usaste nada del vocabulario objetivo.',
+        tryNextTime: 'Prueba la próxima vez: {words}.',
+        allTargetVocabularyUsed: 'Usaste todas las palabras objetivo. ¡Excelente!',
+        oneCorrectionAlongTheWay: '1 corrección por el camino.',
+        correctionsAlongTheWay: '{count} correcciones por el camino.',
+        playAgain: 'Jugar otra vez',
+        chooseAnotherScenario: 'Elegir otro escenario',
+        readThisAloud: 'Lee esto en voz alta:',
+        listen: 'Escuchar',
+        listenAgain: 'Escuchar otra vez',
+        hearWord: 'Escuchar "{word}"',
+        pronunciationScore: 'Puntuación: {score} % · Se oyó: "{heard}"',
+        tryAgain: 'Intentar otra vez',
+        nextSentence: 'Siguiente frase',
+        shadowingNeedsRecording: 'El shadowing necesita un navegador que pueda grabar audio.',
+        listenThenRepeat: 'Escucha y repite enseguida:',
+        compareWithTutor: 'Comparar con {name}',
+        notebookUnavailable: 'Tu cuaderno no está disponible en este navegador.',
+        nothingDueForReview: 'No hay nada que repasar. ¡Vuelve más tarde!',
+        sayMissingWord: 'Di la palabra o expresión que falta:',
+        sayAndUseWord: 'Di esta palabra o expresión y úsala en una frase:',
+        reviewHint: 'Pista: {note}',
+        iDontKnow: 'No lo sé',
+        pastSessionsUnavailable: 'Tus sesiones anteriores no están disponibles en este navegador.',
+        noGrammarMistakesYet: 'Aún no hay errores de gramática que practicar. ¡Conversa primero con {name}!',
+        drillsNeedInternet: 'Los ejercicios de gramática necesitan conexión a internet.',
+        showAnswer: 'Mostrar la respuesta',
+        drillComplete: '¡Ejercicio terminado! {right} de {total} correctas.',
+        drillPointResult: '{point}: {right} de {total} esta vez · {status}',
+        mastered: 'dominado',
+        masteryPercent: '{percent} % de dominio',
+        anotherDrill: 'Otro ejercicio',
+        alreadyInNotebook: '"{term}" ya está en tu cuaderno.',
+        savedToNotebook: '"{term}" se guardó en tu cuaderno.',
+        notebookCounts: '{saved} guardadas · {due} para repasar',
+        notebookEmpty: 'Selecciona cualquier palabra del chat, o toca "Guardar" en una corrección, para añadirla aquí.',
+        dueNow: 'Para repasar ya',
+        nextReviewInOneDay: 'Próximo repaso en 1 día',
+        nextReviewInDays: 'Próximo repaso en {days} días',
+        deleteItem: 'Eliminar "{item}"',
+        recommendedLevel: 'Nivel recomendado: {level}',
+        vocabularyRange: 'Variedad de vocabulario',
+        sentenceComplexity: 'Complejidad de las frases',
+        accuracy: 'Precisión',
+        startAtLevel: 'Empezar en {level}',
+        readyToMoveUp: 'Según tus últimas {count} sesiones, quizá estés listo para pasar a {level}.',
+        moreComfortableLevel: 'Según tus últimas {count} sesiones, {level} podría resultarte más cómodo por ahora.',
+        switchToLevel: 'Cambiar a {level}',
+        stayAtLevel: 'Seguir en {level}',
+        sessionsUnavailable: 'Las sesiones guardadas no están disponibles en este navegador.',
+        noSessionsYet: 'Aún no hay sesiones guardadas. ¡Empieza a hablar para crear una!',
+        oneTurn: '1 turno',
+        turnCount: '{count} turnos',
+        assignmentKind: 'Tarea',
+        rolePlayKind: 'Juego de rol',
+        waitingToSend: '{count} pendientes de enviar',
+        renameSession: 'Cambiar el nombre de la sesión',
+        exportSession: 'Exportar la sesión',
+        deleteSession: 'Eliminar la sesión',
+        confirmDeleteSession: '¿Eliminar "{title}"? No se puede deshacer.',
+        sessionTitle: 'Título de la sesión',
+        exportAs: 'Exportar como',
+        printOrPdf: 'Imprimir / PDF',
+        cancelExport: 'Cancelar la exportación',
+        importedTitle: '{title} (importada)',
+        importedSession: 'Se importó "{title}"',
+        sessionImportFailed: 'No se pudo importar esta sesión.',
+        progressUnavailable: 'El progreso no está disponible en este navegador.',
+        recordingPlayFailed: 'No se pudo reproducir esa grabación.',
+        recordingMissing: 'Esa grabación no está en este dispositivo.',
+        recordingsUnavailable: 'Las grabaciones no están disponibles en este navegador.',
+        readSentenceAloud: 'Lee la frase en voz alta para poder puntuarla.',
+        placementNeedsInternet: 'La charla de nivel necesita conexión a internet.',
+        translationsNeedInternet: 'Las traducciones necesitan conexión a internet.',
+        translationFailed: 'Lo siento, no se pudo traducir ese mensaje.',
+        noVoices: 'No hay voces disponibles',
+        otherVariety: 'Otra variedad',
+        profile: 'Perfil',
+        whosPractising: 'Quién practica',
+        profileName: 'Nombre',
+        profileRole: 'Rol',
+        student: 'Estudiante',
+        teacher: 'Profesor',
+        teacherProfile: '{profile} (profesor)',
+        newLearnerName: 'Nombre del nuevo estudiante',
+        addProfile: '+ Añadir',
+        assignments: 'Tareas',
+        importAssignments: 'Importar tareas…',
+        exportMyResults: 'Exportar mis resultados',
+        assignmentTitle: 'Título',
+        scenario: 'Escenario',
+        targetWords: 'Palabras objetivo',
+        commaSeparated: 'Separadas por comas',
+        minimumTurns: 'Turnos mínimos',
+        notesForStudents: 'Notas para los estudiantes',
+        addAssignment: '+ Añadir tarea',
+        exportAssignments: 'Exportar tareas',
+        classProgress: 'Progreso de la clase',
+        loadStudentResults: 'Cargar resultados de estudiantes…',
+        clearResults: 'Borrar',
+        confirmClearResults: '¿Olvidar todos los resultados de estudiantes cargados?',
+        assignmentsUnavailable: 'Las tareas no están disponibles en este navegador.',
+        noAssignmentsTeacher: 'Aún no hay tareas. Añade una abajo y luego expórtala para tus estudiantes.',
+        noAssignmentsStudent: 'Aún no hay tareas. Importa el archivo que te dio tu profesor.',
+        unknownScenario: 'Escenario desconocido',
+        assignmentDetails: '{scenario} · al menos {turns} turnos',
+        notStarted: 'Sin empezar',
+        assignmentDone: 'Hecha ✓',
+        assignmentInProgress: 'En curso: {done} de {min} turnos',
+        continueAssignment: 'Continuar',
+        startAssignment: 'Empezar',
+        assignmentSaveFailed: 'No se pudo guardar la tarea en este navegador.',
+        addAssignmentFirst: 'Primero añade una tarea.',
+        importedAssignment: 'Se importó "{title}"',
+        importedAssignments: 'Se importaron {count} tareas',
+        assignmentsImportFailed: 'No se pudieron importar estas tareas.',
+        startAssignmentFirst: 'Primero empieza una tarea.',
+        resultsUnavailable: 'Tus resultados no están disponibles en este navegador.',
+        fileProblem: '{file}: {problem}',
+        fileCouldNotBeLoaded: 'no se pudo cargar.',
+        loadedOneResultsFile: 'Se cargó 1 archivo de resultados',
+        loadedResultsFiles: 'Se cargaron {count} archivos de resultados',
+        classResultsUnavailable: 'Los resultados de la clase no están disponibles en este navegador.',
+        noClassResults: 'Carga los archivos de resultados que te envíen tus estudiantes para ver cómo va la clase.',
+        doneColumn: 'Hechas',
+        resultWords: '{used}/{total} palabras',
+        resultTurnsAndWords: '{turns} turnos, {words} palabras dichas',
+        missedWords: 'Faltaron: {words}',
+        usedEveryTargetWord: 'Usó todas las palabras objetivo',
+        correctionsSummary: 'Correcciones: {list}',
+        noCorrections: 'Sin correcciones',
+        estimatedLevel: 'Nivel estimado: {level}',
+        permissionDenied: 'Permiso denegado',
+        noMicrophone: 'No hay micrófono',
+        noMicrophoneFound: 'No se encontró ningún micrófono',
+        speechError: 'Error de voz',
+        permissionError: 'Error de permiso',
+        featureNotSupported: 'Función no compatible',
+        allowMicrophone: 'Permite el acceso al micrófono en la configuración del navegador o escribe tus mensajes abajo.',
+        connectMicrophone: 'No se encontró ningún micrófono. Conecta uno o escribe tus mensajes abajo.',
+        speechServiceUnreachable: 'El reconocimiento de voz no pudo conectar con su servicio. Inténtalo de nuevo.',
+        speechNeedsConnection: 'El reconocimiento de voz necesita conexión en este navegador. Puedes escribir en su lugar.',
+        unexpectedSpeechError: 'Se produjo un error inesperado. Inténtalo de nuevo.',
+        microphoneBlocked: 'Has bloqueado el acceso al micrófono. Actívalo en la configuración del sitio del navegador para hablar o escribe tus mensajes abajo.',
+        checkMicrophoneConnected: 'No se encontró ningún micrófono. Comprueba que haya uno conectado y funcionando o escribe tus mensajes abajo.',
+        hardwareError: 'Se produjo un error inesperado del dispositivo: {details}',
+        unknownMicrophoneError: 'Se produjo un error desconocido al intentar acceder al micrófono.',
+        cannotListDevices: 'Tu navegador no puede enumerar dispositivos. Aún puedes escribir tus mensajes abajo.',
+        connectAndAllowMicrophone: 'Conecta un micrófono y concede el permiso en la configuración del navegador o escribe tus mensajes abajo.',
+        personalityWarm: 'Cálido y paciente',
+        personalityCasual: 'Amigo informal',
+        personalityWitty: 'Ingenioso y divertido',
+        personalityFormal: 'Coach profesional',
+        strictnessEssential: 'Solo errores que impiden entender',
+        strictnessEverything: 'Corregir todo',
+        strictnessEndOfSession: 'Sin comentarios hasta que termine la sesión',
+        wideVocabulary: 'Usaste un vocabulario amplio ({count} palabras distintas).',
+        solidVocabulary: 'Tu vocabulario es sólido ({count} palabras distintas), con margen para crecer.',
+        commonVocabulary: 'Usaste sobre todo palabras comunes y repetidas ({count} palabras distintas).',
+        longAnswers: 'Tus respuestas fueron largas y bien conectadas (unas {count} palabras cada una).',
+        reasonableAnswers: 'Tus respuestas tuvieron una longitud razonable (unas {count} palabras cada una) y algunas ideas enlazadas.',
+        shortAnswers: 'Tus respuestas fueron cortas (unas {count} palabras cada una) y con pocos conectores.',
+        fewMistakes: 'Cometiste muy pocos errores ({rate} cada 100 palabras).',
+        someMistakes: 'Cometiste algunos errores ({rate} cada 100 palabras).',
+        frequentMistakes: 'Los errores fueron frecuentes ({rate} cada 100 palabras), así que un ritmo más suave te ayudará.',
+        topicsExample: 'viajes, cine, cocina',
+        avoidTopicsExample: 'política, exámenes',
+    },
+    fr: {
+        appTitle: "Pratique de l'anglais avec l'IA",
+        chooseLevel: "Choisissez votre niveau d'anglais",
+        chooseLevelIntro: 'Cela aide {name} à adapter la conversation à vos besoins. Vous pourrez le modifier plus tard dans les réglages.',
+        beginner: 'Débutant',
+        intermediate: 'Intermédiaire',
+        advanced: 'Avancé',
+        notSure: 'Vous hésitez ?',
+        findMyLevel: 'Trouver mon niveau en 5 questions',
+        openSessions: 'Ouvrir les sessions précédentes',
+        openSettings: 'Ouvrir les réglages',
+        offlineTitle: 'Vous êtes hors ligne.',
+        offlineMessage: 'Votre carnet, vos sessions précédentes et les exercices de prononciation restent disponibles. Vos messages seront transmis à {name} dès le retour de la connexion.',
+        chatTab: 'Discussion',
+        progressTab: 'Progrès',
+        notebookTab: 'Carnet',
+        level: 'Niveau',
+        allLevels: 'Tous les niveaux',
+        reviewDueWords: 'Réviser les mots du jour',
+        composerPlaceholder: 'Écrivez un message ou touchez le micro',
+        message: 'Message',
+        sendMessage: 'Envoyer le message',
+        startRecording: "Commencer l'enregistrement",
+        stopRecording: "Arrêter l'enregistrement",
+        handsFreeOn: 'Mains libres : activé',
+        handsFreeOff: 'Mains libres : désactivé',
+        handsFreeHint: 'Parlez en continu, comme au téléphone',
+        endSession: 'Terminer la session',
+        endSessionHint: 'Terminer cette conversation et obtenir un bilan',
+        settings: 'Réglages',
+        closeSettings: 'Fermer les réglages',
+        languageLevel: 'Niveau de langue',
+        notSureOfLevel: 'Vous ne connaissez pas votre niveau ?',
+        placementChat: 'Test de niveau',
+        aiVoice: "Voix de l'IA",
+        speechSpeed: 'Vitesse de la voix',
+        reviewTranscripts: "Relire les transcriptions avant l'envoi",
+        recordMyVoice: 'Garder les enregistrements de ma voix',
+        nativeLanguage: 'Votre langue maternelle',
+        tutorName: 'Nom du tuteur',
+        tutorPersonality: 'Personnalité du tuteur',
+        correctionStrictness: 'Corrections',
+        favouriteTopics: "Sujets que j'aime",
+        avoidTopics: 'Sujets à éviter',
+        targetAccent: 'Anglais que je veux apprendre',
+        aiProvider: "Fournisseur d'IA",
+        model: 'Modèle',
+        serverUrl: 'URL du serveur',
+        apiKey: "Clé d'API",
+        optional: 'Facultatif',
+        fontSize: 'Taille du texte',
+        keyboardShortcuts: 'Raccourcis clavier',
+        shortcutTalk: 'Maintenir pour parler',
+        shortcutReplay: 'Réécouter le dernier message de {name}',
+        shortcutSlow: 'Le réécouter lentement',
+        shortcutClose: 'Fermer un panneau ou arrêter {name}',
+        tutorIsThinking: '{name} réfléchit…',
+        sessions: 'Sessions',
+        pastSessions: 'Sessions précédentes',
+        closeSessions: 'Fermer les sessions',
+        newSession: '+ Nouvelle session',
+        rolePlay: 'Faire un jeu de rôle',
+        pronunciationPractice: 'Exercice de prononciation',
+        grammarDrills: 'Exercices de grammaire',
+        shadowing: 'Shadowing (répétition)',
+        importSession: 'Importer une session…',
+        classroom: 'Classe',
+        closeClassroom: 'Fermer la classe',
+        scenarios: 'Scénarios de jeu de rôle',
+        closeScenarios: 'Fermer les scénarios',
+        saveSelection: '+ Carnet',
+        feedback: 'Remarques :',
+        save: '+ Enregistrer',
+        translate: 'Traduire',
+        hideTranslation: 'Masquer la traduction',
+        translating: 'Traduction…',
+        replay: 'Réécouter',
+        playAt: 'Lire à',
+        myVoice: 'Ma voix',
+        grammar: 'grammaire',
+        vocabulary: 'vocabulaire',
+        pronunciation: 'prononciation',
+        fluency: 'aisance',
+        spelling: 'orthographe',
+        speechNotSupported: 'Reconnaissance vocale non prise en charge',
+        speechNotSupportedMessage: 'Vous pouvez toujours écrire vos messages ci-dessous. Pour parler, utilisez un navigateur comme Chrome ou Edge.',
+        apiKeyNeeded: 'Clé API requise',
+        apiKeyNeededMessage: "Saisissez votre clé API Gemini dans Réglages → Fournisseur d'IA, ou choisissez un autre fournisseur.",
+        initializationFailed: 'Échec du démarrage',
+        checkApiKey: 'Vérifiez votre clé API et actualisez la page.',
+        checkModelSettings: 'Vérifiez les réglages du modèle.',
+        reportNeedsConversation: "Discutez d'abord, puis terminez la session pour obtenir votre bilan.",
+        reportNeedsInternet: 'Votre bilan nécessite une connexion Internet.',
+        sessionReport: 'Bilan de la session',
+        sameBandAsLastReport: 'Même niveau que dans votre dernier bilan ({date}).',
+        lastReportEstimated: 'Votre dernier bilan ({date}) estimait {level}.',
+        whatWentWell: 'Ce qui a bien marché',
+        workOnNext: 'À travailler ensuite',
+        newVocabulary: 'Nouveau vocabulaire',
+        whyLevel: 'Pourquoi {level}',
+        saveToNotebook: 'Ajouter au carnet',
+        saveTermToNotebook: 'Ajouter « {term} » au carnet',
+        startNewSession: 'Commencer une nouvelle session',
+        rolePlayTitle: 'Jeu de rôle : {title}',
+        talkingTo: 'Vous parlez avec {persona}, {role}.',
+        scenarioGoal: 'Objectif : {goal}',
+        teachersNote: "Note de l'enseignant : {note}",
+        assignmentComplete: 'Devoir terminé ✓ ({count} tours)',
+        assignmentProgress: "Devoir : {done} sur au moins {min} tours, et atteignez l'objectif.",
+        goalAchieved: 'Objectif atteint !',
+        wordsOverTurns: 'Vous avez dit {words} mots en {turns} tours.',
+        targetVocabularyUsed: 'Vocabulaire cible utilisé : {words}.',
+        noTargetVocabularyUsed: "Vous n'avez utilisé aucun mot du vocabulaire cible cette fois.",
+        tryNextTime: 'À essayer la prochaine fois : {words}.',
+        allTargetVocabularyUsed: 'Vous avez utilisé tous les mots cibles. Excellent !',
+        oneCorrectionAlongTheWay: '1 correction en chemin.',
+        correctionsAlongTheWay: '{count} corrections en chemin.',
+        playAgain: 'Rejouer',
+        chooseAnotherScenario: 'Choisir un autre scénario',
+        readThisAloud: 'Lisez ceci à voix haute :',
+        listen: 'Écouter',
+        listenAgain: 'Réécouter',
+        hearWord: 'Écouter « {word} »',
+        pronunciationScore: 'Score : {score} % · Entendu : « {heard} »',
+        tryAgain: 'Réessayer',
+        nextSentence: 'Phrase suivante',
+        shadowingNeedsRecording: "Le shadowing nécessite un navigateur capable d'enregistrer le son.",
+        listenThenRepeat: 'Écoutez, puis répétez tout de suite :',
+        compareWithTutor: 'Comparer avec {name}',
+        notebookUnavailable: "Votre carnet n'est pas disponible dans ce navigateur.",
+        nothingDueForReview: "Rien à réviser pour l'instant. Revenez plus tard !",
+        sayMissingWord: "Dites le mot ou l'expression manquante :",
+        sayAndUseWord: 'Dites ce mot ou cette expression et employez-le dans une phrase :',
+        reviewHint: 'Indice : {note}',
+        iDontKnow: 'Je ne sais pas',
+        pastSessionsUnavailable: 'Vos sessions précédentes ne sont pas disponibles dans ce navigateur.',
+        noGrammarMistakesYet: "Pas encore d'erreurs de grammaire à travailler. Discutez d'abord avec {name} !",
+        drillsNeedInternet: 'Les exercices de grammaire nécessitent une connexion Internet.',
+        showAnswer: 'Voir la réponse',
+        drillComplete: 'Exercice terminé ! {right} sur {total} correctes.',
+        drillPointResult: '{point} : {right} sur {total} cette fois · {status}',
+        mastered: 'maîtrisé',
+        masteryPercent: '{percent} % de maîtrise',
+        anotherDrill: 'Un autre exercice',
+        alreadyInNotebook: '« {term} » est déjà dans votre carnet.',
+        savedToNotebook: '« {term} » a été ajouté à votre carnet.',
+        notebookCounts: '{saved} enregistrés · {due} à réviser',
+        notebookEmpty: "Sélectionnez un mot dans la conversation, ou touchez « Enregistrer » sur une correction, pour l'ajouter ici.",
+        dueNow: 'À réviser maintenant',
+        nextReviewInOneDay: 'Prochaine révision dans 1 jour',
+        nextReviewInDays: 'Prochaine révision dans {days} jours',
+        deleteItem: 'Supprimer « {item} »',
+        recommendedLevel: 'Niveau recommandé : {level}',
+        vocabularyRange: 'Richesse du vocabulaire',
+        sentenceComplexity: 'Complexité des phrases',
+        accuracy: 'Précision',
+        startAtLevel: 'Commencer au niveau {level}',
+        readyToMoveUp: "D'après vos {count} dernières sessions, vous êtes peut-être prêt à passer au niveau {level}.",
+        moreComfortableLevel: "D'après vos {count} dernières sessions, le niveau {level} serait peut-être plus confortable pour l'instant.",
+        switchToLevel: 'Passer au niveau {level}',
+        stayAtLevel: 'Rester au niveau {level}',
+        sessionsUnavailable: 'Les sessions enregistrées ne sont pas disponibles dans ce navigateur.',
+        noSessionsYet: "Aucune session enregistrée pour l'instant. Commencez à parler pour en créer une !",
+        oneTurn: '1 tour',
+        turnCount: '{count} tours',
+        assignmentKind: 'Devoir',
+        rolePlayKind: 'Jeu de rôle',
+        waitingToSend: "{count} en attente d'envoi",
+        renameSession: 'Renommer la session',
+        exportSession: 'Exporter la session',
+        deleteSession: 'Supprimer la session',
+        confirmDeleteSession: 'Supprimer « {title} » ? Cette action est irréversible.',
+        sessionTitle: 'Titre de la session',
+        exportAs: 'Exporter en',
+        printOrPdf: 'Imprimer / PDF',
+        cancelExport: "Annuler l'export",
+        importedTitle: '{title} (importée)',
+        importedSession: '« {title} » importée',
+        sessionImportFailed: "Impossible d'importer cette session.",
+        progressUnavailable: "La progression n'est pas disponible dans ce navigateur.",
+        recordingPlayFailed: 'Impossible de lire cet enregistrement.',
+        recordingMissing: "Cet enregistrement n'est pas sur cet appareil.",
+        recordingsUnavailable: 'Les enregistrements ne sont pas disponibles dans ce navigateur.',
+        readSentenceAloud: "Lisez la phrase à voix haute pour qu'elle soit notée.",
+        placementNeedsInternet: 'La conversation de niveau nécessite une connexion Internet.',
+        translationsNeedInternet: 'Les traductions nécessitent une connexion Internet.',
+        translationFailed: "Désolé, ce message n'a pas pu être traduit.",
+        noVoices: 'Aucune voix disponible',
+        otherVariety: 'Autre variante',
+        profile: 'Profil',
+        whosPractising: "Qui s'entraîne",
+        profileName: 'Nom',
+        profileRole: 'Rôle',
+        student: 'Élève',
+        teacher: 'Enseignant',
+        teacherProfile: '{profile} (enseignant)',
+        newLearnerName: 'Nom du nouvel élève',
+        addProfile: '+ Ajouter',
+        assignments: 'Devoirs',
+        importAssignments: 'Importer des devoirs…',
+        exportMyResults: 'Exporter mes résultats',
+        assignmentTitle: 'Titre',
+        scenario: 'Scénario',
+        targetWords: 'Mots cibles',
+        commaSeparated: 'Séparés par des virgules',
+        minimumTurns: 'Nombre minimal de tours',
+        notesForStudents: 'Notes pour les élèves',
+        addAssignment: '+ Ajouter un devoir',
+        exportAssignments: 'Exporter les devoirs',
+        classProgress: 'Progression de la classe',
+        loadStudentResults: 'Charger les résultats des élèves…',
+        clearResults: 'Effacer',
+        confirmClearResults: "Oublier tous les résultats d'élèves chargés ?",
+        assignmentsUnavailable: 'Les devoirs ne sont pas disponibles dans ce navigateur.',
+        noAssignmentsTeacher: "Aucun devoir pour l'instant. Ajoutez-en un ci-dessous, puis exportez-le pour vos élèves.",
+        noAssignmentsStudent: "Aucun devoir pour l'instant. Importez le fichier donné par votre enseignant.",
+        unknownScenario: 'Scénario inconnu',
+        assignmentDetails: '{scenario} · au moins {turns} tours',
+        notStarted: 'Pas commencé',
+        assignmentDone: 'Terminé ✓',
+        assignmentInProgress: 'En cours : {done} sur {min} tours',
+        continueAssignment: 'Continuer',
+        startAssignment: 'Commencer',
+        assignmentSaveFailed: "Impossible d'enregistrer le devoir dans ce navigateur.",
+        addAssignmentFirst: "Ajoutez d'abord un devoir.",
+        importedAssignment: '« {title} » importé',
+        importedAssignments: '{count} devoirs importés',
+        assignmentsImportFailed: "Impossible d'importer ces devoirs.",
+        startAssignmentFirst: "Commencez d'abord un devoir.",
+        resultsUnavailable: 'Vos résultats ne sont pas disponibles dans ce navigateur.',
+        fileProblem: '{file} : {problem}',
+        fileCouldNotBeLoaded: 'impossible à charger.',
+        loadedOneResultsFile: '1 fichier de résultats chargé',
+        loadedResultsFiles: '{count} fichiers de résultats chargés',
+        classResultsUnavailable: 'Les résultats de la classe ne sont pas disponibles dans ce navigateur.',
+        noClassResults: 'Chargez les fichiers de résultats envoyés par vos élèves pour suivre la classe.',
+        doneColumn: 'Terminés',
+        resultWords: '{used}/{total} mots',
+        resultTurnsAndWords: '{turns} tours, {words} mots prononcés',
+        missedWords: 'Manqués : {words}',
+        usedEveryTargetWord: 'Tous les mots cibles utilisés',
+        correctionsSummary: 'Corrections : {list}',
+        noCorrections: 'Aucune correction',
+        estimatedLevel: 'Niveau estimé : {level}',
+        permissionDenied: 'Autorisation refusée',
+        noMicrophone: 'Aucun micro',
+        noMicrophoneFound: 'Aucun micro trouvé',
+        speechError: 'Erreur vocale',
+        permissionError: "Erreur d'autorisation",
+        featureNotSupported: 'Fonction non prise en charge',
+        allowMicrophone: "Autorisez l'accès au micro dans les réglages du navigateur, ou tapez vos messages ci-dessous.",
+        connectMicrophone: 'Aucun micro trouvé. Branchez-en un, ou tapez vos messages ci-dessous.',
+        speechServiceUnreachable: "La reconnaissance vocale n'a pas pu joindre son service. Réessayez.",
+        speechNeedsConnection: 'La reconnaissance vocale nécessite une connexion dans ce navigateur. Vous pouvez taper à la place.',
+        unexpectedSpeechError: "Une erreur inattendue s'est produite. Réessayez.",
+        microphoneBlocked: "Vous avez bloqué l'accès au micro. Activez-le dans les réglages du site de votre navigateur pour parler, ou tapez vos messages ci-dessous.",
+        checkMicrophoneConnected: "Aucun micro trouvé. Vérifiez qu'un micro est branché et fonctionne, ou tapez vos messages ci-dessous.",
+        hardwareError: "Une erreur matérielle inattendue s'est produite : {details}",
+        unknownMicrophoneError: "Une erreur inconnue s'est produite lors de l'accès au micro.",
+        cannotListDevices: 'Votre navigateur ne peut pas lister les appareils. Vous pouvez toujours taper vos messages ci-dessous.',
+        connectAndAllowMicrophone: "Branchez un micro et accordez l'autorisation dans les réglages du navigateur, ou tapez vos messages ci-dessous.",
+        personalityWarm: 'Chaleureux et patient',
+        personalityCasual: 'Ami décontracté',
+        personalityWitty: 'Spirituel et joueur',
+        personalityFormal: 'Coach professionnel',
+        strictnessEssential: 'Seulement les erreurs qui gênent la compréhension',
+        strictnessEverything: 'Tout corriger',
+        strictnessEndOfSession: 'Aucun retour avant la fin de la séance',
+        wideVocabulary: 'Vous avez utilisé un vocabulaire varié ({count} mots différents).',
+        solidVocabulary: 'Votre vocabulaire est solide ({count} mots différents), avec de la marge pour progresser.',
+        commonVocabulary: 'Vous avez surtout utilisé des mots courants et répétés ({count} mots différents).',
+        longAnswers: 'Vos réponses étaient longues et bien reliées (environ {count} mots chacune).',
+        reasonableAnswers: 'Vos réponses avaient une longueur raisonnable (environ {count} mots chacune) et quelques idées reliées.',
+        shortAnswers: 'Vos réponses étaient courtes (environ {count} mots chacune) avec peu de mots de liaison.',
+        fewMistakes: "Vous avez fait très peu d'erreurs ({rate} pour 100 mots).",
+        someMistakes: 'Vous avez fait quelques erreurs ({rate} pour 100 mots).',
+        frequentMistakes: 'Les erreurs étaient fréquentes ({rate} pour 100 mots) : un rythme plus doux vous aidera.',
+        topicsExample: 'voyages, films, cuisine',
+        avoidTopicsExample: 'politique, examens',
+    },
+    he: {
+        appTitle: 'תרגול אנגלית עם בינה מלאכותית',
+        chooseLevel: 'בחרו את רמת האנגלית שלכם',
+        chooseLevelIntro: 'זה עוזר ל־{name} להתאים את השיחה לצרכים שלכם. אפשר לשנות זאת מאוחר יותר בהגדרות.',
+        beginner: 'מתחילים',
+        intermediate: 'בינוני',
+        advanced: 'מתקדמים',
+        notSure: 'לא בטוחים?',
+        findMyLevel: 'גלו את הרמה שלכם בשיחה של 5 שאלות',
+        openSessions: 'פתיחת שיחות קודמות',
+        openSettings: 'פתיחת ההגדרות',
+        offlineTitle: 'אין חיבור לאינטרנט.',
+        offlineMessage: 'המחברת, השיחות הקודמות ותרגילי ההגייה עדיין זמינים. הודעות שתשלחו יגיעו ל־{name} כשהחיבור יחזור.',
+        chatTab: 'שיחה',
+        progressTab: 'התקדמות',
+        notebookTab: 'מחברת',
+        level: 'רמה',
+        allLevels: 'כל הרמות',
+        reviewDueWords: 'חזרה על מילים',
+        composerPlaceholder: 'הקלידו הודעה או הקישו על המיקרופון',
+        message: 'הודעה',
+        sendMessage: 'שליחת ההודעה',
+        startRecording: 'התחלת הקלטה',
+        stopRecording: 'עצירת ההקלטה',
+        handsFreeOn: 'ללא ידיים: פועל',
+        handsFreeOff: 'ללא ידיים: כבוי',
+        handsFreeHint: 'דברו ברציפות, כמו בשיחת טלפון',
+        endSession: 'סיום השיחה',
+        endSessionHint: 'סיימו את השיחה וקבלו דוח',
+        settings: 'הגדרות',
+        closeSettings: 'סגירת ההגדרות',
+        languageLevel: 'רמת שפה',
+        notSureOfLevel: 'לא בטוחים מה הרמה שלכם?',
+        placementChat: 'שיחת סיווג',
+        aiVoice: 'קול הבינה המלאכותית',
+        speechSpeed: 'מהירות דיבור',
+        reviewTranscripts: 'בדיקת התמלול לפני השליחה',
+        recordMyVoice: 'שמירת הקלטות של הקול שלי',
+        nativeLanguage: 'שפת האם שלכם',
+        tutorName: 'שם המורה',
+        tutorPersonality: 'אישיות המורה',
+        correctionStrictness: 'תיקונים',
+        favouriteTopics: 'נושאים שאני אוהב',
+        avoidTopics: 'נושאים להימנע מהם',
+        targetAccent: 'האנגלית שאני רוצה ללמוד',
+        aiProvider: 'ספק בינה מלאכותית',
+        model: 'מודל',
+        serverUrl: 'כתובת השרת',
+        apiKey: 'מפתח API',
+        optional: 'לא חובה',
+        fontSize: 'גודל גופן',
+        keyboardShortcuts: 'קיצורי מקלדת',
+        shortcutTalk: 'החזיקו כדי לדבר',
+        shortcutReplay: 'השמעה חוזרת של ההודעה האחרונה של {name}',
+        shortcutSlow: 'השמעה איטית',
+        shortcutClose: 'סגירת חלון או עצירת הדיבור של {name}',
+        tutorIsThinking: '{name} חושב…',
+        sessions: 'שיחות',
+        pastSessions: 'שיחות קודמות',
+        closeSessions: 'סגירת השיחות',
+        newSession: '+ שיחה חדשה',
+        rolePlay: 'משחק תפקידים',
+        pronunciationPractice: 'תרגול הגייה',
+        grammarDrills: 'תרגילי דקדוק',
+        shadowing: 'הצללה (חזרה)',
+        importSession: 'ייבוא שיחה…',
+        classroom: 'כיתה',
+        closeClassroom: 'סגירת הכיתה',
+        scenarios: 'תרחישי משחק תפקידים',
+        closeScenarios: 'סגירת התרחישים',
+        saveSelection: '+ מחברת',
+        feedback: 'משוב:',
+        save: '+ שמירה',
+        translate: 'תרגום',
+        hideTranslation: 'הסתרת התרגום',
+        translating: 'מתרגם…',
+        replay: 'השמעה חוזרת',
+        playAt: 'השמעה במהירות',
+        myVoice: 'הקול שלי',
+        grammar: 'דקדוק',
+        vocabulary: 'אוצר מילים',
+        pronunciation: 'הגייה',
+        fluency: 'שטף',
+        spelling: 'איות',
+        speechNotSupported: 'זיהוי דיבור אינו נתמך',
+        speechNotSupportedMessage: 'עדיין אפשר להקליד הודעות למטה. לשיחה קולית השתמשו בדפדפן כמו Chrome או Edge.',
+        apiKeyNeeded: 'נדרש מפתח API',
+        apiKeyNeededMessage: 'הזינו את מפתח ה-API של Gemini בהגדרות ← ספק AI, או בחרו ספק אחר.',
+        initializationFailed: 'ההפעלה נכשלה',
+        checkApiKey: 'בדקו את מפתח ה-API ורעננו את הדף.',
+        checkModelSettings: 'בדקו את הגדרות המודל.',
+        reportNeedsConversation: 'קודם נהלו שיחה, ואז סיימו את המפגש כדי לקבל דוח.',
+        reportNeedsInternet: 'הדוח דורש חיבור לאינטרנט.',
+        sessionReport: 'דוח המפגש',
+        sameBandAsLastReport: 'אותה רמה כמו בדוח הקודם ({date}).',
+        lastReportEstimated: 'הדוח הקודם ({date}) העריך {level}.',
+        whatWentWell: 'מה הלך טוב',
+        workOnNext: 'על מה לעבוד',
+        newVocabulary: 'אוצר מילים חדש',
+        whyLevel: 'למה {level}',
+        saveToNotebook: 'שמירה במחברת',
+        saveTermToNotebook: 'שמירת "{term}" במחברת',
+        startNewSession: 'התחלת מפגש חדש',
+        rolePlayTitle: 'משחק תפקידים: {title}',
+        talkingTo: 'אתם מדברים עם {persona}, {role}.',
+        scenarioGoal: 'מטרה: {goal}',
+        teachersNote: 'הערת המורה: {note}',
+        assignmentComplete: 'המשימה הושלמה ✓ ({count} תורות)',
+        assignmentProgress: 'משימה: {done} מתוך {min} תורות לפחות, והשגת המטרה.',
+        goalAchieved: 'המטרה הושגה!',
+        wordsOverTurns: 'אמרתם {words} מילים ב-{turns} תורות.',
+        targetVocabularyUsed: 'אוצר מילים שהשתמשתם בו: {words}.',
+        noTargetVocabularyUsed: 'הפעם לא השתמשתם באף מילה מאוצר המילים של התרחיש.',
+        tryNextTime: 'נסו בפעם הבאה: {words}.',
+        allTargetVocabularyUsed: 'השתמשתם בכל המילים. מצוין!',
+        oneCorrectionAlongTheWay: 'תיקון אחד לאורך הדרך.',
+        correctionsAlongTheWay: '{count} תיקונים לאורך הדרך.',
+        playAgain: 'לשחק שוב',
+        chooseAnotherScenario: 'בחירת תרחיש אחר',
+        readThisAloud: 'קראו בקול:',
+        listen: 'האזנה',
+        listenAgain: 'האזנה חוזרת',
+        hearWord: 'השמעת "{word}"',
+        pronunciationScore: 'ציון: {score}% · נשמע: "{heard}"',
+        tryAgain: 'לנסות שוב',
+        nextSentence: 'המשפט הבא',
+        shadowingNeedsRecording: 'תרגול הצללה דורש דפדפן שיכול להקליט שמע.',
+        listenThenRepeat: 'האזינו וחזרו מיד:',
+        compareWithTutor: 'השוואה ל־{name}',
+        notebookUnavailable: 'המחברת אינה זמינה בדפדפן הזה.',
+        nothingDueForReview: 'אין מה לחזור עליו כרגע. חזרו מאוחר יותר!',
+        sayMissingWord: 'אמרו את המילה או הביטוי החסרים:',
+        sayAndUseWord: 'אמרו את המילה או הביטוי והשתמשו בהם במשפט:',
+        reviewHint: 'רמז: {note}',
+        iDontKnow: 'לא יודע/ת',
+        pastSessionsUnavailable: 'המפגשים הקודמים אינם זמינים בדפדפן הזה.',
+        noGrammarMistakesYet: 'עדיין אין טעויות דקדוק לתרגל. נהלו קודם שיחה עם {name}!',
+        drillsNeedInternet: 'תרגילי דקדוק דורשים חיבור לאינטרנט.',
+        showAnswer: 'הצגת התשובה',
+        drillComplete: 'התרגיל הסתיים! {right} מתוך {total} נכונות.',
+        drillPointResult: '{point}: {right} מתוך {total} הפעם · {status}',
+        mastered: 'נשלט',
+        masteryPercent: '{percent}% שליטה',
+        anotherDrill: 'תרגיל נוסף',
+        alreadyInNotebook: '"{term}" כבר נמצא במחברת.',
+        savedToNotebook: '"{term}" נשמר במחברת.',
+        notebookCounts: '{saved} שמורים · {due} לחזרה',
+        notebookEmpty: 'סמנו מילה בשיחה, או הקישו "שמירה" על תיקון, כדי להוסיף אותה לכאן.',
+        dueNow: 'לחזרה עכשיו',
+        nextReviewInOneDay: 'החזרה הבאה בעוד יום אחד',
+        nextReviewInDays: 'החזרה הבאה בעוד {days} ימים',
+        deleteItem: 'מחיקת "{item}"',
+        recommendedLevel: 'רמה מומלצת: {level}',
+        vocabularyRange: 'מגוון אוצר מילים',
+        sentenceComplexity: 'מורכבות המשפטים',
+        accuracy: 'דיוק',
+        startAtLevel: 'התחלה ברמת {level}',
+        readyToMoveUp: 'לפי {count} המפגשים האחרונים, ייתכן שאתם מוכנים לעלות לרמת {level}.',
+        moreComfortableLevel: 'לפי {count} המפגשים האחרונים, רמת {level} עשויה להיות נוחה יותר כרגע.',
+        switchToLevel: 'מעבר לרמת {level}',
+        stayAtLevel: 'להישאר ברמת {level}',
+        sessionsUnavailable: 'המפגשים השמורים אינם זמינים בדפדפן הזה.',
+        noSessionsYet: 'עדיין אין מפגשים שמורים. התחילו לדבר כדי ליצור אחד!',
+        oneTurn: 'תור אחד',
+        turnCount: '{count} תורות',
+        assignmentKind: 'משימה',
+        rolePlayKind: 'משחק תפקידים',
+        waitingToSend: '{count} ממתינים לשליחה',
+        renameSession: 'שינוי שם המפגש',
+        exportSession: 'ייצוא המפגש',
+        deleteSession: 'מחיקת המפגש',
+        confirmDeleteSession: 'למחוק את "{title}"? אי אפשר לבטל את הפעולה.',
+        sessionTitle: 'כותרת המפגש',
+        exportAs: 'ייצוא בתור',
+        printOrPdf: 'הדפסה / PDF',
+        cancelExport: 'ביטול הייצוא',
+        importedTitle: '{title} (מיובא)',
+        importedSession: '"{title}" יובא',
+        sessionImportFailed: 'לא ניתן לייבא את המפגש הזה.',
+        progressUnavailable: 'ההתקדמות אינה זמינה בדפדפן הזה.',
+        recordingPlayFailed: 'לא ניתן להשמיע את ההקלטה.',
+        recordingMissing: 'ההקלטה לא נמצאת במכשיר הזה.',
+        recordingsUnavailable: 'ההקלטות אינן זמינות בדפדפן הזה.',
+        readSentenceAloud: 'קראו את המשפט בקול כדי שאפשר יהיה לתת ציון.',
+        placementNeedsInternet: 'שיחת קביעת הרמה דורשת חיבור לאינטרנט.',
+        translationsNeedInternet: 'תרגומים דורשים חיבור לאינטרנט.',
+        translationFailed: 'מצטערים, לא ניתן לתרגם את ההודעה.',
+        noVoices: 'אין קולות זמינים',
+        otherVariety: 'ניב אחר',
+        profile: 'פרופיל',
+        whosPractising: 'מי מתרגל/ת',
+        profileName: 'שם',
+        profileRole: 'תפקיד',
+        student: 'תלמיד/ה',
+        teacher: 'מורה',
+        teacherProfile: '{profile} (מורה)',
+        newLearnerName: 'שם הלומד/ת החדש/ה',
+        addProfile: '+ הוספה',
+        assignments: 'משימות',
+        importAssignments: 'ייבוא משימות…',
+        exportMyResults: 'ייצוא התוצאות שלי',
+        assignmentTitle: 'כותרת',
+        scenario: 'תרחיש',
+        targetWords: 'מילות יעד',
+        commaSeparated: 'מופרדות בפסיקים',
+        minimumTurns: 'מספר תורות מינימלי',
+        notesForStudents: 'הערות לתלמידים',
+        addAssignment: '+ הוספת משימה',
+        exportAssignments: 'ייצוא משימות',
+        classProgress: 'התקדמות הכיתה',
+        loadStudentResults: 'טעינת תוצאות תלמידים…',
+        clearResults: 'ניקוי',
+        confirmClearResults: 'לשכוח את כל תוצאות התלמידים שנטענו?',
+        assignmentsUnavailable: 'המשימות אינן זמינות בדפדפן הזה.',
+        noAssignmentsTeacher: 'עדיין אין משימות. הוסיפו משימה למטה וייצאו אותה לתלמידים.',
+        noAssignmentsStudent: 'עדיין אין משימות. ייבאו את הקובץ שקיבלתם מהמורה.',
+        unknownScenario: 'תרחיש לא ידוע',
+        assignmentDetails: '{scenario} · לפחות {turns} תורות',
+        notStarted: 'טרם התחיל',
+        assignmentDone: 'הושלם ✓',
+        assignmentInProgress: 'בתהליך: {done} מתוך {min} תורות',
+        continueAssignment: 'המשך',
+        startAssignment: 'התחלה',
+        assignmentSaveFailed: 'לא ניתן לשמור את המשימה בדפדפן הזה.',
+        addAssignmentFirst: 'הוסיפו קודם משימה.',
+        importedAssignment: '"{title}" יובאה',
+        importedAssignments: 'יובאו {count} משימות',
+        assignmentsImportFailed: 'לא ניתן לייבא את המשימות האלה.',
+        startAssignmentFirst: 'התחילו קודם משימה.',
+        resultsUnavailable: 'התוצאות שלכם אינן זמינות בדפדפן הזה.',
+        fileProblem: '{file}: {problem}',
+        fileCouldNotBeLoaded: 'לא ניתן לטעון.',
+        loadedOneResultsFile: 'נטען קובץ תוצאות אחד',
+        loadedResultsFiles: 'נטענו {count} קובצי תוצאות',
+        classResultsUnavailable: 'תוצאות הכיתה אינן זמינות בדפדפן הזה.',
+        noClassResults: 'טענו את קובצי התוצאות שהתלמידים שולחים כדי לראות איך הכיתה מתקדמת.',
+        doneColumn: 'הושלמו',
+        resultWords: '{used}/{total} מילים',
+        resultTurnsAndWords: '{turns} תורות, {words} מילים שנאמרו',
+        missedWords: 'חסרו: {words}',
+        usedEveryTargetWord: 'השתמש/ה בכל מילות היעד',
+        correctionsSummary: 'תיקונים: {list}',
+        noCorrections: 'אין תיקונים',
+        estimatedLevel: 'רמה משוערת: {level}',
+        permissionDenied: 'ההרשאה נדחתה',
+        noMicrophone: 'אין מיקרופון',
+        noMicrophoneFound: 'לא נמצא מיקרופון',
+        speechError: 'שגיאת דיבור',
+        permissionError: 'שגיאת הרשאה',
+        featureNotSupported: 'התכונה אינה נתמכת',
+        allowMicrophone: 'אפשרו גישה למיקרופון בהגדרות הדפדפן, או הקלידו את ההודעות למטה.',
+        connectMicrophone: 'לא נמצא מיקרופון. חברו מיקרופון, או הקלידו את ההודעות למטה.',
+        speechServiceUnreachable: 'זיהוי הדיבור לא הצליח להגיע לשירות שלו. נסו שוב.',
+        speechNeedsConnection: 'זיהוי דיבור בדפדפן הזה דורש חיבור לאינטרנט. אפשר להקליד במקום.',
+        unexpectedSpeechError: 'אירעה שגיאה לא צפויה. נסו שוב.',
+        microphoneBlocked: 'חסמתם את הגישה למיקרופון. הפעילו אותה בהגדרות האתר בדפדפן כדי לדבר, או הקלידו את ההודעות למטה.',
+        checkMicrophoneConnected: 'לא נמצא מיקרופון. ודאו שמיקרופון מחובר ועובד, או הקלידו את ההודעות למטה.',
+        hardwareError: 'אירעה שגיאת חומרה לא צפויה: {details}',
+        unknownMicrophoneError: 'אירעה שגיאה לא ידועה בניסיון לגשת למיקרופון.',
+        cannotListDevices: 'הדפדפן שלכם לא יכול לרשום את ההתקנים. עדיין אפשר להקליד את ההודעות למטה.',
+        connectAndAllowMicrophone: 'חברו מיקרופון ואשרו גישה בהגדרות הדפדפן, או הקלידו את ההודעות למטה.',
+        personalityWarm: 'חם/ה וסבלני/ת',
+        personalityCasual: 'חבר/ה קליל/ה',
+        personalityWitty: 'שנון/ה ושובב/ה',
+        personalityFormal: 'מאמן/ת מקצועי/ת',
+        strictnessEssential: 'רק שגיאות שפוגעות בהבנה',
+        strictnessEverything: 'לתקן הכול',
+        strictnessEndOfSession: 'בלי משוב עד סוף השיחה',
+        wideVocabulary: 'השתמשתם באוצר מילים רחב ({count} מילים שונות).',
+        solidVocabulary: 'אוצר המילים שלכם טוב ({count} מילים שונות), ויש מקום לצמוח.',
+        commonVocabulary: 'השתמשתם בעיקר במילים נפוצות שחוזרות על עצמן ({count} מילים שונות).',
+        longAnswers: 'התשובות שלכם היו ארוכות ומקושרות היטב (כ-{count} מילים כל אחת).',
+        reasonableAnswers: 'לתשובות שלכם היה אורך סביר (כ-{count} מילים כל אחת) וכמה רעיונות מקושרים.',
+        shortAnswers: 'התשובות שלכם היו קצרות (כ-{count} מילים כל אחת) עם מעט מילות קישור.',
+        fewMistakes: 'עשיתם מעט מאוד טעויות ({rate} לכל 100 מילים).',
+        someMistakes: 'עשיתם כמה טעויות ({rate} לכל 100 מילים).',
+        frequentMistakes: 'הטעויות היו תכופות ({rate} לכל 100 מילים), אז קצב רגוע יותר יעזור.',
+        topicsExample: 'טיולים, סרטים, בישול',
+        avoidTopicsExample: 'פוליטיקה, מבחנים',
+    },
+};
+
+/** The language the interface is shown in: the native language if it's translated, otherwise English. */
+export function getUiLanguage(code: string): Language {
+    return UI_STRINGS[code] ? getLanguage(code) : LANGUAGES[0];
+}
+
+/** Returns a piece of interface text in the given language, or in English if it isn't translated. */
+export function translateUi(key: UiStringKey, code: string): string {
+    return UI_STRINGS[code]?.[key] ?? ENGLISH[key];
+}
+
+/** Fills in the `{placeholders}` in a piece of interface text, leaving unknown ones as they are. */
+export function fillPlaceholders(text: string, values: Record<string, string | number>): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, key: string) => key in values ? String(values[key]) : placeholder);
+}
+
+/**
+ * Translates the static interface in `root`. Elements name their text with
+ * `data-i18n`, and their attributes with `data-i18n-placeholder`,
+ * `data-i18n-title` and `data-i18n-aria-label`. Texts that mention the tutor get
+ * `tutorName` in place of `{name}`. Also sets the page's language, and reading
+ * direction from the native language itself, so right-to-left learners get a
+ * right-to-left layout even where the text falls back to English.
+ */
+export function localizeDocument(root: Document, code: string, tutorName: string) {
+    const language = getUiLanguage(code);
+    root.documentElement.lang = language.code;
+    root.documentElement.dir = getLanguage(code).dir;
+
+    root.querySelectorAll<HTMLElement>('[data-i18n]').forEach(element => {
+        element.textContent = fillPlaceholders(translateUi(element.dataset.i18n as UiStringKey, language.code), { name: tutorName });
+    });
+    ([
+        ['i18nPlaceholder', 'placeholder'],
+        ['i18nTitle', 'title'],
+        ['i18nAriaLabel', 'aria-label'],
+    ] as const).forEach(([dataKey, attribute]) => {
+        root.querySelectorAll<HTMLElement>(`[data-i18n-${attribute}]`).forEach(element => {
+            element.setAttribute(attribute, fillPlaceholders(translateUi(element.dataset[dataKey] as UiStringKey, language.code), { name: tutorName }));
+        });
+    });
+}
@@ -1,128 +1,219 @@
-
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
 
-// --- Type Definitions for Web Speech API ---
-interface SpeechRecognitionAlternative {
-  readonly transcript: string;
-  readonly confidence: number;
-}
-
-interface SpeechRecognitionResult {
-  readonly isFinal: boolean;
-  readonly length: number;
-  item(index: number): SpeechRecognitionAlternative;
-  [index: number]: SpeechRecognitionAlternative;
-}
-
-interface SpeechRecognitionResultList {
-  readonly length: number;
-  item(index: number): SpeechRecognitionResult;
-  [index: number]: SpeechRecognitionResult;
-}
-
-interface SpeechRecognitionEvent extends Event {
-  readonly results: SpeechRecognitionResultList;
-}
-
-type SpeechRecognitionErrorCode =
-  | 'no-speech'
-  | 'aborted'
-  | 'audio-capture'
-  | 'network'
-  | 'not-allowed'
-  | 'service-not-allowed'
-  | 'bad-grammar'
-  | 'language-not-supported';
-
-interface SpeechRecognitionErrorEvent extends Event {
-  readonly error: SpeechRecognitionErrorCode;
-  readonly message: string;
-}
-
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  lang: string;
-  interimResults: boolean;
-  maxAlternatives: number;
-  onresult: (event: SpeechRecognitionEvent) => void;
-  onerror: (event: SpeechRecognitionErrorEvent) => void;
-  onend: () => void;
-  start(): void;
-  stop(): void;
-}
-
-interface SpeechRecognitionStatic {
-  new(): SpeechRecognition;
-}
-
-declare global {
-  interface Window {
-    SpeechRecognition: SpeechRecognitionStatic;
-    webkitSpeechRecognition: SpeechRecognitionStatic;
-  }
-}
-
-import { GoogleGenAI, Chat } from '@google/genai';
-
-// --- Interfaces ---
-interface AppSettings {
-    level: 'Beginner' | 'Intermediate' | 'Advanced';
-    voice: string;
-    speed: number;
-    fontSize: 'small' | 'medium' | 'large';
-}
+import type { Schema } from '@google/genai';
+import type { AppSettings, Assignment, Correction, CorrectionStrictness, ErrorCategory, GrammarMastery, InputMode, PracticeSession, QueuedTurn, Scenario, SessionReport, SessionTurn, TutorPersonality, VocabularyEntry, VoiceRecording } from './types';
+import { saveSession, getSession, listSessions, renameSession, deleteSession } from './sessionStore';
+import { reportResponseSchema, createReportInstruction, formatTranscriptForReport, parseSessionReport, findPreviousReport } from './report';
+import { ExportFormat, exportFileName, exportSessionHtml, exportSessionJson, exportSessionMarkdown, parseSessionExport } from './sessionExport';
+import { CORRECTION_STRICTNESS, formatLearnerMessage, isMistake, tutorResponseSchema, parseTutorResponse, serializeTutorResponse } from './feedback';
+import { computeProgress } from './progress';
+import { renderDashboard } from './dashboard';
+import {
+    PLACEMENT_TURNS, createPlacementWelcome, AssessedTurn, LevelAssessment,
+    createPlacementInstruction, assessLevel, sessionsForLevelCheck,
+} from './placement';
+import { SCENARIOS, getScenario } from './scenarios';
+import { ClassProgress, applyAssignment, getSessionScenario, isAssignmentComplete, summarizeAssignmentResult, summarizeClass, classroomFileName, exportAssignmentsJson, exportResultsJson, parseAssignmentsFile, parseResultsFile } from './classroom';
+import { saveAssignment, listAssignments, deleteAssignment, saveAssignmentResult, listAssignmentResults, clearAssignmentResults } from './classroomStore';
+import { listProfiles, getActiveProfile, setActiveProfile, createProfile, updateProfile, profileStorageKey } from './profiles';
+import { scenarioResponseSchema, createScenarioInstruction, findUsedVocabulary, summarizeScenario } from './roleplay';
+import { PRONUNCIATION_SENTENCES, RecognitionAlternative, WordStatus, scorePronunciation } from './pronunciation';
+import { saveVocabularyEntry, listVocabulary, listDueVocabulary, deleteVocabularyEntry } from './vocabularyStore';
+import { createVocabularyEntry, reviewVocabularyEntry, gradeSpokenAnswer, createCloze } from './spacedRepetition';
+import { DrillCheck, DrillExercise, FrequentGrammarPoint, drillResponseSchema, drillCheckSchema, createDrillInstruction, createDrillCheckInstruction, findFrequentGrammarPoints, pickDrillPoints, parseDrillExercises, parseDrillCheck, formatDrillAnswer, updateMastery, masteryScore, isMastered } from './drills';
+import { saveGrammarMastery, listGrammarMastery } from './masteryStore';
+import { extractStreamingReply, takeCompleteSentences } from './streaming';
+import { SLOW_REPLAY_RATES, toSpeakableWord } from './playback';
+import { ChatMessage, TutorChat, TutorTask, DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL, createTutorBackend, isMissingApiKey, requiresNetwork } from './tutorBackend';
+import { VoiceActivityDetector, createVoiceActivityDetector } from './voiceActivity';
+import { VoiceRecorder, canRecordVoice, startVoiceRecorder, playRecording } from './voiceRecorder';
+import { saveRecording, getRecording, deleteSessionRecordings } from './recordingStore';
+import { ACCENTS, voicesForAccent, defaultVoiceForAccent } from './accents';
+import { LANGUAGES, fillPlaceholders, getLanguage, localizeDocument, translateUi, UiStringKey } from './i18n';
+import { translationResponseSchema, createTranslationInstruction, parseTranslation } from './translation';
+import { DEFAULT_TUTOR_NAME, PERSONALITIES, createTutorInstruction, createWelcomeMessage, normalizeTutorName, parseTopicList } from './persona';
+import { hasSavedSettings, loadSettings, saveSettings } from './settingsStore';
+import { createChatView, highlightSpokenWord, markCorrections } from './chatView';
+import { SpeechProblem, SpeechRecognitionEvent, checkMicrophoneAccess, createSpeechController, speakText } from './speechController';
 
 // --- DOM Elements ---
 const chatContainer = document.getElementById('chat-container') as HTMLElement;
 const micButton = document.getElementById('mic-button') as HTMLButtonElement;
+const composer = document.getElementById('composer') as HTMLFormElement;
+const composerInput = document.getElementById('composer-input') as HTMLInputElement;
+const handsFreeButton = document.getElementById('hands-free-button') as HTMLButtonElement;
+const endSessionButton = document.getElementById('end-session-button') as HTMLButtonElement;
 const footerError = document.getElementById('footer-error') as HTMLElement;
 const levelSelectionOverlay = document.getElementById('level-selection-overlay') as HTMLElement;
 const appContainer = document.getElementById('app-container') as HTMLElement;
-const offlineOverlay = document.getElementById('offline-overlay') as HTMLElement;
+const offlineBanner = document.getElementById('offline-banner') as HTMLElement;
 const levelButtons = {
     beginner: document.getElementById('level-beginner') as HTMLButtonElement,
     intermediate: document.getElementById('level-intermediate') as HTMLButtonElement,
     advanced: document.getElementById('level-advanced') as HTMLButtonElement,
 };
-const settingsButton = document.getElementById('settings-button') as HTMLElement;
+const levelPlacementButton = document.getElementById('level-placement') as HTMLButtonElement;
+const settingsButton = document.getElementById('settings-button') as HTMLButtonElement;
 const settingsOverlay = document.getElementById('settings-overlay') as HTMLElement;
 const closeSettingsButton = document.getElementById('close-settings-button') as HTMLButtonElement;
 const levelSelect = document.getElementById('level-select') as HTMLSelectElement;
+const accentSelect = document.getElementById('accent-select') as HTMLSelectElement;
 const voiceSelect = document.getElementById('voice-select') as HTMLSelectElement;
 const speedSlider = document.getElementById('speed-slider') as HTMLInputElement;
+const editTranscriptsToggle = document.getElementById('edit-transcripts-toggle') as HTMLInputElement;
+const recordVoiceToggle = document.getElementById('record-voice-toggle') as HTMLInputElement;
+const nativeLanguageSelect = document.getElementById('native-language-select') as HTMLSelectElement;
+const tutorNameInput = document.getElementById('tutor-name-input') as HTMLInputElement;
+const personalitySelect = document.getElementById('personality-select') as HTMLSelectElement;
+const strictnessSelect = document.getElementById('strictness-select') as HTMLSelectElement;
+const topicsInput = document.getElementById('topics-input') as HTMLInputElement;
+const avoidTopicsInput = document.getElementById('avoid-topics-input') as HTMLInputElement;
+const placementButton = document.getElementById('placement-button') as HTMLButtonElement;
+const backendSelect = document.getElementById('backend-select') as HTMLSelectElement;
+const modelInput = document.getElementById('model-input') as HTMLInputElement;
+const baseUrlInput = document.getElementById('base-url-input') as HTMLInputElement;
+const apiKeyInput = document.getElementById('api-key-input') as HTMLInputElement;
 const fontSizeButtons = document.querySelectorAll('.font-size-btn');
+const sessionsButton = document.getElementById('sessions-button') as HTMLButtonElement;
+const sessionsOverlay = document.getElementById('sessions-overlay') as HTMLElement;
+const closeSessionsButton = document.getElementById('close-sessions-button') as HTMLButtonElement;
+const newSessionButton = document.getElementById('new-session-button') as HTMLButtonElement;
+const sessionList = document.getElementById('session-list') as HTMLUListElement;
+const scenariosButton = document.getElementById('scenarios-button') as HTMLButtonElement;
+const pronunciationButton = document.getElementById('pronunciation-button') as HTMLButtonElement;
+const drillButton = document.getElementById('drill-button') as HTMLButtonElement;
+const shadowingButton = document.getElementById('shadowing-button') as HTMLButtonElement;
+const importSessionButton = document.getElementById('import-session-button') as HTMLButtonElement;
+const importSessionInput = document.getElementById('import-session-input') as HTMLInputElement;
+const scenarioOverlay = document.getElementById('scenario-overlay') as HTMLElement;
+const closeScenarioButton = document.getElementById('close-scenario-button') as HTMLButtonElement;
+const scenarioList = document.getElementById('scenario-list') as HTMLUListElement;
+const chatTab = document.getElementById('chat-tab') as HTMLButtonElement;
+const dashboardTab = document.getElementById('dashboard-tab') as HTMLButtonElement;
+const dashboardView = document.getElementById('dashboard-view') as HTMLElement;
+const dashboardContent = document.getElementById('dashboard-content') as HTMLElement;
+const dashboardLevelFilter = document.getElementById('dashboard-level-filter') as HTMLSelectElement;
+const appFooter = appContainer.querySelector('footer') as HTMLElement;
+const notebookTab = document.getElementById('notebook-tab') as HTMLButtonElement;
+const notebookView = document.getElementById('notebook-view') as HTMLElement;
+const notebookSummary = document.getElementById('notebook-summary') as HTMLElement;
+const notebookList = document.getElementById('notebook-list') as HTMLUListElement;
+const reviewButton = document.getElementById('review-button') as HTMLButtonElement;
+const saveSelectionButton = document.getElementById('save-selection-button') as HTMLButtonElement;
+const toast = document.getElementById('toast') as HTMLElement;
+const announcer = document.getElementById('announcer') as HTMLElement;
+const classroomButton = document.getElementById('classroom-button') as HTMLButtonElement;
+const classroomOverlay = document.getElementById('classroom-overlay') as HTMLElement;
+const closeClassroomButton = document.getElementById('close-classroom-button') as HTMLButtonElement;
+const profileSelect = document.getElementById('profile-select') as HTMLSelectElement;
+const profileNameInput = document.getElementById('profile-name-input') as HTMLInputElement;
+const profileRoleSelect = document.getElementById('profile-role-select') as HTMLSelectElement;
+const addProfileForm = document.getElementById('add-profile-form') as HTMLFormElement;
+const newProfileInput = document.getElementById('new-profile-input') as HTMLInputElement;
+const assignmentList = document.getElementById('assignment-list') as HTMLUListElement;
+const assignmentForm = document.getElementById('assignment-form') as HTMLFormElement;
+const assignmentTitleInput = document.getElementById('assignment-title-input') as HTMLInputElement;
+const assignmentScenarioSelect = document.getElementById('assignment-scenario-select') as HTMLSelectElement;
+const assignmentVocabularyInput = document.getElementById('assignment-vocabulary-input') as HTMLInputElement;
+const assignmentTurnsInput = document.getElementById('assignment-turns-input') as HTMLInputElement;
+const assignmentInstructionsInput = document.getElementById('assignment-instructions-input') as HTMLInputElement;
+const importAssignmentsButton = document.getElementById('import-assignments-button') as HTMLButtonElement;
+const importAssignmentsInput = document.getElementById('import-assignments-input') as HTMLInputElement;
+const exportAssignmentsButton = document.getElementById('export-assignments-button') as HTMLButtonElement;
+const exportResultsButton = document.getElementById('export-results-button') as HTMLButtonElement;
+const importResultsButton = document.getElementById('import-results-button') as HTMLButtonElement;
+const importResultsInput = document.getElementById('import-results-input') as HTMLInputElement;
+const clearResultsButton = document.getElementById('clear-results-button') as HTMLButtonElement;
+const classProgress = document.getElementById('class-progress') as HTMLElement;
 
 // --- App State ---
-const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
 const speechSynthesis = window.speechSynthesis;
-let recognition: SpeechRecognition | null = null;
-let isRecording = false;
-let ai: GoogleGenAI | null = null;
-let chat: Chat | null = null;
+const chatView = createChatView(chatContainer, {
+    t,
+    thinkingLabel: () => t('tutorIsThinking'),
+    onWordTap: word => speak(toSpeakableWord(word)),
+    decorateTutorMessage,
+});
+const speechController = createSpeechController(window.SpeechRecognition || window.webkitSpeechRecognition, {
+    onResult: handleRecognitionResult,
+    onEnd: handleRecognitionEnd,
+    onError: showSpeechProblem,
+    onStateChange: handleListeningChange,
+});
+let chat: TutorChat | null = null;
 let settings: AppSettings;
 let voices: SpeechSynthesisVoice[] = [];
-
-const defaultSettings: AppSettings = {
-    level: 'Intermediate',
-    voice: '',
-    speed: 1,
-    fontSize: 'medium'
-};
+let currentSession: PracticeSession | null = null;
+/** One placement answer, with the tutor's reply, so the conversation can be rebuilt on another backend. */
+type PlacementTurn = AssessedTurn & Pick<SessionTurn, 'inputMode' | 'aiText'>;
+/** Answers collected so far while a placement conversation is running, otherwise `null`. */
+let placementTurns: PlacementTurn[] | null = null;
+/** The sentence the learner is reading aloud in pronunciation mode, otherwise `null`. */
+let pronunciationTarget: string | null = null;
+/** The sentence the learner is repeating after the tutor in shadowing mode, otherwise `null`. */
+let shadowingTarget: string | null = null;
+/** Notebook entries still to be reviewed in the current review, otherwise `null`. */
+let reviewQueue: VocabularyEntry[] | null = null;
+let reviewStats = { reviewed: 0, remembered: 0 };
+/** Grammar drill: the exercises still to answer, the tutor that checks answers, and how it's going. */
+let drillQueue: DrillExercise[] | null = null;
+let drillChecker: TutorChat | null = null;
+let drillMastery = new Map<string, GrammarMastery>();
+let drillResults: { point: string; correct: boolean }[] = [];
+/** Hands-free mode: what the learner has said so far this turn, and the detector used for barge-in. */
+let handsFreeTranscript = '';
+let handsFreeAlternatives: RecognitionAlternative[] = [];
+let silenceTimer: number | undefined;
+let voiceDetector: VoiceActivityDetector | null = null;
+/** Whether the text in the composer was typed or is a transcript waiting to be checked. */
+let composerInputMode: InputMode = 'typed';
+/**
+ * The learner's voice: the recording in progress, the audio of the turn just
+ * spoken, and the audio of a transcript waiting in the composer.
+ */
+let activeRecorder: Promise<VoiceRecorder | null> | null = null;
+let recordedVoice: Promise<Blob | null> | null = null;
+let composerVoice: Promise<Blob | null> | null = null;
+/** True while one of the learner's recordings is playing, so hands-free listening waits for it. */
+let playingVoice = false;
+/** Corrections on screen but not yet shown, when the learner only wants feedback at the end of a session. */
+let heldBackFeedback: { messageElement: HTMLElement; turn: SessionTurn }[] = [];
+/** True while the tutor is working on a reply, so listening doesn't resume between streamed sentences. */
+let awaitingReply = false;
+/**
+ * Cuts off the reply being streamed in, if any. Once the learner talks over it the
+ * rest isn't fetched or spoken, the exchange is left out of the session, and
+ * listening can resume straight away.
+ */
+let streamingReply: AbortController | null = null;
+/**
+ * Learner turns still being answered. After an interruption the next turn can be
+ * sent before the last one has wound down; the chat still answers them in order.
+ */
+let turnsInFlight = 0;
+/** The reply each chat is streaming, which its next message waits for. */
+const chatReplies = new WeakMap<TutorChat, Promise<void>>();
+/** True while messages queued offline are being sent, so a second `online` event doesn't send them twice. */
+let flushingQueue = false;
+/** Translations of the tutor's messages, keyed by language and text, so each is only fetched once. */
+const translations = new Map<string, string>();
+/** How long the learner can pause before a hands-free turn ends. */
+const HANDS_FREE_SILENCE_MS = 1500;
+/** Microphone level that counts as the learner talking. */
+const VOICE_THRESHOLD = 0.02;
+/** How many due notebook words the tutor is asked to weave into a new conversation. */
+const MAX_FOCUS_WORDS = 5;
+/** How many recent announcements stay in the screen-reader live region. */
+const MAX_ANNOUNCEMENTS = 3;
+/** The element that opened each modal panel, so focus can go back to it on close. */
+const dialogOpeners = new Map<HTMLElement, HTMLElement>();
+
+const DEFAULT_SESSION_TITLE = 'New conversation';
 
 // --- Settings Management ---
-function saveSettings() {
-    localStorage.setItem('appSettings', JSON.stringify(settings));
-}
-
-function loadSettings() {
-    const saved = localStorage.getItem('appSettings');
-    settings = saved ? { ...defaultSettings, ...JSON.parse(saved) } : { ...defaultSettings };
-}
-
 function applySettings() {
     // Font size
     document.body.className = document.body.className.replace(/font-size-\w+/g, '').trim();
@@ -133,56 +224,52 @@ function applySettings() {
 
     // Update settings modal inputs
     levelSelect.value = settings.level;
+    accentSelect.value = settings.accent;
     voiceSelect.value = settings.voice;
     speedSlider.value = String(settings.speed);
-}
+    editTranscriptsToggle.checked = settings.editTranscripts;
+    recordVoiceToggle.checked = settings.recordVoice;
+    nativeLanguageSelect.value = settings.nativeLanguage;
+    tutorNameInput.value = settings.tutorName;
+    personalitySelect.value = settings.personality;
+    strictnessSelect.value = settings.strictness;
+    topicsInput.value = settings.topics.join(', ');
+    avoidTopicsInput.value = settings.avoidTopics.join(', ');
+    backendSelect.value = settings.backend;
+    modelInput.value = settings.model;
+    baseUrlInput.value = settings.baseUrl;
+    apiKeyInput.value = settings.apiKey;
+    document.querySelectorAll<HTMLElement>('[data-backend]').forEach(item => {
+        item.classList.toggle('hidden', !item.dataset.backend?.split(' ').includes(settings.backend));
+    });
 
+    // Interface language
+    localizeDocument(document, settings.nativeLanguage, settings.tutorName);
+    renderHandsFreeButton();
+}
 
 /**
- * Creates a system instruction prompt for the AI based on the user's selected level.
- * @param {string} level - The user's selected proficiency level ('Beginner', 'Intermediate', 'Advanced').
- * @returns {string} The system instruction string.
+ * Returns a piece of interface text in the learner's native language, where it's
+ * translated, with `{name}` and any other placeholders filled in.
  */
-function createSystemInstruction(level: string): string {
-    const baseInstruction = `You are an AI English speaking partner named Alex. Your goal is to help me practice my English conversation skills in a natural and encouraging way. After your conversational response, add a section titled '--- Feedback ---'. In this section, provide clear, constructive feedback on my previous message. Do not provide feedback on my very first message. Start the conversation first. Your entire response should be in a single block of text. You are acting as a conversational partner for a user with a proficiency level of: ${level}.`;
-
-    switch (level) {
-        case 'Beginner':
-            return `${baseInstruction}\n\n**Your Persona:** Be extremely friendly, patient, and encouraging. Speak slowly and use simple vocabulary and short, clear sentences. Be very patient and wait for me to finish speaking. If I make a mistake, gently correct it. Start conversations with simple questions like "How was your day?" or "What is your favorite color?". The feedback should be very simple and focus on basic errors.`;
-        case 'Intermediate':
-            return `${baseInstruction}\n\n**Your Persona:** Be a friendly and helpful conversationalist. Speak at a natural, clear pace. Use a good range of vocabulary and sentence structures, but avoid overly complex language. Encourage me to explain my ideas in more detail by asking follow-up questions. The feedback should focus on improving word choice and natural phrasing.`;
-        case 'Advanced':
-            return `${baseInstruction}\n\n**Your Persona:** Be an articulate, engaging, and witty conversationalist, like a good friend. Speak fluently and naturally, using a rich vocabulary, idioms, and complex sentence structures. Feel free to challenge my ideas, introduce new topics, and engage in deeper, more nuanced conversations. Act like a peer. The feedback should be detailed, focusing on subtle errors, awkward phrasing, and suggesting more sophisticated expressions.`;
-        default:
-            return baseInstruction; // Fallback
-    }
+function t(key: UiStringKey, values: Record<string, string | number> = {}): string {
+    return fillPlaceholders(translateUi(key, settings.nativeLanguage), { name: settings.tutorName, ...values });
 }
 
-/**
- * Gets a level-appropriate welcome message from the AI.
- * @param {string} level - The user's selected proficiency level.
- * @returns {string} The welcome message.
- */
-function getWelcomeMessageForLevel(level: 'Beginner' | 'Intermediate' | 'Advanced'): string {
-    switch (level) {
-        case 'Beginner':
-            return "Hello! I'm Alex. Let's start with something easy. What is your favorite animal?";
-        case 'Intermediate':
-            return "Hi there! I'm Alex. It's great to practice with you. What's something interesting you did this week?";
-        case 'Advanced':
-            return "Welcome. I'm Alex, and I'm ready for an engaging conversation. What is a complex topic you're passionate about discussing today?";
-        default:
-            return "Hello! I'm Alex. Let's practice your English. What would you like to talk about today?";
-    }
+/** The name of a level in the learner's native language. */
+function levelName(level: AppSettings['level']): string {
+    return t(level.toLowerCase() as Lowercase<AppSettings['level']>);
 }
 
+
 /**
  * Initializes the application.
  */
 function initializeApp() {
-    loadSettings();
+    settings = loadSettings();
     applySettings();
     populateVoiceList();
+    registerServiceWorker();
 
     if (speechSynthesis.onvoiceschanged !== undefined) {
         speechSynthesis.onvoiceschanged = populateVoiceList;
@@ -195,380 +282,3011 @@ function initializeApp() {
         handleOffline();
     }
     
-    if (!SpeechRecognition) {
-        levelSelectionOverlay.classList.add('hidden');
-        appContainer.classList.remove('hidden');
-        showFooterError("Speech Recognition Not Supported", "Please use a modern browser like Chrome or Edge.");
-        micButton.classList.add('hidden');
-        return;
-    }
+    composer.addEventListener('submit', handleComposerSubmit);
+    endSessionButton.addEventListener('click', endSession);
+    composerInput.addEventListener('input', () => {
+        if (!composerInput.value.trim()) {
+            composerInputMode = 'typed';
+            composerVoice = null;
+        }
+    });
 
-    micButton.addEventListener('click', toggleRecording);
+    if (speechController.supported) {
+        micButton.addEventListener('click', toggleRecording);
+        handsFreeButton.addEventListener('click', () => setHandsFree(!settings.handsFree));
+        if (settings.handsFree) setHandsFree(true);
+    } else {
+        showFooterError(t('speechNotSupported'), t('speechNotSupportedMessage'));
+        handsFreeButton.classList.add('hidden');
+    }
 
-    const firstTimeUser = !localStorage.getItem('appSettings');
+    const firstTimeUser = !hasSavedSettings();
     if (firstTimeUser) {
         levelSelectionOverlay.classList.remove('hidden');
+        levelButtons.beginner.focus();
     } else {
-        startChatSession(settings.level);
+        restoreLastSession();
     }
     
     levelButtons.beginner.addEventListener('click', () => startChatSession('Beginner'));
     levelButtons.intermediate.addEventListener('click', () => startChatSession('Intermediate'));
     levelButtons.advanced.addEventListener('click', () => startChatSession('Advanced'));
+    levelPlacementButton.addEventListener('click', startPlacement);
     
     setupSettingsEventListeners();
+    setupSessionsEventListeners();
+    setupClassroomEventListeners();
+    setupDashboardEventListeners();
+    setupKeyboardShortcuts();
 }
 
 /**
- * Starts the main chat session.
- * @param {string} level - The proficiency level chosen by the user.
+ * Installs the service worker that caches the app for offline use.
  */
-async function startChatSession(level: 'Beginner' | 'Intermediate' | 'Advanced') {
-    if (!levelSelectionOverlay.classList.contains('hidden')) {
-        levelSelectionOverlay.classList.add('hidden');
+function registerServiceWorker() {
+    if (!('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('sw.js').catch(error => {
+        console.error("Service worker registration failed:", error);
+    });
+}
+
+/**
+ * Resumes the most recently used session, or starts a fresh one if none is stored.
+ */
+async function restoreLastSession() {
+    try {
+        const [latest] = await listSessions();
+        if (latest) {
+            await resumeChatSession(latest);
+            // Messages queued before the app was closed go out as soon as it's back online.
+            flushQueuedTurns();
+            return;
+        }
+    } catch (error) {
+        console.error("Could not load saved sessions:", error);
     }
-    appContainer.classList.remove('hidden');
+    startChatSession(settings.level);
+}
 
-    settings.level = level;
-    saveSettings();
-    levelSelect.value = level;
+/**
+ * Starts a new chat session.
+ * @param {string} level - The proficiency level chosen by the user.
+ */
+async function startChatSession(level: AppSettings['level']) {
+    enterChat(level);
+
+    const welcomeMessage = createWelcomeMessage(level, settings.tutorName);
+    const now = Date.now();
+    const session: PracticeSession = {
+        id: crypto.randomUUID(),
+        title: DEFAULT_SESSION_TITLE,
+        level,
+        welcomeMessage,
+        tutorName: normalizeTutorName(settings.tutorName),
+        turns: [],
+        queuedTurns: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+    currentSession = session;
 
     try {
-        const systemInstruction = createSystemInstruction(level);
-        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        chat = ai.chats.create({
-            model: 'gemini-2.5-flash',
-            config: {
-                systemInstruction: systemInstruction,
-            },
-        });
+        session.focusWords = await loadFocusWords();
+        chat = createSessionChat(session);
         setupSpeechRecognition();
         await handlePermissions(); // Proactively handle permissions
         
         // Always add the welcome message when a new session starts.
-        const welcomeMessage = getWelcomeMessageForLevel(level);
         addMessageToChat(welcomeMessage, 'ai', true);
+        checkLevelProgress();
 
     } catch (error) {
         console.error("Initialization failed:", error);
-        showFooterError("Initialization Failed", "Please check your API key and refresh.");
+        showInitializationError();
+    }
+}
+
+/** Loads the notebook words the tutor should bring into a new conversation. */
+async function loadFocusWords(): Promise<string[]> {
+    try {
+        return (await listDueVocabulary()).slice(0, MAX_FOCUS_WORDS).map(entry => entry.term);
+    } catch (error) {
+        console.error("Could not load notebook:", error);
+        return [];
     }
 }
 
 /**
- * Sets up the SpeechRecognition instance.
+ * Reopens a stored session, replaying its transcript and restoring the tutor's memory of it.
+ * @param {PracticeSession} session - The session to resume.
  */
-function setupSpeechRecognition() {
-    recognition = new SpeechRecognition();
-    recognition.continuous = false;
-    recognition.lang = 'en-US';
-    recognition.interimResults = false;
-    recognition.maxAlternatives = 1;
+async function resumeChatSession(session: PracticeSession) {
+    enterChat(session.level);
+    currentSession = session;
+
+    const scenario = getSessionScenario(session);
+
+    try {
+        chat = createSessionChat(session);
+        setupSpeechRecognition();
+        await handlePermissions();
+
+        if (scenario) showScenarioBrief(scenario, session);
+        addMessageToChat(session.welcomeMessage, 'ai');
+        session.turns.forEach(turn => {
+            presentTurnFeedback(session, addMessageToChat(turn.userText, 'user'), turn);
+            addMessageToChat(turn.aiText, 'ai', false, turn.feedback);
+        });
+        session.queuedTurns.forEach(turn => addQueuedMessage(turn.userText));
+        if (session.report) showReportCard(session.report);
+        if (scenario && session.completedAt) showScenarioSummary(scenario, session);
 
-    recognition.onresult = handleRecognitionResult;
-    recognition.onerror = handleRecognitionError;
-    recognition.onend = () => { if (isRecording) stopRecording(); };
+    } catch (error) {
+        console.error("Resuming session failed:", error);
+        showInitializationError();
+    }
 }
 
 /**
- * Handles all event listeners for the settings modal.
+ * Ends the current conversation: the tutor reads the whole transcript and writes a
+ * report card, which is stored with the session and shown in the chat.
  */
-function setupSettingsEventListeners() {
-    settingsButton.addEventListener('click', () => settingsOverlay.classList.remove('hidden'));
-    closeSettingsButton.addEventListener('click', () => settingsOverlay.classList.add('hidden'));
-    settingsOverlay.addEventListener('click', (e) => {
-        if (e.target === settingsOverlay) {
-            settingsOverlay.classList.add('hidden');
-        }
+async function endSession() {
+    const session = currentSession;
+    if (!session || session.turns.length === 0) {
+        showToast(t('reportNeedsConversation'));
+        return;
+    }
+    if (isTutorOffline()) {
+        showToast(t('reportNeedsInternet'));
+        return;
+    }
+    if (awaitingReply) return;
+
+    stopRecording();
+    awaitingReply = true;
+    endSessionButton.disabled = true;
+    chatView.showThinkingIndicator(true);
+    try {
+        const reportChat = createChat(createReportInstruction(session, settings.tutorName), [], reportResponseSchema, { kind: 'report' });
+        const report = parseSessionReport(await reportChat.sendMessage(formatTranscriptForReport(session)));
+        const previous = findPreviousReport(await listSessions(), session.id);
+        session.report = report;
+        await saveSession(session);
+
+        if (session !== currentSession) return;
+        chatView.showThinkingIndicator(false);
+        addMessageToChat("Great work today! Here's your report card.", 'ai', true);
+        showReportCard(report, previous);
+        const revealed = revealHeldBackFeedback();
+        if (revealed) addMessageToChat(`I've marked the ${revealed} ${revealed === 1 ? 'correction' : 'corrections'} I held back on your messages above.`, 'ai');
+    } catch (error) {
+        console.error("Session report failed:", error);
+        if (session !== currentSession) return;
+        chatView.showThinkingIndicator(false);
+        addMessageToChat("Sorry, I couldn't write your report. Please try again.", 'ai', true);
+    } finally {
+        awaitingReply = false;
+        endSessionButton.disabled = false;
+    }
+}
+
+/**
+ * Shows a session report, compared with the learner's previous report if there is one.
+ */
+function showReportCard(report: SessionReport, previous?: SessionReport) {
+    const card = document.createElement('div');
+    card.classList.add('chat-message', 'ai', 'report-card');
+
+    const title = document.createElement('strong');
+    title.textContent = t('sessionReport');
+    const badge = document.createElement('span');
+    badge.classList.add('cefr-badge');
+    badge.textContent = `CEFR ${report.cefr.level}`;
+    title.appendChild(badge);
+    card.appendChild(title);
+
+    if (previous) {
+        const comparison = document.createElement('p');
+        comparison.classList.add('report-comparison');
+        const date = new Date(previous.createdAt).toLocaleDateString();
+        comparison.textContent = previous.cefr.level === report.cefr.level
+            ? t('sameBandAsLastReport', { date })
+            : t('lastReportEstimated', { date, level: previous.cefr.level });
+        card.appendChild(comparison);
+    }
+
+    const addSection = (heading: string, content: HTMLElement) => {
+        const label = document.createElement('h4');
+        label.textContent = heading;
+        card.append(label, content);
+    };
+    const createList = (items: string[]) => {
+        const list = document.createElement('ul');
+        list.classList.add('assessment-reasoning');
+        items.forEach(text => {
+            const item = document.createElement('li');
+            item.textContent = text;
+            list.appendChild(item);
+        });
+        return list;
+    };
+
+    if (report.strengths.length) addSection(t('whatWentWell'), createList(report.strengths));
+
+    if (report.focusAreas.length) {
+        const focus = document.createElement('ol');
+        report.focusAreas.forEach(({ area, advice }) => {
+            const item = document.createElement('li');
+            const advicePart = document.createElement('span');
+            advicePart.textContent = advice;
+            item.append(area, advicePart);
+            focus.appendChild(item);
+        });
+        addSection(t('workOnNext'), focus);
+    }
+
+    if (report.newVocabulary.length) {
+        const chips = document.createElement('div');
+        chips.classList.add('vocab-chips');
+        report.newVocabulary.forEach(({ term, context }) => {
+            const chip = document.createElement('button');
+            chip.classList.add('vocab-chip');
+            chip.textContent = term;
+            chip.title = t('saveToNotebook');
+            chip.addEventListener('click', () => saveToNotebook(term, context));
+            chips.appendChild(chip);
+        });
+        addSection(t('newVocabulary'), chips);
+    }
+
+    if (report.cefr.evidence.length) addSection(t('whyLevel', { level: report.cefr.level }), createList(report.cefr.evidence));
+
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const next = document.createElement('button');
+    next.classList.add('level-choice', 'recommended');
+    next.textContent = t('startNewSession');
+    next.addEventListener('click', () => startChatSession(settings.level));
+    actions.appendChild(next);
+    card.appendChild(actions);
+
+    chatView.append(card);
+}
+
+/**
+ * Starts a role-play of the given scenario at the learner's current level.
+ * @param {Scenario} scenario - The scenario to play.
+ */
+async function startScenarioSession(scenario: Scenario, assignment?: Assignment) {
+    enterChat();
+
+    const now = Date.now();
+    currentSession = {
+        id: crypto.randomUUID(),
+        title: assignment?.title ?? scenario.title,
+        level: settings.level,
+        welcomeMessage: scenario.openingLine,
+        turns: [],
+        queuedTurns: [],
+        scenarioId: scenario.id,
+        assignment,
+        createdAt: now,
+        updatedAt: now,
+    };
+    if (assignment) scenario = applyAssignment(scenario, assignment);
+
+    try {
+        chat = createChat(createScenarioInstruction(scenario, settings.level, settings.nativeLanguage, settings.accent, settings.strictness), [], scenarioResponseSchema, { kind: 'scenario' });
+        setupSpeechRecognition();
+        await handlePermissions();
+
+        showScenarioBrief(scenario, currentSession);
+        addMessageToChat(scenario.openingLine, 'ai', true);
+    } catch (error) {
+        console.error("Scenario start failed:", error);
+        showInitializationError();
+    }
+}
+
+/** Shows the scenario's goal and target vocabulary at the top of the chat. */
+function showScenarioBrief(scenario: Scenario, session: PracticeSession) {
+    const brief = document.createElement('div');
+    brief.id = 'scenario-brief';
+    brief.classList.add('scenario-brief');
+
+    const title = document.createElement('strong');
+    title.textContent = t('rolePlayTitle', { title: scenario.title });
+    const persona = document.createElement('p');
+    persona.classList.add('scenario-persona');
+    persona.textContent = t('talkingTo', { persona: scenario.persona.name, role: scenario.persona.role });
+    const goal = document.createElement('p');
+    goal.textContent = t('scenarioGoal', { goal: scenario.goal });
+
+    const vocabulary = document.createElement('div');
+    vocabulary.classList.add('vocab-chips');
+    scenario.requiredVocabulary.forEach(item => {
+        const chip = document.createElement('span');
+        chip.classList.add('vocab-chip');
+        chip.dataset.word = item;
+        chip.textContent = item;
+        vocabulary.appendChild(chip);
     });
 
-    levelSelect.addEventListener('change', () => {
-        const newLevel = levelSelect.value as AppSettings['level'];
-        if (newLevel !== settings.level) {
-            chatContainer.innerHTML = '';
-            startChatSession(newLevel);
+    brief.append(title, persona, goal, vocabulary);
+    if (session.assignment) {
+        const assignment = document.createElement('p');
+        assignment.classList.add('assignment-progress');
+        brief.appendChild(assignment);
+        if (session.assignment.instructions) {
+            const instructions = document.createElement('p');
+            instructions.textContent = t('teachersNote', { note: session.assignment.instructions });
+            brief.appendChild(instructions);
         }
-    });
+    }
+    chatContainer.appendChild(brief);
+    updateScenarioBrief(scenario, session);
+}
 
-    voiceSelect.addEventListener('change', () => {
-        settings.voice = voiceSelect.value;
-        saveSettings();
+/** Ticks off the target words the learner has used so far, and counts turns towards an assignment. */
+function updateScenarioBrief(scenario: Scenario, session: PracticeSession) {
+    const used = findUsedVocabulary(scenario, session);
+    document.querySelectorAll<HTMLElement>('#scenario-brief .vocab-chip').forEach(chip => {
+        chip.classList.toggle('used', used.includes(chip.dataset.word ?? ''));
     });
+    const progress = document.querySelector<HTMLElement>('#scenario-brief .assignment-progress');
+    if (progress && session.assignment) {
+        const { minTurns } = session.assignment;
+        progress.textContent = isAssignmentComplete(session)
+            ? t('assignmentComplete', { count: session.turns.length })
+            : t('assignmentProgress', { done: Math.min(session.turns.length, minTurns), min: minTurns });
+    }
+}
 
-    speedSlider.addEventListener('input', () => {
-        settings.speed = parseFloat(speedSlider.value);
-        saveSettings();
+/** Shows what the learner achieved once a scenario's goal is met. */
+function showScenarioSummary(scenario: Scenario, session: PracticeSession) {
+    const summary = summarizeScenario(scenario, session);
+    const card = document.createElement('div');
+    card.classList.add('chat-message', 'ai', 'scenario-summary');
+
+    const title = document.createElement('strong');
+    title.textContent = t('goalAchieved');
+    const goal = document.createElement('p');
+    goal.textContent = summary.goal;
+
+    const stats = document.createElement('ul');
+    stats.classList.add('assessment-reasoning');
+    [
+        t('wordsOverTurns', { words: summary.wordsSpoken, turns: summary.turns }),
+        summary.vocabularyUsed.length
+            ? t('targetVocabularyUsed', { words: summary.vocabularyUsed.join(', ') })
+            : t('noTargetVocabularyUsed'),
+        summary.vocabularyMissed.length
+            ? t('tryNextTime', { words: summary.vocabularyMissed.join(', ') })
+            : t('allTargetVocabularyUsed'),
+        summary.corrections === 1 ? t('oneCorrectionAlongTheWay') : t('correctionsAlongTheWay', { count: summary.corrections }),
+    ].forEach(text => {
+        const item = document.createElement('li');
+        item.textContent = text;
+        stats.appendChild(item);
     });
 
-    fontSizeButtons.forEach(btn => {
-        btn.addEventListener('click', () => {
-            settings.fontSize = btn.getAttribute('data-size') as AppSettings['fontSize'];
-            saveSettings();
-            applySettings();
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const again = document.createElement('button');
+    again.classList.add('level-choice', 'recommended');
+    again.textContent = t('playAgain');
+    again.addEventListener('click', () => startScenarioSession(getScenario(scenario.id) ?? scenario, session.assignment));
+    const other = document.createElement('button');
+    other.classList.add('level-choice');
+    other.textContent = t('chooseAnotherScenario');
+    other.addEventListener('click', openScenarioPicker);
+    actions.append(again, other);
+
+    card.append(title, goal, stats, actions);
+    chatView.append(card);
+}
+
+/** Opens the scenario library. */
+function openScenarioPicker() {
+    scenarioList.innerHTML = '';
+    SCENARIOS.forEach(scenario => {
+        const item = document.createElement('li');
+        const button = document.createElement('button');
+        button.classList.add('scenario-option');
+        const title = document.createElement('span');
+        title.classList.add('session-title');
+        title.textContent = scenario.title;
+        const description = document.createElement('span');
+        description.classList.add('session-meta');
+        description.textContent = scenario.description;
+        button.append(title, description);
+        button.addEventListener('click', () => {
+            closeDialog(scenarioOverlay);
+            startScenarioSession(scenario);
         });
+        item.appendChild(button);
+        scenarioList.appendChild(item);
     });
+    openDialog(scenarioOverlay);
+    closeDialog(sessionsOverlay, false);
 }
 
-
-/** Toggles microphone recording. */
-function toggleRecording() {
-    if (!recognition) return;
-    isRecording ? stopRecording() : startRecording();
+/**
+ * Starts pronunciation practice: the learner reads sentences aloud and gets
+ * word-by-word feedback from the recognizer. No model calls are made.
+ */
+async function startPronunciationPractice() {
+    closeDialog(sessionsOverlay);
+    enterChat();
+    currentSession = null;
+    chat = null;
+
+    setupSpeechRecognition();
+    await handlePermissions();
+    addMessageToChat("Let's work on pronunciation. Read each sentence aloud, then tap any highlighted word to hear how it should sound.", 'ai', true);
+    showPronunciationTarget();
 }
 
-/** Starts speech recognition. */
-function startRecording() {
-    if (isRecording || !recognition) return;
-    isRecording = true;
-    micButton.classList.add('recording');
-    micButton.setAttribute('aria-label', 'Stop recording');
-    try {
-        recognition.start();
-    } catch(e) {
-        console.error("Recognition start error:", e);
-        stopRecording();
+/** Picks a sentence for the learner's level and shows it, avoiding an immediate repeat. */
+function showPronunciationTarget(sentence?: string) {
+    if (!sentence) {
+        const options = PRONUNCIATION_SENTENCES[settings.level].filter(option => option !== pronunciationTarget);
+        sentence = options[Math.floor(Math.random() * options.length)];
     }
+    pronunciationTarget = sentence;
+
+    const card = document.createElement('div');
+    card.classList.add('chat-message', 'ai', 'pronunciation-target');
+    const label = document.createElement('strong');
+    label.textContent = t('readThisAloud');
+    const words = document.createElement('p');
+    sentence.split(/\s+/).forEach(word => words.append(createSpokenWord(word), ' '));
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const listen = document.createElement('button');
+    listen.classList.add('level-choice');
+    listen.textContent = t('listen');
+    listen.addEventListener('click', () => speak(sentence));
+    actions.appendChild(listen);
+
+    card.append(label, words, actions);
+    chatView.append(card);
+    announce(`${label.textContent} ${sentence}`);
 }
 
-/** Stops speech recognition. */
-function stopRecording() {
-    if (!isRecording || !recognition) return;
-    isRecording = false;
-    micButton.classList.remove('recording');
-    micButton.setAttribute('aria-label', 'Start recording');
-    recognition.stop();
+/** Creates a word that plays its model pronunciation when tapped. */
+function createSpokenWord(word: string, status?: WordStatus): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.classList.add('pron-word');
+    if (status) button.classList.add(status);
+    button.textContent = word;
+    button.setAttribute('aria-label', t('hearWord', { word }));
+    button.addEventListener('click', () => speak(toSpeakableWord(word)));
+    return button;
 }
 
-/** Handles speech recognition results. */
-async function handleRecognitionResult(event: SpeechRecognitionEvent) {
-    const transcript = event.results[event.results.length - 1][0].transcript.trim();
-    if (transcript) {
-        addMessageToChat(transcript, 'user');
-        showThinkingIndicator(true);
-        try {
-            if (!chat) throw new Error("Chat not initialized");
-            const response = await chat.sendMessage({ message: transcript });
-            showThinkingIndicator(false);
-            const aiText = response.text;
-
-            const feedbackSeparator = '--- Feedback ---';
-            let conversationalPart = aiText;
-            let feedbackPart = '';
-            
-            if (aiText.includes(feedbackSeparator)) {
-                const parts = aiText.split(feedbackSeparator);
-                conversationalPart = parts[0].trim();
-                feedbackPart = parts[1].trim();
-            }
+/** Scores a reading of the current target sentence and shows the result. */
+function handlePronunciationAttempt(alternatives: RecognitionAlternative[]) {
+    const target = pronunciationTarget;
+    if (!target) return;
+
+    const { words, overall, heard } = scorePronunciation(target, alternatives);
+    if (!heard) return;
+
+    const attempt = document.createElement('div');
+    attempt.classList.add('chat-message', 'user', 'pronunciation-attempt');
+    const line = document.createElement('p');
+    words.forEach(({ word, status }) => line.append(createSpokenWord(word, status), ' '));
+    const detail = document.createElement('p');
+    detail.classList.add('pronunciation-detail');
+    detail.textContent = t('pronunciationScore', { score: overall, heard });
+    attempt.append(line, detail);
+    chatContainer.appendChild(attempt);
+
+    const trouble = words.filter(word => word.status !== 'good');
+    const message = trouble.length === 0
+        ? 'Excellent! Every word came through clearly.'
+        : `Nice try! Tap the highlighted ${trouble.length === 1 ? 'word' : 'words'} to hear the model pronunciation, then try again.`;
+    const reply = addMessageToChat(message, 'ai', true);
+
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const retry = document.createElement('button');
+    retry.classList.add('level-choice');
+    retry.textContent = t('tryAgain');
+    retry.addEventListener('click', () => showPronunciationTarget(target));
+    const next = document.createElement('button');
+    next.classList.add('level-choice', 'recommended');
+    next.textContent = t('nextSentence');
+    next.addEventListener('click', () => showPronunciationTarget());
+    actions.append(retry, next);
+    reply.appendChild(actions);
+    chatView.scrollToEnd();
+}
 
-            addMessageToChat(conversationalPart, 'ai', true, feedbackPart);
-        } catch (error) {
-            console.error("Gemini API error:", error);
-            showThinkingIndicator(false);
-            addMessageToChat("Sorry, I had trouble understanding that. Could you try again?", 'ai', true);
-        }
+/**
+ * Starts shadowing: the tutor says a sentence and the learner repeats it straight
+ * away, copying its rhythm and intonation. Each attempt is recorded so the two
+ * can be heard back to back. No model calls are made.
+ */
+async function startShadowingPractice() {
+    closeDialog(sessionsOverlay);
+    if (!canRecordVoice()) {
+        showToast(t('shadowingNeedsRecording'));
+        return;
     }
+    enterChat();
+    currentSession = null;
+    chat = null;
+
+    setupSpeechRecognition();
+    await handlePermissions();
+    addMessageToChat("Let's practise shadowing. Listen to each sentence and repeat it straight after me, copying my rhythm and intonation. Then compare your recording with mine.", 'ai', true);
+    showShadowingTarget(undefined, true);
 }
 
-/** Handles speech recognition errors. */
-function handleRecognitionError(event: SpeechRecognitionErrorEvent) {
-    console.error('Speech recognition error:', event.error, event.message);
-    stopRecording();
-    
-    switch (event.error) {
-        case 'not-allowed':
-        case 'service-not-allowed':
-            showFooterError("Permission Denied", "Please allow microphone access in your browser settings.");
-            micButton.classList.add('hidden');
-            break;
-        case 'audio-capture':
-            showFooterError("No Microphone", "No microphone was found. Please ensure one is connected.");
-            micButton.classList.add('hidden');
-            break;
-        case 'no-speech':
-            // No visual error needed for this, it's not a persistent state.
-            break;
-        case 'network':
-             handleOffline();
-             break;
-        default:
-            showFooterError("Speech Error", "An unexpected error occurred. Please try again.");
+/** Picks a sentence for the learner's level, shows it and plays it, avoiding an immediate repeat. */
+function showShadowingTarget(sentence?: string, queue: boolean = false) {
+    if (!sentence) {
+        const options = PRONUNCIATION_SENTENCES[settings.level].filter(option => option !== shadowingTarget);
+        sentence = options[Math.floor(Math.random() * options.length)];
     }
+    shadowingTarget = sentence;
+
+    const card = document.createElement('div');
+    card.classList.add('chat-message', 'ai', 'pronunciation-target');
+    const label = document.createElement('strong');
+    label.textContent = t('listenThenRepeat');
+    const text = document.createElement('p');
+    text.textContent = sentence;
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const listen = document.createElement('button');
+    listen.classList.add('level-choice');
+    listen.textContent = t('listenAgain');
+    listen.addEventListener('click', () => playShadowingModel(sentence));
+    actions.appendChild(listen);
+
+    card.append(label, text, actions);
+    chatView.append(card);
+    announce(`${label.textContent} ${sentence}`);
+    playShadowingModel(sentence, queue);
 }
 
-/** Displays a specific error message in the footer. */
-function showFooterError(title: string, message: string) {
-    const titleEl = footerError.querySelector('.error-title') as HTMLElement;
-    const messageEl = footerError.querySelector('.error-message') as HTMLElement;
-    if (titleEl && messageEl) {
-        titleEl.textContent = title;
-        messageEl.textContent = message;
-    }
-    micButton.classList.add('hidden');
-    footerError.classList.remove('hidden');
+/** Says a shadowing sentence, then starts listening so the learner can repeat it at once. */
+function playShadowingModel(sentence: string, queue: boolean = false) {
+    stopRecording();
+    speak(sentence, {
+        queue,
+        onEnd: () => {
+            // Hands-free mode starts listening by itself.
+            if (shadowingTarget === sentence && !settings.handsFree) startRecording();
+        },
+    });
 }
 
-/** Checks for connected audio devices and then requests microphone permissions. */
-async function handlePermissions() {
-    if (!navigator.mediaDevices?.enumerateDevices) {
-        showFooterError("Feature Not Supported", "Your browser cannot enumerate devices.");
-        micButton.classList.add('hidden');
-        return;
+/** Scores a shadowing attempt and offers the learner's recording next to the tutor's. */
+function handleShadowingAttempt(alternatives: RecognitionAlternative[], audio: Blob | null) {
+    const target = shadowingTarget;
+    if (!target) return;
+
+    const { words, overall, heard } = scorePronunciation(target, alternatives);
+    if (!heard) return;
+
+    const attempt = document.createElement('div');
+    attempt.classList.add('chat-message', 'user', 'pronunciation-attempt');
+    const line = document.createElement('p');
+    words.forEach(({ word, status }) => line.append(createSpokenWord(word, status), ' '));
+    const detail = document.createElement('p');
+    detail.classList.add('pronunciation-detail');
+    detail.textContent = t('pronunciationScore', { score: overall, heard });
+    attempt.append(line, detail);
+    if (audio) {
+        const playback = document.createElement('div');
+        playback.classList.add('assessment-actions');
+        const mine = document.createElement('button');
+        mine.classList.add('level-choice');
+        mine.textContent = t('myVoice');
+        mine.addEventListener('click', () => playVoice(audio));
+        const compare = document.createElement('button');
+        compare.classList.add('level-choice', 'recommended');
+        compare.textContent = t('compareWithTutor');
+        compare.addEventListener('click', () => compareShadowing(target, audio));
+        playback.append(mine, compare);
+        attempt.appendChild(playback);
     }
+    chatContainer.appendChild(attempt);
+
+    const message = overall >= 80
+        ? 'Great shadowing! Compare the recordings to fine-tune your rhythm.'
+        : 'Good effort! Play both recordings back to back and listen for where yours differs, then try again.';
+    const reply = addMessageToChat(message, 'ai', true);
+
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const retry = document.createElement('button');
+    retry.classList.add('level-choice');
+    retry.textContent = t('tryAgain');
+    retry.addEventListener('click', () => showShadowingTarget(target));
+    const next = document.createElement('button');
+    next.classList.add('level-choice', 'recommended');
+    next.textContent = t('nextSentence');
+    next.addEventListener('click', () => showShadowingTarget());
+    actions.append(retry, next);
+    reply.appendChild(actions);
+    chatView.scrollToEnd();
+}
 
-    try {
-        // First, check if any audio input devices are available
-        const devices = await navigator.mediaDevices.enumerateDevices();
-        const hasMicrophone = devices.some(device => device.kind === 'audioinput');
-
-        if (!hasMicrophone) {
-             showFooterError("No Microphone Found", "Please connect a microphone and grant permission in your browser settings.");
-             micButton.classList.add('hidden');
-             return; // Stop here if no microphone is found
-        }
-        
-        // Proactively request permission. This will trigger the browser prompt if the user hasn't chosen yet.
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        
-        // We have permission, so we can stop the tracks immediately as we don't need to hold the stream open.
-        stream.getTracks().forEach(track => track.stop());
-        
-        // Ensure the mic button is visible and any previous error is hidden.
-        micButton.classList.remove('hidden');
-        footerError.classList.add('hidden');
-
-    } catch (err) {
-        console.error('Error requesting microphone permission:', err);
-        micButton.classList.add('hidden');
+/** Plays the tutor's sentence and then the learner's recording of it, back to back. */
+function compareShadowing(sentence: string, audio: Blob) {
+    stopRecording();
+    speak(sentence, { onEnd: () => playVoice(audio) });
+}
 
-        // Provide specific feedback to the user based on the error type.
-        if (err instanceof DOMException) {
-            if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-                showFooterError("Permission Denied", "You've blocked microphone access. Please enable it in your browser's site settings to continue.");
-            } else if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError') {
-                showFooterError("No Microphone", "No microphone was found. Please ensure one is connected and working.");
-            } else {
-                showFooterError("Permission Error", `An unexpected hardware error occurred: ${err.message}`);
-            }
-        } else {
-            showFooterError("Permission Error", "An unknown error occurred while trying to access the microphone.");
-        }
+/**
+ * Starts a spoken review of the notebook entries that are due today.
+ */
+async function startVocabularyReview() {
+    let due: VocabularyEntry[];
+    try {
+        due = await listDueVocabulary();
+    } catch (error) {
+        console.error("Could not load notebook:", error);
+        showToast(t('notebookUnavailable'));
+        return;
+    }
+    if (due.length === 0) {
+        showToast(t('nothingDueForReview'));
+        return;
     }
+
+    enterChat();
+    currentSession = null;
+    chat = null;
+    reviewQueue = due;
+    reviewStats = { reviewed: 0, remembered: 0 };
+
+    setupSpeechRecognition();
+    await handlePermissions();
+    const count = due.length === 1 ? '1 word' : `${due.length} words`;
+    addMessageToChat(`Time to review ${count} from your notebook. Tap the mic and say the missing word or phrase.`, 'ai', true);
+    showNextReviewCard();
 }
 
-/** Adds a message to the chat UI. */
-function addMessageToChat(text: string, sender: 'user' | 'ai', shouldSpeak: boolean = false, feedback: string = '') {
-    const messageElement = document.createElement('div');
-    messageElement.classList.add('chat-message', sender);
-    
-    const textNode = document.createTextNode(text);
-    messageElement.appendChild(textNode);
-
-    if (feedback) {
-        const feedbackElement = document.createElement('div');
-        feedbackElement.classList.add('feedback');
-        const feedbackTitle = document.createElement('strong');
-        feedbackTitle.textContent = 'Feedback:';
-        feedbackElement.appendChild(feedbackTitle);
-        feedbackElement.appendChild(document.createElement('br'));
-        const feedbackTextNode = document.createTextNode(feedback);
-        feedbackElement.appendChild(feedbackTextNode);
-        messageElement.appendChild(feedbackElement);
+/** Shows the next due entry as a fill-the-gap prompt, or wraps up the review. */
+function showNextReviewCard() {
+    const entry = reviewQueue?.[0];
+    if (!entry) {
+        reviewQueue = null;
+        addMessageToChat(`Review complete! You remembered ${reviewStats.remembered} of ${reviewStats.reviewed}.`, 'ai', true);
+        return;
     }
-    
-    chatContainer.appendChild(messageElement);
-    chatContainer.scrollTop = chatContainer.scrollHeight;
 
-    if (shouldSpeak && speechSynthesis && text) {
-        speak(text);
+    const card = document.createElement('div');
+    card.classList.add('chat-message', 'ai', 'review-card');
+    const label = document.createElement('strong');
+    const cloze = createCloze(entry);
+    label.textContent = t(cloze ? 'sayMissingWord' : 'sayAndUseWord');
+    const prompt = document.createElement('p');
+    prompt.textContent = cloze ?? entry.term;
+    card.append(label, prompt);
+    if (entry.note) {
+        const hint = document.createElement('p');
+        hint.classList.add('pronunciation-detail');
+        hint.textContent = t('reviewHint', { note: entry.note });
+        card.appendChild(hint);
     }
+
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const skip = document.createElement('button');
+    skip.classList.add('level-choice');
+    skip.textContent = t('iDontKnow');
+    skip.addEventListener('click', () => {
+        if (reviewQueue?.[0] === entry) gradeReview(entry, '', 0);
+    }, { once: true });
+    actions.appendChild(skip);
+    card.appendChild(actions);
+
+    chatView.append(card);
+    announce(`${label.textContent} ${prompt.textContent}`);
 }
 
-/** Shows or hides the "AI is thinking" indicator. */
-function showThinkingIndicator(show: boolean) {
-    let thinkingElement = document.getElementById('thinking-indicator');
-    if (show) {
-        if (!thinkingElement) {
-            thinkingElement = document.createElement('div');
-            thinkingElement.id = 'thinking-indicator';
-            thinkingElement.classList.add('chat-message', 'thinking');
-            thinkingElement.innerHTML = `<div></div><div></div><div></div>`;
-            chatContainer.appendChild(thinkingElement);
-            chatContainer.scrollTop = chatContainer.scrollHeight;
-        }
-    } else {
-        if (thinkingElement) {
-            thinkingElement.remove();
-        }
+/** Grades a spoken review answer, reschedules the entry and moves on. */
+async function gradeReview(entry: VocabularyEntry, transcript: string, confidence: number) {
+    const quality = transcript ? gradeSpokenAnswer(entry.term, transcript, confidence) : 0;
+    reviewQueue?.shift();
+    reviewStats.reviewed++;
+    if (quality >= 3) reviewStats.remembered++;
+
+    if (transcript) addMessageToChat(transcript, 'user');
+    const message = quality >= 3
+        ? `Correct: "${entry.term}".`
+        : `The answer was "${entry.term}". It will come back again soon.`;
+    addMessageToChat(message, 'ai', true);
+
+    try {
+        await saveVocabularyEntry(reviewVocabularyEntry(entry, quality));
+    } catch (error) {
+        console.error("Could not save review:", error);
     }
+    showNextReviewCard();
 }
 
-/** Populates the voice dropdown in the settings. */
-function populateVoiceList() {
-    voices = speechSynthesis.getVoices();
-    const currentVoice = voiceSelect.value;
-    voiceSelect.innerHTML = '';
-    
-    const filteredVoices = voices.filter(v => v.lang.startsWith('en-'));
-    if (filteredVoices.length === 0 && voices.length > 0) {
-        // Fallback if no english voices are explicitly listed
-        filteredVoices.push(...voices.filter(v => v.default));
+/**
+ * Starts a grammar drill on the points the learner gets wrong most often. The
+ * exercises are written by the tutor from the learner's own past mistakes.
+ */
+async function startGrammarDrill() {
+    closeDialog(sessionsOverlay);
+    let points: FrequentGrammarPoint[];
+    let mastery: GrammarMastery[];
+    try {
+        const [sessions, stored] = await Promise.all([listSessions(), listGrammarMastery()]);
+        mastery = stored;
+        points = pickDrillPoints(findFrequentGrammarPoints(sessions), mastery);
+    } catch (error) {
+        console.error("Could not load past mistakes:", error);
+        showToast(t('pastSessionsUnavailable'));
+        return;
     }
-    
-    if(filteredVoices.length === 0) {
-        voiceSelect.innerHTML = '<option>No voices available</option>';
+    if (points.length === 0) {
+        showToast(t('noGrammarMistakesYet'));
         return;
     }
-
-    filteredVoices.forEach(voice => {
-        const option = document.createElement('option');
-        option.textContent = `${voice.name} (${voice.lang})`;
-        option.value = voice.name;
-        voiceSelect.appendChild(option);
-    });
-
-    // Set default voice if not already set
-    if (!settings.voice) {
-        const defaultUSVoice = filteredVoices.find(v => v.lang === 'en-US' && v.default);
-        settings.voice = defaultUSVoice ? defaultUSVoice.name : filteredVoices[0].name;
-        saveSettings();
+    if (isTutorOffline()) {
+        showToast(t('drillsNeedInternet'));
+        return;
     }
 
-    voiceSelect.value = settings.voice || currentVoice;
+    enterChat();
+    currentSession = null;
+    chat = null;
+    // Answers are ignored until the exercises arrive; a new mode replaces this queue.
+    const queue: DrillExercise[] = [];
+    drillQueue = queue;
+    drillMastery = new Map(mastery.map(entry => [entry.point, entry]));
+    drillResults = [];
+
+    setupSpeechRecognition();
+    await handlePermissions();
+    addMessageToChat(`Let's practise ${points.map(point => point.point).join(', ')}. Listen to each exercise and answer out loud.`, 'ai', true);
+    chatView.showThinkingIndicator(true);
+    try {
+        const raw = await createChat(createDrillInstruction(points, settings.level, settings.accent, settings.tutorName), [], drillResponseSchema, { kind: 'drill', grammarPoints: points.map(({ point }) => point) })
+            .sendMessage('Write the drill.');
+        queue.push(...parseDrillExercises(raw));
+        drillChecker = createChat(createDrillCheckInstruction(settings.tutorName), [], drillCheckSchema, { kind: 'drillCheck' });
+    } catch (error) {
+        console.error("Drill generation failed:", error);
+        if (drillQueue !== queue) return;
+        drillQueue = null;
+        chatView.showThinkingIndicator(false);
+        addMessageToChat("Sorry, I couldn't write a drill right now. Please try again.", 'ai', true);
+        return;
+    }
+    if (drillQueue !== queue) return;
+    chatView.showThinkingIndicator(false);
+    showNextDrillCard();
 }
 
-
-/** Uses the Web Speech API to speak text. */
-function speak(text: string) {
-    if (speechSynthesis.speaking) {
-        speechSynthesis.cancel();
+/** Shows the next drill exercise, or the results once the drill is finished. */
+function showNextDrillCard() {
+    const exercise = drillQueue?.[0];
+    if (!exercise) {
+        drillQueue = null;
+        showDrillSummary();
+        return;
     }
-    const utterance = new SpeechSynthesisUtterance(text);
-    const selectedVoice = voices.find(v => v.name === settings.voice);
-    
-    utterance.voice = selectedVoice || voices.find(v => v.default && v.lang.startsWith('en-')) || null;
-    utterance.rate = settings.speed;
-    utterance.pitch = 1;
-    speechSynthesis.speak(utterance);
+
+    const card = document.createElement('div');
+    card.classList.add('chat-message', 'ai', 'review-card');
+    const badge = document.createElement('span');
+    badge.classList.add('category-badge', 'category-grammar');
+    badge.textContent = exercise.grammarPoint;
+    const label = document.createElement('strong');
+    label.textContent = exercise.instruction;
+    const prompt = document.createElement('p');
+    prompt.textContent = exercise.prompt;
+    card.append(badge, label, prompt);
+
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const skip = document.createElement('button');
+    skip.classList.add('level-choice');
+    skip.textContent = t('showAnswer');
+    skip.addEventListener('click', () => {
+        if (drillQueue?.[0] === exercise) checkDrillAnswer(exercise, '');
+    }, { once: true });
+    actions.appendChild(skip);
+    card.appendChild(actions);
+
+    chatView.append(card);
+    announce(`${exercise.instruction} ${exercise.prompt}`);
+    speak(`${exercise.instruction} ${exercise.prompt.replace(/_{2,}/g, 'blank')}`);
 }
 
-/** Handles the app going offline. */
-function handleOffline() {
-    offlineOverlay.classList.remove('hidden');
-    micButton.disabled = true;
-    if (isRecording) {
-        stopRecording();
-    }
+/**
+ * Has the tutor check a drill answer, records it against the grammar point and
+ * moves on. An empty answer means the learner gave up and counts as wrong.
+ */
+async function checkDrillAnswer(exercise: DrillExercise, answer: string) {
+    const queue = drillQueue;
+    queue?.shift();
+    if (answer) addMessageToChat(answer, 'user');
+
+    let check: DrillCheck = { correct: false, feedback: '', correctedAnswer: exercise.answer };
+    if (answer) {
+        chatView.showThinkingIndicator(true);
+        try {
+            if (!drillChecker) throw new Error("Drill checker not initialized");
+            check = parseDrillCheck(await drillChecker.sendMessage(formatDrillAnswer(exercise, answer), {
+                drillAnswer: { modelAnswer: exercise.answer, answer },
+            }));
+        } catch (error) {
+            console.error("Drill check failed:", error);
+            if (drillQueue !== queue) return;
+            chatView.showThinkingIndicator(false);
+            // Put the exercise back so the learner can try again.
+            queue?.unshift(exercise);
+            addMessageToChat(isTutorOffline()
+                ? "I can't check answers while you're offline. Try again when you reconnect."
+                : "Sorry, I couldn't check that answer. Please try again.", 'ai', true);
+            return;
+        }
+        if (drillQueue !== queue) return;
+        chatView.showThinkingIndicator(false);
+    }
+
+    const mastery = updateMastery(drillMastery.get(exercise.grammarPoint), exercise.grammarPoint, check.correct);
+    drillMastery.set(mastery.point, mastery);
+    drillResults.push({ point: exercise.grammarPoint, correct: check.correct });
+    try {
+        await saveGrammarMastery(mastery);
+    } catch (error) {
+        console.error("Could not save grammar mastery:", error);
+    }
+
+    const model = check.correctedAnswer || exercise.answer;
+    const message = check.correct
+        ? `✓ ${check.feedback || 'Correct!'}`
+        : `${check.feedback ? `${check.feedback} ` : ''}A correct answer is: "${model}".`;
+    addMessageToChat(message, 'ai', true);
+    showNextDrillCard();
+}
+
+/** Shows how the learner did on each grammar point in the drill, and their mastery so far. */
+function showDrillSummary() {
+    const card = document.createElement('div');
+    card.classList.add('chat-message', 'ai', 'scenario-summary');
+    const title = document.createElement('strong');
+    const right = drillResults.filter(result => result.correct).length;
+    title.textContent = t('drillComplete', { right, total: drillResults.length });
+
+    const list = document.createElement('ul');
+    list.classList.add('assessment-reasoning');
+    [...new Set(drillResults.map(result => result.point))].forEach(point => {
+        const answers = drillResults.filter(result => result.point === point);
+        const mastery = drillMastery.get(point);
+        const item = document.createElement('li');
+        const status = isMastered(mastery) ? t('mastered') : t('masteryPercent', { percent: Math.round(masteryScore(mastery) * 100) });
+        item.textContent = t('drillPointResult', { point, right: answers.filter(answer => answer.correct).length, total: answers.length, status });
+        list.appendChild(item);
+    });
+
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const again = document.createElement('button');
+    again.classList.add('level-choice', 'recommended');
+    again.textContent = t('anotherDrill');
+    again.addEventListener('click', startGrammarDrill);
+    actions.appendChild(again);
+
+    card.append(title, list, actions);
+    chatView.append(card);
+}
+
+/**
+ * Saves a word or phrase to the notebook unless it is already there.
+ */
+async function saveToNotebook(term: string, context: string, note?: string) {
+    term = term.trim();
+    if (!term) return;
+    try {
+        const existing = await listVocabulary();
+        if (existing.some(entry => entry.term.toLowerCase() === term.toLowerCase())) {
+            showToast(t('alreadyInNotebook', { term }));
+            return;
+        }
+        await saveVocabularyEntry(createVocabularyEntry(term, context.trim() || term, note));
+        showToast(t('savedToNotebook', { term }));
+    } catch (error) {
+        console.error("Could not save to notebook:", error);
+        showToast(t('notebookUnavailable'));
+    }
+}
+
+/** Shows the save button next to text the learner has selected in a chat bubble. */
+function handleChatSelection() {
+    const selection = window.getSelection();
+    const term = selection?.toString().trim() ?? '';
+    const anchor = selection?.anchorNode?.parentElement;
+    const bubble = anchor?.closest<HTMLElement>('.chat-message');
+    if (!selection || !term || term.length > 80 || !bubble || !chatContainer.contains(bubble)) {
+        saveSelectionButton.classList.add('hidden');
+        return;
+    }
+
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    saveSelectionButton.style.top = `${Math.max(rect.top - 40, 8)}px`;
+    saveSelectionButton.style.left = `${rect.left + rect.width / 2}px`;
+    saveSelectionButton.classList.remove('hidden');
+
+    // Feedback explanations are their own sentences; otherwise use the sentence of the message it came from.
+    const feedbackLine = anchor?.closest('.feedback p, .feedback li');
+    const source = feedbackLine?.textContent ?? bubble.dataset.text ?? bubble.textContent ?? '';
+    saveSelectionButton.onclick = () => {
+        saveSelectionButton.classList.add('hidden');
+        selection.removeAllRanges();
+        saveToNotebook(term, findSentence(source, term));
+    };
+}
+
+/** Returns the sentence of `text` that contains `term`, or the whole text if there isn't one. */
+function findSentence(text: string, term: string): string {
+    const sentences = text.split(/(?<=[.!?])\s+/);
+    return sentences.find(sentence => sentence.toLowerCase().includes(term.toLowerCase())) ?? text;
+}
+
+/** Renders the notebook with each entry's context and next review date. */
+async function refreshNotebook() {
+    let entries: VocabularyEntry[];
+    try {
+        entries = await listVocabulary();
+    } catch (error) {
+        console.error("Could not load notebook:", error);
+        notebookSummary.textContent = t('notebookUnavailable');
+        return;
+    }
+
+    const now = Date.now();
+    const dueCount = entries.filter(entry => entry.dueAt <= now).length;
+    notebookSummary.textContent = t('notebookCounts', { saved: entries.length, due: dueCount });
+    reviewButton.disabled = dueCount === 0;
+    notebookList.innerHTML = '';
+
+    if (entries.length === 0) {
+        notebookList.replaceChildren(createEmptyListItem(t('notebookEmpty')));
+        return;
+    }
+
+    entries.forEach(entry => {
+        const item = document.createElement('li');
+        item.classList.add('notebook-item');
+        const details = document.createElement('div');
+        const term = document.createElement('span');
+        term.classList.add('notebook-term');
+        term.textContent = entry.term;
+        const context = document.createElement('p');
+        context.classList.add('notebook-context');
+        context.textContent = entry.context;
+        const due = document.createElement('span');
+        due.classList.add('session-meta');
+        const days = Math.ceil((entry.dueAt - now) / (24 * 60 * 60 * 1000));
+        due.textContent = days <= 0 ? t('dueNow') : days === 1 ? t('nextReviewInOneDay') : t('nextReviewInDays', { days });
+        details.append(term, context, due);
+
+        const listen = document.createElement('button');
+        listen.classList.add('session-action');
+        listen.setAttribute('aria-label', t('hearWord', { word: entry.term }));
+        listen.textContent = '▶';
+        listen.addEventListener('click', () => speak(entry.term));
+
+        const remove = document.createElement('button');
+        remove.classList.add('session-action', 'danger');
+        remove.setAttribute('aria-label', t('deleteItem', { item: entry.term }));
+        remove.textContent = '×';
+        remove.addEventListener('click', async () => {
+            await deleteVocabularyEntry(entry.id);
+            refreshNotebook();
+        });
+
+        item.append(details, listen, remove);
+        notebookList.appendChild(item);
+    });
+}
+
+/** Briefly shows a status message over the app. */
+function showToast(message: string) {
+    toast.textContent = message;
+    toast.classList.remove('hidden');
+    window.clearTimeout(Number(toast.dataset.timer));
+    toast.dataset.timer = String(window.setTimeout(() => toast.classList.add('hidden'), 3000));
+}
+
+/** Reads text out to screen readers without moving focus, e.g. a new message from the tutor. */
+function announce(text: string) {
+    const line = document.createElement('p');
+    line.textContent = text;
+    announcer.appendChild(line);
+    while (announcer.children.length > MAX_ANNOUNCEMENTS) {
+        announcer.firstElementChild?.remove();
+    }
+}
+
+/**
+ * Starts the placement conversation that recommends a level after a few answers.
+ */
+async function startPlacement() {
+    enterChat();
+    currentSession = null;
+    placementTurns = [];
+
+    try {
+        chat = createPlacementChat([]);
+        setupSpeechRecognition();
+        await handlePermissions();
+        addMessageToChat(createPlacementWelcome(settings.tutorName), 'ai', true);
+    } catch (error) {
+        console.error("Placement start failed:", error);
+        showInitializationError();
+    }
+}
+
+/**
+ * Sends one placement answer to the tutor and, once enough answers are in,
+ * shows the recommended level.
+ */
+async function handlePlacementAnswer(transcript: string, inputMode: InputMode) {
+    const turns = placementTurns;
+    const userMessage = addMessageToChat(transcript, 'user');
+    chatView.showThinkingIndicator(true);
+    try {
+        if (!chat || !turns) throw new Error("Chat not initialized");
+        const { reply, corrections } = parseTutorResponse(await chat.sendMessage(formatLearnerMessage(transcript, inputMode)));
+        if (turns !== placementTurns) return;
+
+        turns.push({ userText: transcript, inputMode, aiText: reply, corrections });
+        chatView.showThinkingIndicator(false);
+        showCorrections(userMessage, transcript, corrections);
+
+        if (turns.length < PLACEMENT_TURNS) {
+            addMessageToChat(reply, 'ai', true);
+            return;
+        }
+
+        placementTurns = null;
+        const assessment = assessLevel(turns);
+        localStorage.setItem(profileStorageKey('levelCheckedAt'), String(Date.now()));
+        addMessageToChat("Thank you, that's everything I need! Here's what I noticed.", 'ai', true);
+        showAssessment(assessment);
+    } catch (error) {
+        console.error("Tutor error:", error);
+        chatView.showThinkingIndicator(false);
+        addMessageToChat("Sorry, I had trouble understanding that. Could you try again?", 'ai', true);
+    }
+}
+
+/** Shows the placement result with a button to start at each level. */
+function showAssessment(assessment: LevelAssessment) {
+    const card = document.createElement('div');
+    card.classList.add('chat-message', 'ai', 'assessment-card');
+
+    const title = document.createElement('strong');
+    title.textContent = t('recommendedLevel', { level: levelName(assessment.level) });
+    card.appendChild(title);
+
+    const scores = document.createElement('ul');
+    scores.classList.add('assessment-scores');
+    ([
+        [t('vocabularyRange'), assessment.scores.vocabularyRange],
+        [t('sentenceComplexity'), assessment.scores.sentenceComplexity],
+        [t('accuracy'), assessment.scores.accuracy],
+    ] as const).forEach(([label, score]) => {
+        const item = document.createElement('li');
+        const name = document.createElement('span');
+        name.textContent = label;
+        const bar = document.createElement('span');
+        bar.classList.add('score-bar');
+        const fill = document.createElement('span');
+        fill.style.width = `${score}%`;
+        bar.appendChild(fill);
+        const value = document.createElement('span');
+        value.textContent = String(score);
+        item.append(name, bar, value);
+        scores.appendChild(item);
+    });
+    card.appendChild(scores);
+
+    const reasoning = document.createElement('ul');
+    reasoning.classList.add('assessment-reasoning');
+    assessment.reasoning.forEach(reason => {
+        const item = document.createElement('li');
+        item.textContent = t(reason.key, reason.values);
+        reasoning.appendChild(item);
+    });
+    card.appendChild(reasoning);
+
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    (['Beginner', 'Intermediate', 'Advanced'] as const).forEach(level => {
+        const button = document.createElement('button');
+        button.classList.add('level-choice');
+        button.classList.toggle('recommended', level === assessment.level);
+        button.textContent = level === assessment.level ? t('startAtLevel', { level: levelName(level) }) : levelName(level);
+        button.addEventListener('click', () => startChatSession(level));
+        actions.appendChild(button);
+    });
+    card.appendChild(actions);
+
+    chatView.append(card);
+}
+
+/**
+ * Every few practised sessions, re-assesses the learner from their recent turns
+ * and suggests moving up or down a level if their English no longer matches it.
+ */
+async function checkLevelProgress() {
+    const lastCheckedAt = Number(localStorage.getItem(profileStorageKey('levelCheckedAt')) ?? 0);
+    const level = settings.level;
+    let sessions: PracticeSession[] | null;
+    try {
+        sessions = sessionsForLevelCheck(await listSessions(), level, lastCheckedAt);
+    } catch (error) {
+        console.error("Could not load saved sessions:", error);
+        return;
+    }
+    if (!sessions) return;
+
+    localStorage.setItem(profileStorageKey('levelCheckedAt'), String(Date.now()));
+    const assessment = assessLevel(sessions.flatMap(session => session.turns));
+    if (assessment.level === level || level !== settings.level) return;
+
+    const levels: AppSettings['level'][] = ['Beginner', 'Intermediate', 'Advanced'];
+    const direction = levels.indexOf(assessment.level) > levels.indexOf(level) ? 'up' : 'down';
+
+    const banner = document.createElement('div');
+    banner.classList.add('chat-message', 'ai', 'level-suggestion');
+    const message = document.createElement('p');
+    message.textContent = direction === 'up'
+        ? t('readyToMoveUp', { count: sessions.length, level: levelName(assessment.level) })
+        : t('moreComfortableLevel', { count: sessions.length, level: levelName(assessment.level) });
+    const reasons = document.createElement('ul');
+    reasons.classList.add('assessment-reasoning');
+    assessment.reasoning.forEach(reason => {
+        const item = document.createElement('li');
+        item.textContent = t(reason.key, reason.values);
+        reasons.appendChild(item);
+    });
+
+    const actions = document.createElement('div');
+    actions.classList.add('assessment-actions');
+    const switchButton = document.createElement('button');
+    switchButton.classList.add('level-choice', 'recommended');
+    switchButton.textContent = t('switchToLevel', { level: levelName(assessment.level) });
+    switchButton.addEventListener('click', () => startChatSession(assessment.level));
+    const stayButton = document.createElement('button');
+    stayButton.classList.add('level-choice');
+    stayButton.textContent = t('stayAtLevel', { level: levelName(level) });
+    stayButton.addEventListener('click', () => banner.remove());
+    actions.append(switchButton, stayButton);
+
+    banner.append(message, reasons, actions);
+    chatView.append(banner);
+}
+
+/**
+ * Shows the chat view and clears whatever session was on screen, switching to
+ * the given level if one is passed.
+ */
+function enterChat(level?: AppSettings['level']) {
+    if (!levelSelectionOverlay.classList.contains('hidden')) {
+        levelSelectionOverlay.classList.add('hidden');
+        composerInput.focus();
+    }
+    appContainer.classList.remove('hidden');
+
+    stopRecording();
+    speechSynthesis.cancel();
+    chatView.clear();
+    placementTurns = null;
+    pronunciationTarget = null;
+    shadowingTarget = null;
+    reviewQueue = null;
+    drillQueue = null;
+    heldBackFeedback = [];
+    showView('chat');
+
+    if (level) {
+        settings.level = level;
+        saveSettings(settings);
+        levelSelect.value = level;
+    }
+}
+
+/**
+ * Creates a chat on the backend chosen in settings, optionally seeded with earlier turns.
+ */
+function createChat(systemInstruction: string, history: ChatMessage[], responseSchema: Schema = tutorResponseSchema, task: TutorTask = { kind: 'conversation' }): TutorChat {
+    return createTutorBackend(settings).createChat({ task, systemInstruction, history, responseSchema });
+}
+
+/**
+ * Creates the chat for a session, with the prompt for its mode and its earlier turns.
+ */
+function createSessionChat(session: PracticeSession): TutorChat {
+    const scenario = getSessionScenario(session);
+    return scenario
+        ? createChat(createScenarioInstruction(scenario, session.level, settings.nativeLanguage, settings.accent, settings.strictness), buildChatHistory(session.turns), scenarioResponseSchema, { kind: 'scenario' })
+        : createChat(createTutorInstruction({ ...settings, level: session.level, tutorName: session.tutorName ?? DEFAULT_TUTOR_NAME }, session.focusWords), buildChatHistory(session.turns));
+}
+
+/** Creates the chat for the placement conversation, with the answers given so far. */
+function createPlacementChat(turns: PlacementTurn[]): TutorChat {
+    return createChat(createPlacementInstruction(settings.nativeLanguage, settings.accent, settings.tutorName), buildChatHistory(turns));
+}
+
+/**
+ * Converts stored turns back into chat history for the model.
+ */
+function buildChatHistory(turns: Pick<SessionTurn, 'userText' | 'inputMode' | 'aiText' | 'corrections'>[]): ChatMessage[] {
+    return turns.flatMap((turn): ChatMessage[] => [
+        { role: 'user', text: formatLearnerMessage(turn.userText, turn.inputMode) },
+        { role: 'model', text: serializeTutorResponse({ reply: turn.aiText, corrections: turn.corrections }) },
+    ]);
+}
+
+/**
+ * Appends a turn to a session and writes it to local storage.
+ */
+async function recordTurn(session: PracticeSession, turn: SessionTurn) {
+    session.turns.push(turn);
+    session.updatedAt = turn.timestamp;
+    if (session.title === DEFAULT_SESSION_TITLE && session.turns.length === 1) {
+        session.title = turn.userText.length > 40 ? `${turn.userText.slice(0, 40)}…` : turn.userText;
+    }
+    try {
+        await saveSession(session);
+    } catch (error) {
+        console.error("Could not save session:", error);
+    }
+}
+
+/**
+ * Sets up speech recognition for the learner's accent and hands-free setting.
+ */
+function setupSpeechRecognition() {
+    speechController.setup({ lang: settings.accent, continuous: settings.handsFree });
+}
+
+/** Shows whether hands-free mode is on. */
+function renderHandsFreeButton() {
+    handsFreeButton.classList.toggle('active', settings.handsFree);
+    handsFreeButton.setAttribute('aria-pressed', String(settings.handsFree));
+    handsFreeButton.textContent = t(settings.handsFree ? 'handsFreeOn' : 'handsFreeOff');
+}
+
+/**
+ * Turns hands-free mode on or off. When on, listening resumes by itself after the
+ * tutor speaks, a pause ends the learner's turn, and talking over the tutor cuts
+ * the reply off.
+ */
+async function setHandsFree(enabled: boolean) {
+    settings.handsFree = enabled;
+    saveSettings(settings);
+    renderHandsFreeButton();
+
+    voiceDetector?.stop();
+    voiceDetector = null;
+    if (speechController.ready) setupSpeechRecognition();
+    if (!enabled) return;
+
+    try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+            audio: { echoCancellation: true, noiseSuppression: true },
+        });
+        if (!settings.handsFree) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        voiceDetector = createVoiceActivityDetector(stream, {
+            // The tutor's voice can leak from the speakers into the mic, so be less sensitive while it plays.
+            threshold: () => (speechSynthesis.speaking ? VOICE_THRESHOLD * 2.5 : VOICE_THRESHOLD),
+            onSpeechStart: handleVoiceActivity,
+        });
+    } catch (error) {
+        // Without the level meter there is no barge-in, but auto-listening still works.
+        console.error("Voice activity detection unavailable:", error);
+    }
+    resumeListening();
+}
+
+/** Barge-in: the learner started talking, so stop the tutor and listen. */
+function handleVoiceActivity() {
+    if (!settings.handsFree) return;
+    streamingReply?.abort();
+    if (speechSynthesis.speaking || speechSynthesis.pending) {
+        speechSynthesis.cancel();
+    }
+    resumeListening();
+}
+
+/**
+ * In hands-free mode, starts listening again once the tutor is quiet and no reply is
+ * pending, or as soon as the learner has interrupted the reply.
+ */
+function resumeListening() {
+    const waiting = awaitingReply && !streamingReply?.signal.aborted;
+    if (!settings.handsFree || speechController.listening || waiting || playingVoice || !isChatVisible() || isTutorOffline()) return;
+    // Don't talk over a message the learner is typing or correcting.
+    if (composerInput.value.trim()) return;
+    if (speechSynthesis.speaking || speechSynthesis.pending) return;
+    startRecording();
+}
+
+/** Whether the conversation is on screen, rather than the dashboard, notebook or level picker. */
+function isChatVisible(): boolean {
+    return !chatContainer.classList.contains('hidden') && !appContainer.classList.contains('hidden');
+}
+
+/** Ends the learner's hands-free turn after a pause. */
+function restartSilenceTimer() {
+    window.clearTimeout(silenceTimer);
+    silenceTimer = window.setTimeout(() => {
+        if (handsFreeTranscript) stopRecording();
+    }, HANDS_FREE_SILENCE_MS);
+}
+
+/** Handles recognition stopping, which is when a hands-free turn is submitted. */
+function handleRecognitionEnd() {
+    if (!settings.handsFree) return;
+
+    window.clearTimeout(silenceTimer);
+    const alternatives = handsFreeAlternatives;
+    handsFreeTranscript = '';
+    handsFreeAlternatives = [];
+    if (alternatives.length) {
+        handleSpokenTurn(alternatives);
+    } else {
+        resumeListening();
+    }
+}
+
+/** The controls in a container that can take keyboard focus, in tab order. */
+function focusableElements(container: HTMLElement): HTMLElement[] {
+    const selector = 'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+    return Array.from(container.querySelectorAll<HTMLElement>(selector))
+        .filter(element => !element.hasAttribute('disabled') && element.getClientRects().length > 0);
+}
+
+/**
+ * Shows a modal panel and moves focus into it. A panel opened from another panel
+ * returns focus to whatever opened the first one.
+ */
+function openDialog(overlay: HTMLElement) {
+    const active = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const parent = [...dialogOpeners.keys()].find(dialog => active && dialog.contains(active));
+    dialogOpeners.set(overlay, (parent && dialogOpeners.get(parent)) || active || composerInput);
+    overlay.classList.remove('hidden');
+    focusableElements(overlay)[0]?.focus();
+}
+
+/** Hides a modal panel and, unless told not to, returns focus to what opened it. */
+function closeDialog(overlay: HTMLElement, restoreFocus: boolean = true) {
+    overlay.classList.add('hidden');
+    const opener = dialogOpeners.get(overlay);
+    dialogOpeners.delete(overlay);
+    if (restoreFocus && opener?.isConnected) opener.focus();
+}
+
+/** The modal panel that is open, if any. */
+function openDialogOverlay(): HTMLElement | undefined {
+    return [classroomOverlay, scenarioOverlay, settingsOverlay, sessionsOverlay]
+        .find(overlay => !overlay.classList.contains('hidden'));
+}
+
+/** Keeps Tab and Shift+Tab cycling through the controls of a modal panel. */
+function trapFocus(container: HTMLElement, e: KeyboardEvent) {
+    const focusable = focusableElements(container);
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const outside = !container.contains(document.activeElement);
+    if (e.shiftKey && (outside || document.activeElement === first)) {
+        e.preventDefault();
+        last.focus();
+    } else if (!e.shiftKey && (outside || document.activeElement === last)) {
+        e.preventDefault();
+        first.focus();
+    }
+}
+
+/** Whether a key press belongs to a control, such as typing in a field or pressing a button. */
+function isInteractiveTarget(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement
+        && Boolean(target.closest('input, textarea, select, button, a[href], [contenteditable="true"]'));
+}
+
+/**
+ * Sets up the keyboard shortcuts: hold Space to talk, R to replay the tutor's last
+ * message, S to replay it slowly, and Escape to close a panel or stop the tutor
+ * speaking. Tab stays inside whichever panel is open.
+ */
+function setupKeyboardShortcuts() {
+    let talkingWithSpace = false;
+    document.addEventListener('keydown', (e) => {
+        if (e.defaultPrevented) return;
+        const dialog = openDialogOverlay();
+        if (e.key === 'Escape') {
+            if (dialog) {
+                closeDialog(dialog);
+            } else {
+                speechSynthesis.cancel();
+            }
+            return;
+        }
+        if (e.key === 'Tab') {
+            const levelPickerOpen = !levelSelectionOverlay.classList.contains('hidden');
+            const modal = dialog ?? (levelPickerOpen ? levelSelectionOverlay : undefined);
+            if (modal) trapFocus(modal, e);
+            return;
+        }
+        if (dialog || e.ctrlKey || e.metaKey || e.altKey || isInteractiveTarget(e.target) || !isChatVisible()) return;
+
+        if (e.key === ' ') {
+            e.preventDefault();
+            if (e.repeat || settings.handsFree || !speechController.ready) return;
+            talkingWithSpace = true;
+            startRecording();
+        } else if (e.key.toLowerCase() === 'r') {
+            replayLastMessage();
+        } else if (e.key.toLowerCase() === 's') {
+            replayLastMessage(SLOW_REPLAY_RATES[0]);
+        }
+    });
+    document.addEventListener('keyup', (e) => {
+        if (e.key !== ' ' || !talkingWithSpace) return;
+        talkingWithSpace = false;
+        stopRecording();
+    });
+}
+
+/** Plays the tutor's last message again, at a share of the learner's chosen speed. */
+function replayLastMessage(rate: number = 1) {
+    const messages = chatContainer.querySelectorAll<HTMLElement>('.chat-message.ai .message-text');
+    const last = messages[messages.length - 1]?.closest<HTMLElement>('.chat-message');
+    if (last) replayMessage(last, rate);
+}
+
+/**
+ * Handles all event listeners for the settings modal.
+ */
+function setupSettingsEventListeners() {
+    settingsButton.addEventListener('click', () => openDialog(settingsOverlay));
+    closeSettingsButton.addEventListener('click', () => closeDialog(settingsOverlay));
+    settingsOverlay.addEventListener('click', (e) => {
+        if (e.target === settingsOverlay) {
+            closeDialog(settingsOverlay);
+        }
+    });
+
+    levelSelect.addEventListener('change', () => {
+        const newLevel = levelSelect.value as AppSettings['level'];
+        if (newLevel !== settings.level) {
+            startChatSession(newLevel);
+        }
+    });
+
+    placementButton.addEventListener('click', () => {
+        closeDialog(settingsOverlay);
+        startPlacement();
+    });
+
+    backendSelect.addEventListener('change', () => {
+        settings.backend = backendSelect.value as AppSettings['backend'];
+        settings.model = DEFAULT_MODELS[settings.backend];
+        saveSettings(settings);
+        applySettings();
+        reconnectTutor();
+    });
+
+    [modelInput, baseUrlInput, apiKeyInput].forEach(input => {
+        input.addEventListener('change', () => {
+            settings.model = modelInput.value.trim() || DEFAULT_MODELS[settings.backend];
+            settings.baseUrl = baseUrlInput.value.trim() || DEFAULT_OPENAI_BASE_URL;
+            settings.apiKey = apiKeyInput.value.trim();
+            saveSettings(settings);
+            applySettings();
+            reconnectTutor();
+        });
+    });
+
+    ACCENTS.forEach(accent => {
+        const option = document.createElement('option');
+        option.value = accent.code;
+        option.textContent = `${accent.label} (${accent.name})`;
+        accentSelect.appendChild(option);
+    });
+    accentSelect.value = settings.accent;
+    accentSelect.addEventListener('change', () => {
+        settings.accent = accentSelect.value as AppSettings['accent'];
+        // Keep the chosen voice only if it speaks the new accent.
+        if (!voicesForAccent(voices, settings.accent).some(voice => voice.name === settings.voice)) {
+            settings.voice = '';
+        }
+        saveSettings(settings);
+        populateVoiceList();
+        if (speechController.ready) setupSpeechRecognition();
+        reconnectTutor();
+    });
+
+    voiceSelect.addEventListener('change', () => {
+        settings.voice = voiceSelect.value;
+        saveSettings(settings);
+    });
+
+    speedSlider.addEventListener('input', () => {
+        settings.speed = parseFloat(speedSlider.value);
+        saveSettings(settings);
+    });
+
+    editTranscriptsToggle.addEventListener('change', () => {
+        settings.editTranscripts = editTranscriptsToggle.checked;
+        saveSettings(settings);
+    });
+
+    recordVoiceToggle.disabled = !canRecordVoice();
+    recordVoiceToggle.addEventListener('change', () => {
+        settings.recordVoice = recordVoiceToggle.checked;
+        saveSettings(settings);
+    });
+
+    LANGUAGES.forEach(language => {
+        const option = document.createElement('option');
+        option.value = language.code;
+        option.textContent = language.code === 'en' ? language.name : `${language.nativeName} (${language.name})`;
+        nativeLanguageSelect.appendChild(option);
+    });
+    nativeLanguageSelect.value = settings.nativeLanguage;
+    nativeLanguageSelect.addEventListener('change', () => {
+        settings.nativeLanguage = nativeLanguageSelect.value;
+        translations.clear();
+        saveSettings(settings);
+        applySettings();
+        // Explanations in the new language start from the tutor's next reply.
+        reconnectTutor();
+    });
+
+    (Object.keys(PERSONALITIES) as TutorPersonality[]).forEach(personality => {
+        const option = document.createElement('option');
+        option.value = personality;
+        option.textContent = t(PERSONALITIES[personality].label);
+        personalitySelect.appendChild(option);
+    });
+    (Object.keys(CORRECTION_STRICTNESS) as CorrectionStrictness[]).forEach(strictness => {
+        const option = document.createElement('option');
+        option.value = strictness;
+        option.textContent = t(CORRECTION_STRICTNESS[strictness].label);
+        strictnessSelect.appendChild(option);
+    });
+    personalitySelect.value = settings.personality;
+    strictnessSelect.value = settings.strictness;
+    [tutorNameInput, personalitySelect, strictnessSelect, topicsInput, avoidTopicsInput].forEach(input => {
+        input.addEventListener('change', updateTutorPersona);
+    });
+
+    fontSizeButtons.forEach(btn => {
+        btn.addEventListener('click', () => {
+            settings.fontSize = btn.getAttribute('data-size') as AppSettings['fontSize'];
+            saveSettings(settings);
+            applySettings();
+        });
+    });
+}
+
+/**
+ * Saves the tutor settings and applies them to the current conversation from the
+ * next reply. A renamed tutor keeps the new name for the rest of the session.
+ */
+function updateTutorPersona() {
+    settings.tutorName = normalizeTutorName(tutorNameInput.value);
+    settings.personality = personalitySelect.value as TutorPersonality;
+    settings.strictness = strictnessSelect.value as CorrectionStrictness;
+    settings.topics = parseTopicList(topicsInput.value);
+    settings.avoidTopics = parseTopicList(avoidTopicsInput.value);
+    saveSettings(settings);
+    applySettings();
+
+    if (currentSession && !currentSession.scenarioId && currentSession.tutorName !== settings.tutorName) {
+        currentSession.tutorName = settings.tutorName;
+        saveSession(currentSession).catch(error => console.error("Could not save session:", error));
+    }
+    if (settings.strictness !== 'endOfSession') revealHeldBackFeedback();
+    reconnectTutor();
+}
+
+/**
+ * Moves the current conversation, or a placement conversation in progress, onto
+ * the newly selected backend and settings, keeping its history.
+ */
+function reconnectTutor() {
+    if (!currentSession && !placementTurns) return;
+    try {
+        chat = currentSession ? createSessionChat(currentSession) : createPlacementChat(placementTurns ?? []);
+        footerError.classList.add('hidden');
+        micButton.classList.remove('hidden');
+    } catch (error) {
+        console.error("Backend switch failed:", error);
+        showInitializationError(t('checkModelSettings'));
+    }
+}
+
+/**
+ * Handles all event listeners for the past-sessions sidebar.
+ */
+function setupSessionsEventListeners() {
+    sessionsButton.addEventListener('click', openSessionsPanel);
+    closeSessionsButton.addEventListener('click', () => closeDialog(sessionsOverlay));
+    sessionsOverlay.addEventListener('click', (e) => {
+        if (e.target === sessionsOverlay) {
+            closeDialog(sessionsOverlay);
+        }
+    });
+
+    newSessionButton.addEventListener('click', () => {
+        closeDialog(sessionsOverlay);
+        startChatSession(settings.level);
+    });
+
+    scenariosButton.addEventListener('click', openScenarioPicker);
+    pronunciationButton.addEventListener('click', startPronunciationPractice);
+    drillButton.addEventListener('click', startGrammarDrill);
+    shadowingButton.addEventListener('click', startShadowingPractice);
+    importSessionButton.addEventListener('click', () => importSessionInput.click());
+    importSessionInput.addEventListener('change', () => {
+        const [file] = Array.from(importSessionInput.files ?? []);
+        importSessionInput.value = '';
+        if (file) importSessionFile(file);
+    });
+    closeScenarioButton.addEventListener('click', () => closeDialog(scenarioOverlay));
+    scenarioOverlay.addEventListener('click', (e) => {
+        if (e.target === scenarioOverlay) {
+            closeDialog(scenarioOverlay);
+        }
+    });
+}
+
+/** Opens the sidebar with a freshly loaded list of sessions. */
+async function openSessionsPanel() {
+    openDialog(sessionsOverlay);
+    await renderSessionList();
+}
+
+/** Creates the placeholder row of a list that has nothing in it. */
+function createEmptyListItem(text: string): HTMLLIElement {
+    const item = document.createElement('li');
+    item.classList.add('session-empty');
+    item.textContent = text;
+    return item;
+}
+
+/** Creates the placeholder paragraph of a panel that has nothing to show. */
+function createEmptyMessage(text: string): HTMLParagraphElement {
+    const message = document.createElement('p');
+    message.classList.add('session-empty');
+    message.textContent = text;
+    return message;
+}
+
+/** Renders the stored sessions into the sidebar list. */
+async function renderSessionList() {
+    let sessions: PracticeSession[];
+    try {
+        sessions = await listSessions();
+    } catch (error) {
+        console.error("Could not load saved sessions:", error);
+        sessionList.replaceChildren(createEmptyListItem(t('sessionsUnavailable')));
+        return;
+    }
+
+    sessionList.innerHTML = '';
+    if (sessions.length === 0) {
+        sessionList.replaceChildren(createEmptyListItem(t('noSessionsYet')));
+        return;
+    }
+
+    sessions.forEach(session => sessionList.appendChild(createSessionListItem(session)));
+}
+
+/** Builds one row of the sessions sidebar. */
+function createSessionListItem(session: PracticeSession): HTMLLIElement {
+    const item = document.createElement('li');
+    item.classList.add('session-item');
+    item.classList.toggle('active', session.id === currentSession?.id);
+
+    const openButton = document.createElement('button');
+    openButton.classList.add('session-open');
+    const title = document.createElement('span');
+    title.classList.add('session-title');
+    title.textContent = session.title;
+    const meta = document.createElement('span');
+    meta.classList.add('session-meta');
+    const turns = session.turns.length === 1 ? t('oneTurn') : t('turnCount', { count: session.turns.length });
+    const level = levelName(session.level);
+    const kind = session.assignment ? `${t('assignmentKind')} · ${level}` : session.scenarioId ? `${t('rolePlayKind')} · ${level}` : level;
+    const queued = session.queuedTurns.length ? ` · ${t('waitingToSend', { count: session.queuedTurns.length })}` : '';
+    const band = session.report ? ` · ${session.report.cefr.level}` : '';
+    meta.textContent = `${kind} · ${turns}${band}${queued} · ${new Date(session.updatedAt).toLocaleString()}`;
+    openButton.append(title, meta);
+    openButton.addEventListener('click', async () => {
+        closeDialog(sessionsOverlay);
+        if (session.id === currentSession?.id) return;
+        const stored = await getSession(session.id);
+        if (stored) resumeChatSession(stored);
+    });
+
+    const renameButton = document.createElement('button');
+    renameButton.classList.add('session-action');
+    renameButton.setAttribute('aria-label', t('renameSession'));
+    renameButton.textContent = '✎';
+    renameButton.addEventListener('click', () => beginRenameSession(item, session));
+
+    const exportButton = document.createElement('button');
+    exportButton.classList.add('session-action');
+    exportButton.setAttribute('aria-label', t('exportSession'));
+    exportButton.textContent = '⇩';
+    exportButton.addEventListener('click', () => showExportChoices(item, session));
+
+    const deleteButton = document.createElement('button');
+    deleteButton.classList.add('session-action', 'danger');
+    deleteButton.setAttribute('aria-label', t('deleteSession'));
+    deleteButton.textContent = '×';
+    deleteButton.addEventListener('click', async () => {
+        if (!confirm(t('confirmDeleteSession', { title: session.title }))) return;
+        await deleteSession(session.id);
+        deleteSessionRecordings(session.id).catch(error => console.error("Could not delete recordings:", error));
+        if (session.id === currentSession?.id) {
+            closeDialog(sessionsOverlay);
+            startChatSession(settings.level);
+            return;
+        }
+        await renderSessionList();
+    });
+
+    item.append(openButton, renameButton, exportButton, deleteButton);
+    return item;
+}
+
+/** Replaces a session list item with a choice of export formats. */
+function showExportChoices(item: HTMLLIElement, session: PracticeSession) {
+    const label = document.createElement('span');
+    label.classList.add('session-export-label');
+    label.textContent = t('exportAs');
+
+    const formats: { format: ExportFormat; label: string }[] = [
+        { format: 'markdown', label: 'Markdown' },
+        { format: 'html', label: t('printOrPdf') },
+        { format: 'json', label: 'JSON' },
+    ];
+    const buttons = formats.map(({ format, label }) => {
+        const button = document.createElement('button');
+        button.classList.add('session-export-format');
+        button.textContent = label;
+        button.addEventListener('click', () => {
+            exportSession(session, format);
+            renderSessionList();
+        });
+        return button;
+    });
+
+    const cancelButton = document.createElement('button');
+    cancelButton.classList.add('session-action');
+    cancelButton.setAttribute('aria-label', t('cancelExport'));
+    cancelButton.textContent = '×';
+    cancelButton.addEventListener('click', () => renderSessionList());
+
+    item.replaceChildren(label, ...buttons, cancelButton);
+    buttons[0].focus();
+}
+
+/** Downloads a session transcript in the chosen format. */
+function exportSession(session: PracticeSession, format: ExportFormat) {
+    const exporters: Record<ExportFormat, { content: (session: PracticeSession) => string; type: string }> = {
+        markdown: { content: exportSessionMarkdown, type: 'text/markdown' },
+        html: { content: exportSessionHtml, type: 'text/html' },
+        json: { content: exportSessionJson, type: 'application/json' },
+    };
+    const { content, type } = exporters[format];
+    downloadFile(exportFileName(session, format), content(session), type);
+}
+
+/** Saves text to the learner's device as a file. */
+function downloadFile(fileName: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Give the browser a moment to start the download before the URL goes away.
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Restores a session from a JSON export and opens it. A session that is already
+ * stored is kept, and the import is saved as a copy.
+ */
+async function importSessionFile(file: File) {
+    try {
+        const session = parseSessionExport(await file.text());
+        if (await getSession(session.id)) {
+            session.id = crypto.randomUUID();
+            session.title = t('importedTitle', { title: session.title });
+        }
+        await saveSession(session);
+        closeDialog(sessionsOverlay);
+        await resumeChatSession(session);
+        showToast(t('importedSession', { title: session.title }));
+    } catch (error) {
+        console.error("Could not import session:", error);
+        showToast(error instanceof Error ? error.message : t('sessionImportFailed'));
+    }
+}
+
+/** Swaps a session row for an inline title editor. */
+function beginRenameSession(item: HTMLLIElement, session: PracticeSession) {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.classList.add('session-rename-input');
+    input.value = session.title;
+    input.setAttribute('aria-label', t('sessionTitle'));
+    item.replaceChildren(input);
+    input.focus();
+    input.select();
+
+    let finished = false;
+    const finish = async (save: boolean) => {
+        if (finished) return;
+        finished = true;
+        const title = input.value.trim();
+        if (save && title && title !== session.title) {
+            await renameSession(session.id, title);
+            if (currentSession?.id === session.id) currentSession.title = title;
+        }
+        await renderSessionList();
+    };
+
+    input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') finish(true);
+        if (e.key === 'Escape') {
+            // Cancels the rename without also closing the panel.
+            e.preventDefault();
+            finish(false);
+        }
+    });
+    input.addEventListener('blur', () => finish(true));
+}
+
+/**
+ * Handles the chat/progress tabs and the dashboard's level filter.
+ */
+function setupDashboardEventListeners() {
+    chatTab.addEventListener('click', () => showView('chat'));
+    dashboardTab.addEventListener('click', () => showView('dashboard'));
+    notebookTab.addEventListener('click', () => showView('notebook'));
+    dashboardLevelFilter.addEventListener('change', refreshDashboard);
+    reviewButton.addEventListener('click', startVocabularyReview);
+
+    chatContainer.addEventListener('mouseup', handleChatSelection);
+    chatContainer.addEventListener('touchend', () => setTimeout(handleChatSelection, 0));
+    chatContainer.addEventListener('scroll', () => saveSelectionButton.classList.add('hidden'));
+}
+
+/** Switches the main area between the conversation, the progress dashboard and the notebook. */
+function showView(view: 'chat' | 'dashboard' | 'notebook') {
+    const views = [
+        { name: 'chat', tab: chatTab, panel: chatContainer },
+        { name: 'dashboard', tab: dashboardTab, panel: dashboardView },
+        { name: 'notebook', tab: notebookTab, panel: notebookView },
+    ];
+    views.forEach(({ name, tab, panel }) => {
+        tab.classList.toggle('active', name === view);
+        tab.setAttribute('aria-selected', String(name === view));
+        panel.classList.toggle('hidden', name !== view);
+    });
+    appFooter.classList.toggle('hidden', view !== 'chat');
+    saveSelectionButton.classList.add('hidden');
+
+    if (view !== 'chat') stopRecording();
+    if (view === 'dashboard') refreshDashboard();
+    if (view === 'notebook') refreshNotebook();
+}
+
+/** Recomputes the dashboard from stored sessions. */
+async function refreshDashboard() {
+    try {
+        const level = dashboardLevelFilter.value;
+        const [allSessions, mastery] = await Promise.all([listSessions(), listGrammarMastery()]);
+        const sessions = allSessions.filter(session => level === 'all' || session.level === level);
+        renderDashboard(dashboardContent, computeProgress(sessions), settings.tutorName, mastery);
+    } catch (error) {
+        console.error("Could not load progress:", error);
+        const unavailable = document.createElement('p');
+        unavailable.classList.add('dashboard-empty');
+        unavailable.textContent = t('progressUnavailable');
+        dashboardContent.replaceChildren(unavailable);
+    }
+}
+
+/**
+ * Handles all event listeners for the classroom panel: profiles, assignments and class results.
+ */
+function setupClassroomEventListeners() {
+    classroomButton.addEventListener('click', openClassroomPanel);
+    closeClassroomButton.addEventListener('click', () => closeDialog(classroomOverlay));
+    classroomOverlay.addEventListener('click', (e) => {
+        if (e.target === classroomOverlay) {
+            closeDialog(classroomOverlay);
+        }
+    });
+
+    SCENARIOS.forEach(scenario => {
+        const option = document.createElement('option');
+        option.value = scenario.id;
+        option.textContent = scenario.title;
+        assignmentScenarioSelect.appendChild(option);
+    });
+
+    profileSelect.addEventListener('change', () => switchProfile(profileSelect.value));
+    profileNameInput.addEventListener('change', () => {
+        const name = profileNameInput.value.trim();
+        if (!name) return;
+        updateProfile(getActiveProfile().id, { name });
+        renderClassroom();
+    });
+    profileRoleSelect.addEventListener('change', () => {
+        updateProfile(getActiveProfile().id, { role: profileRoleSelect.value as 'student' | 'teacher' });
+        renderClassroom();
+    });
+    addProfileForm.addEventListener('submit', (e) => {
+        e.preventDefault();
+        const name = newProfileInput.value.trim();
+        if (!name) return;
+        switchProfile(createProfile(name, 'student').id);
+    });
+
+    assignmentForm.addEventListener('submit', (e) => {
+        e.preventDefault();
+        createAssignmentFromForm();
+    });
+    exportAssignmentsButton.addEventListener('click', exportAssignments);
+    importAssignmentsButton.addEventListener('click', () => importAssignmentsInput.click());
+    importAssignmentsInput.addEventListener('change', () => {
+        const [file] = Array.from(importAssignmentsInput.files ?? []);
+        importAssignmentsInput.value = '';
+        if (file) importAssignmentsFile(file);
+    });
+    exportResultsButton.addEventListener('click', exportResults);
+    importResultsButton.addEventListener('click', () => importResultsInput.click());
+    importResultsInput.addEventListener('change', () => {
+        const files = Array.from(importResultsInput.files ?? []);
+        importResultsInput.value = '';
+        if (files.length) importResultsFiles(files);
+    });
+    clearResultsButton.addEventListener('click', async () => {
+        if (!confirm(t('confirmClearResults'))) return;
+        try {
+            await clearAssignmentResults();
+        } catch (error) {
+            console.error("Could not clear results:", error);
+        }
+        renderClassProgress();
+    });
+}
+
+/** Opens the classroom panel from the sessions sidebar. */
+function openClassroomPanel() {
+    openDialog(classroomOverlay);
+    closeDialog(sessionsOverlay, false);
+    renderClassroom();
+}
+
+/**
+ * Switches to another learner on this device. Settings, sessions and the notebook
+ * all belong to the profile, so the app restarts as that learner.
+ */
+function switchProfile(id: string) {
+    if (id === getActiveProfile().id) return;
+    setActiveProfile(id);
+    speechSynthesis.cancel();
+    location.reload();
+}
+
+/** Fills the classroom panel for the active profile, showing the student or teacher tools. */
+async function renderClassroom() {
+    const profile = getActiveProfile();
+    profileSelect.innerHTML = '';
+    listProfiles().forEach(({ id, name, role }) => {
+        const option = document.createElement('option');
+        option.value = id;
+        option.textContent = role === 'teacher' ? t('teacherProfile', { profile: name }) : name;
+        profileSelect.appendChild(option);
+    });
+    profileSelect.value = profile.id;
+    profileNameInput.value = profile.name;
+    profileRoleSelect.value = profile.role;
+    classroomOverlay.querySelectorAll<HTMLElement>('[data-classroom-role]').forEach(item => {
+        item.classList.toggle('hidden', item.dataset.classroomRole !== profile.role);
+    });
+
+    await renderAssignmentList();
+    if (profile.role === 'teacher') await renderClassProgress();
+}
+
+/** Lists the assignments: with start buttons and progress for students, with delete buttons for teachers. */
+async function renderAssignmentList() {
+    let assignments: Assignment[];
+    let sessions: PracticeSession[];
+    try {
+        [assignments, sessions] = await Promise.all([listAssignments(), listSessions()]);
+    } catch (error) {
+        console.error("Could not load assignments:", error);
+        assignmentList.replaceChildren(createEmptyListItem(t('assignmentsUnavailable')));
+        return;
+    }
+
+    const isTeacher = getActiveProfile().role === 'teacher';
+    assignmentList.replaceChildren();
+    if (assignments.length === 0) {
+        assignmentList.appendChild(createEmptyListItem(t(isTeacher ? 'noAssignmentsTeacher' : 'noAssignmentsStudent')));
+        return;
+    }
+
+    assignments.forEach(assignment => {
+        const item = document.createElement('li');
+        item.classList.add('assignment-item');
+        const details = document.createElement('div');
+        const title = document.createElement('span');
+        title.classList.add('session-title');
+        title.textContent = assignment.title;
+        const meta = document.createElement('span');
+        meta.classList.add('session-meta');
+        const scenario = getScenario(assignment.scenarioId);
+        const words = assignment.targetVocabulary.length ? ` · ${assignment.targetVocabulary.join(', ')}` : '';
+        meta.textContent = t('assignmentDetails', { scenario: scenario?.title ?? t('unknownScenario'), turns: assignment.minTurns }) + words;
+        details.append(title, meta);
+        item.appendChild(details);
+
+        if (isTeacher) {
+            const remove = document.createElement('button');
+            remove.classList.add('session-action');
+            remove.setAttribute('aria-label', t('deleteItem', { item: assignment.title }));
+            remove.textContent = '×';
+            remove.addEventListener('click', async () => {
+                try {
+                    await deleteAssignment(assignment.id);
+                } catch (error) {
+                    console.error("Could not delete assignment:", error);
+                }
+                renderClassroom();
+            });
+            item.appendChild(remove);
+        } else if (scenario) {
+            // The latest attempt, if any, decides whether the button starts or continues.
+            const attempt = sessions.find(session => session.assignment?.id === assignment.id);
+            const status = document.createElement('span');
+            status.classList.add('session-meta', 'assignment-status');
+            if (!attempt) {
+                status.textContent = t('notStarted');
+            } else if (isAssignmentComplete(attempt)) {
+                status.classList.add('done');
+                status.textContent = t('assignmentDone');
+            } else {
+                status.textContent = t('assignmentInProgress', { done: attempt.turns.length, min: assignment.minTurns });
+            }
+            details.appendChild(status);
+
+            const start = document.createElement('button');
+            start.classList.add('panel-action');
+            start.textContent = t(attempt && !isAssignmentComplete(attempt) ? 'continueAssignment' : 'startAssignment');
+            start.addEventListener('click', () => {
+                closeDialog(classroomOverlay);
+                if (attempt && !isAssignmentComplete(attempt)) {
+                    resumeChatSession(attempt);
+                } else {
+                    startScenarioSession(scenario, assignment);
+                }
+            });
+            item.appendChild(start);
+        }
+        assignmentList.appendChild(item);
+    });
+}
+
+/** Saves the assignment the teacher filled in. */
+async function createAssignmentFromForm() {
+    const title = assignmentTitleInput.value.trim();
+    if (!title) return;
+    const assignment: Assignment = {
+        id: crypto.randomUUID(),
+        title,
+        scenarioId: assignmentScenarioSelect.value,
+        targetVocabulary: assignmentVocabularyInput.value.split(',').map(word => word.trim()).filter(Boolean),
+        minTurns: Math.max(1, Math.round(Number(assignmentTurnsInput.value) || 1)),
+        instructions: assignmentInstructionsInput.value.trim() || undefined,
+        createdAt: Date.now(),
+    };
+    try {
+        await saveAssignment(assignment);
+        assignmentForm.reset();
+        await renderAssignmentList();
+    } catch (error) {
+        console.error("Could not save assignment:", error);
+        showToast(t('assignmentSaveFailed'));
+    }
+}
+
+/** Downloads every assignment as a file for students to import. */
+async function exportAssignments() {
+    try {
+        const assignments = await listAssignments();
+        if (assignments.length === 0) {
+            showToast(t('addAssignmentFirst'));
+            return;
+        }
+        downloadFile(classroomFileName('assignments'), exportAssignmentsJson(assignments), 'application/json');
+    } catch (error) {
+        console.error("Could not export assignments:", error);
+        showToast(t('assignmentsUnavailable'));
+    }
+}
+
+/** Adds the assignments from a teacher's file. Importing the same file again updates them. */
+async function importAssignmentsFile(file: File) {
+    try {
+        const assignments = parseAssignmentsFile(await file.text());
+        for (const assignment of assignments) await saveAssignment(assignment);
+        showToast(assignments.length === 1
+            ? t('importedAssignment', { title: assignments[0].title })
+            : t('importedAssignments', { count: assignments.length }));
+        await renderAssignmentList();
+    } catch (error) {
+        console.error("Could not import assignments:", error);
+        showToast(error instanceof Error ? error.message : t('assignmentsImportFailed'));
+    }
+}
+
+/** Downloads the student's results on every assignment they've started, for their teacher. */
+async function exportResults() {
+    const student = getActiveProfile().name;
+    try {
+        const results = (await listSessions())
+            .filter(session => session.assignment)
+            .map(session => summarizeAssignmentResult(session, student));
+        if (results.length === 0) {
+            showToast(t('startAssignmentFirst'));
+            return;
+        }
+        downloadFile(classroomFileName('results', student), exportResultsJson(student, results), 'application/json');
+    } catch (error) {
+        console.error("Could not export results:", error);
+        showToast(t('resultsUnavailable'));
+    }
+}
+
+/** Loads students' results files into the class overview. */
+async function importResultsFiles(files: File[]) {
+    let loaded = 0;
+    for (const file of files) {
+        try {
+            const results = parseResultsFile(await file.text());
+            for (const result of results) await saveAssignmentResult(result);
+            loaded++;
+        } catch (error) {
+            console.error(`Could not load ${file.name}:`, error);
+            showToast(t('fileProblem', { file: file.name, problem: error instanceof Error ? error.message : t('fileCouldNotBeLoaded') }));
+        }
+    }
+    if (loaded) showToast(loaded === 1 ? t('loadedOneResultsFile') : t('loadedResultsFiles', { count: loaded }));
+    await renderClassProgress();
+}
+
+/** Shows the teacher one row per student and one column per assignment. */
+async function renderClassProgress() {
+    let progress: ClassProgress;
+    try {
+        const [results, assignments] = await Promise.all([listAssignmentResults(), listAssignments()]);
+        progress = summarizeClass(results, assignments);
+    } catch (error) {
+        console.error("Could not load class results:", error);
+        classProgress.replaceChildren(createEmptyMessage(t('classResultsUnavailable')));
+        return;
+    }
+    if (progress.students.length === 0) {
+        classProgress.replaceChildren(createEmptyMessage(t('noClassResults')));
+        return;
+    }
+
+    const table = document.createElement('table');
+    table.classList.add('class-progress-table');
+    const head = table.createTHead().insertRow();
+    [t('student'), ...progress.assignments.map(assignment => assignment.title), t('doneColumn')].forEach(text => {
+        const cell = document.createElement('th');
+        cell.scope = 'col';
+        cell.textContent = text;
+        head.appendChild(cell);
+    });
+
+    const body = table.createTBody();
+    progress.students.forEach(student => {
+        const row = body.insertRow();
+        const name = document.createElement('th');
+        name.scope = 'row';
+        name.textContent = student.student;
+        row.appendChild(name);
+        student.results.forEach(result => {
+            const cell = row.insertCell();
+            if (!result) {
+                cell.classList.add('missing');
+                cell.textContent = '—';
+                return;
+            }
+            cell.classList.toggle('done', result.completed);
+            const vocabularyTotal = result.vocabularyUsed.length + result.vocabularyMissed.length;
+            const words = t('resultWords', { used: result.vocabularyUsed.length, total: vocabularyTotal });
+            cell.textContent = `${result.completed ? '✓' : `${result.turns}/${result.minTurns}`} · ${words}`;
+            const corrections = (Object.entries(result.corrections) as [ErrorCategory, number][])
+                .map(([category, count]) => `${count} ${t(category)}`);
+            cell.title = [
+                t('resultTurnsAndWords', { turns: result.turns, words: result.wordsSpoken }),
+                result.vocabularyMissed.length ? t('missedWords', { words: result.vocabularyMissed.join(', ') }) : t('usedEveryTargetWord'),
+                corrections.length ? t('correctionsSummary', { list: corrections.join(', ') }) : t('noCorrections'),
+                result.cefrLevel ? t('estimatedLevel', { level: result.cefrLevel }) : '',
+            ].filter(Boolean).join('\n');
+        });
+        row.insertCell().textContent = `${student.completed}/${progress.assignments.length}`;
+    });
+    classProgress.replaceChildren(table);
+}
+
+/** Toggles microphone recording. */
+function toggleRecording() {
+    speechController.toggle();
+}
+
+/** Starts speech recognition. */
+function startRecording() {
+    speechController.start();
+}
+
+/** Stops speech recognition. */
+function stopRecording() {
+    speechController.stop();
+}
+
+/** Shows whether the mic is listening, and records the learner's voice while it is. */
+function handleListeningChange(listening: boolean) {
+    micButton.classList.toggle('recording', listening);
+    micButton.setAttribute('aria-label', t(listening ? 'stopRecording' : 'startRecording'));
+    if (listening) {
+        startVoiceRecording();
+    } else {
+        stopVoiceRecording();
+    }
+}
+
+/** Records the learner's voice alongside recognition, when recordings are kept or the learner is shadowing. */
+function startVoiceRecording() {
+    recordedVoice = null;
+    if (!(settings.recordVoice || shadowingTarget) || !canRecordVoice()) return;
+    activeRecorder = startVoiceRecorder().catch(error => {
+        console.error("Could not record voice:", error);
+        return null;
+    });
+}
+
+/** Stops recording the learner's voice, keeping the audio for the turn being recognized. */
+function stopVoiceRecording() {
+    if (!activeRecorder) return;
+    const recorder = activeRecorder;
+    activeRecorder = null;
+    recordedVoice = recorder.then(active => active?.stop() ?? null);
+}
+
+/**
+ * Takes the audio of the turn the learner just spoke. A final result can arrive
+ * before recognition ends, so this stops the recorder if it is still running.
+ */
+function takeRecordedVoice(): Promise<Blob | null> {
+    stopVoiceRecording();
+    const voice = recordedVoice ?? Promise.resolve(null);
+    recordedVoice = null;
+    return voice;
+}
+
+/** Plays one of the learner's recordings, pausing listening so it isn't transcribed. */
+async function playVoice(audio: Blob) {
+    stopRecording();
+    speechSynthesis.cancel();
+    playingVoice = true;
+    try {
+        await playRecording(audio);
+    } catch (error) {
+        console.error("Could not play recording:", error);
+        showToast(t('recordingPlayFailed'));
+    } finally {
+        playingVoice = false;
+        resumeListening();
+    }
+}
+
+/** Creates the button in a learner's message that plays back their recorded voice. */
+function createRecordingButton(recordingId: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.classList.add('recording-button');
+    button.textContent = `▶ ${t('myVoice')}`;
+    button.addEventListener('click', async () => {
+        try {
+            const recording = await getRecording(recordingId);
+            if (recording) {
+                await playVoice(recording.audio);
+            } else {
+                showToast(t('recordingMissing'));
+            }
+        } catch (error) {
+            console.error("Could not load recording:", error);
+            showToast(t('recordingsUnavailable'));
+        }
+    });
+    return button;
+}
+
+/** Handles speech recognition results. */
+async function handleRecognitionResult(event: SpeechRecognitionEvent) {
+    if (settings.handsFree) {
+        collectHandsFreeResult(event);
+        return;
+    }
+    const result = event.results[event.results.length - 1];
+    await handleSpokenTurn(Array.from({ length: result.length }, (_, index) => result[index]));
+}
+
+/**
+ * Gathers everything said so far in a continuous hands-free turn. The turn is
+ * submitted when recognition ends after a pause.
+ */
+function collectHandsFreeResult(event: SpeechRecognitionEvent) {
+    const results = Array.from({ length: event.results.length }, (_, index) => event.results[index]);
+    handsFreeTranscript = results.map(result => result[0].transcript.trim()).join(' ').trim();
+    if (!handsFreeTranscript) return;
+
+    // A single utterance keeps its alternatives (for pronunciation scoring); longer turns are joined.
+    handsFreeAlternatives = results.length === 1
+        ? Array.from({ length: results[0].length }, (_, index) => results[0][index])
+        : [{ transcript: handsFreeTranscript, confidence: Math.min(...results.map(result => result[0].confidence)) }];
+    restartSilenceTimer();
+}
+
+/**
+ * Handles a recognized utterance. Pronunciation and review attempts are scored
+ * straight away; anything else goes to the composer first if the learner wants
+ * to check transcripts before they are sent.
+ * @param {RecognitionAlternative[]} alternatives - Recognition hypotheses, best first.
+ */
+async function handleSpokenTurn(alternatives: RecognitionAlternative[]) {
+    const transcript = alternatives[0]?.transcript.trim();
+    const voice = takeRecordedVoice();
+    if (settings.editTranscripts && transcript && !pronunciationTarget && !shadowingTarget && !reviewQueue?.length) {
+        // A recording only matches the message if the message is this one transcript.
+        composerVoice = composerInput.value.trim() ? null : voice;
+        composerInput.value = composerInput.value.trim() ? `${composerInput.value.trim()} ${transcript}` : transcript;
+        composerInputMode = 'spoken';
+        composerInput.focus();
+        return;
+    }
+    await handleLearnerTurn(alternatives, 'spoken', voice);
+}
+
+/** Sends the composer's text, which was either typed or is a checked transcript. */
+async function handleComposerSubmit(event: SubmitEvent) {
+    event.preventDefault();
+    const text = composerInput.value.trim();
+    if (!text || awaitingReply) return;
+    if (pronunciationTarget) {
+        showToast(t('readSentenceAloud'));
+        return;
+    }
+
+    const inputMode = composerInputMode;
+    const voice = inputMode === 'spoken' ? composerVoice : null;
+    composerInput.value = '';
+    composerInputMode = 'typed';
+    composerVoice = null;
+    await handleLearnerTurn([{ transcript: text, confidence: 1 }], inputMode, voice ?? undefined);
+}
+
+/**
+ * Sends one learner turn, spoken or typed, through whichever practice mode is active.
+ * @param {RecognitionAlternative[]} alternatives - Recognition hypotheses, best first. Typed text has just one.
+ * @param {InputMode} inputMode - How the learner produced the turn, which decides the kind of feedback.
+ * @param {Promise<Blob | null>} voice - The recording of a spoken turn, if one was made.
+ */
+async function handleLearnerTurn(alternatives: RecognitionAlternative[], inputMode: InputMode, voice: Promise<Blob | null> = Promise.resolve(null)) {
+    if (alternatives.length === 0) return;
+    turnsInFlight++;
+    awaitingReply = true;
+    try {
+        await dispatchLearnerTurn(alternatives, inputMode, voice);
+    } finally {
+        turnsInFlight--;
+        awaitingReply = turnsInFlight > 0;
+        resumeListening();
+    }
+}
+
+async function dispatchLearnerTurn(alternatives: RecognitionAlternative[], inputMode: InputMode, voice: Promise<Blob | null>) {
+    if (shadowingTarget) {
+        handleShadowingAttempt(alternatives, await voice);
+        return;
+    }
+    if (pronunciationTarget) {
+        handlePronunciationAttempt(alternatives);
+        return;
+    }
+    if (reviewQueue?.length) {
+        await gradeReview(reviewQueue[0], alternatives[0].transcript.trim(), alternatives[0].confidence);
+        return;
+    }
+    if (drillQueue) {
+        const answer = alternatives[0].transcript.trim();
+        if (drillQueue.length && answer) await checkDrillAnswer(drillQueue[0], answer);
+        return;
+    }
+
+    const transcript = alternatives[0].transcript.trim();
+    if (!transcript) return;
+    if (placementTurns) {
+        if (isTutorOffline()) {
+            showToast(t('placementNeedsInternet'));
+            return;
+        }
+        await handlePlacementAnswer(transcript, inputMode);
+    } else {
+        const recordingId = await keepRecordedVoice(voice, currentSession, transcript);
+        const turn: QueuedTurn = { userText: transcript, inputMode, timestamp: Date.now(), recordingId };
+        if (isTutorOffline() && currentSession) {
+            await queueTurn(currentSession, turn);
+        } else {
+            await sendConversationTurn(currentSession, chat, turn);
+        }
+    }
+}
+
+/**
+ * Stores the audio of a spoken conversation turn, if the learner keeps recordings.
+ * @returns The recording's id, or `undefined` if nothing was kept.
+ */
+async function keepRecordedVoice(voice: Promise<Blob | null>, session: PracticeSession | null, text: string): Promise<string | undefined> {
+    const audio = await voice;
+    if (!audio || !session || !settings.recordVoice) return undefined;
+    const recording: VoiceRecording = { id: crypto.randomUUID(), sessionId: session.id, text, audio, createdAt: Date.now() };
+    try {
+        await saveRecording(recording);
+        return recording.id;
+    } catch (error) {
+        console.error("Could not save recording:", error);
+        return undefined;
+    }
+}
+
+/**
+ * Sends one conversation turn to the tutor, records it with the reply, and shows
+ * both if the session is still on screen.
+ * @returns {Promise<boolean>} Whether the tutor answered.
+ */
+async function sendConversationTurn(session: PracticeSession | null, activeChat: TutorChat | null, turn: QueuedTurn): Promise<boolean> {
+    // The learner may switch sessions while the reply is in flight.
+    const isCurrent = () => session !== null && session === currentSession;
+    const userMessage = isCurrent() ? addMessageToChat(turn.userText, 'user') : null;
+    if (isCurrent()) chatView.showThinkingIndicator(true);
+    let aiMessage: HTMLElement | null = null;
+    try {
+        if (!activeChat || !session) throw new Error("Chat not initialized");
+        const streamed = await streamTutorReply(activeChat, formatLearnerMessage(turn.userText, turn.inputMode), isCurrent);
+        if (!streamed) {
+            // The learner talked over the reply, so the exchange isn't kept and their next turn carries on.
+            if (isCurrent()) chatView.showThinkingIndicator(false);
+            return false;
+        }
+        aiMessage = streamed.messageElement;
+        const { reply, corrections, goalMet } = streamed.response;
+
+        const scenario = getSessionScenario(session);
+        const justCompleted = Boolean(scenario && goalMet && !session.completedAt);
+        if (justCompleted) session.completedAt = Date.now();
+
+        const sessionTurn: SessionTurn = {
+            userText: turn.userText,
+            inputMode: turn.inputMode,
+            aiText: reply,
+            corrections,
+            timestamp: turn.timestamp,
+            recordingId: turn.recordingId,
+        };
+        await recordTurn(session, sessionTurn);
+
+        if (!isCurrent() || !userMessage) return true;
+        chatView.showThinkingIndicator(false);
+        // Corrections are held back until the whole reply has arrived.
+        presentTurnFeedback(session, userMessage, sessionTurn);
+        if (!aiMessage) addMessageToChat(reply, 'ai', true);
+        if (scenario) {
+            updateScenarioBrief(scenario, session);
+            if (justCompleted) showScenarioSummary(scenario, session);
+        }
+        return true;
+    } catch (error) {
+        console.error("Tutor error:", error);
+        if (!isCurrent()) return false;
+        chatView.showThinkingIndicator(false);
+        aiMessage?.remove();
+        addMessageToChat("Sorry, I had trouble understanding that. Could you try again?", 'ai', true);
+        return false;
+    }
+}
+
+/** Whether the tutor can't be reached right now because the device is offline. */
+function isTutorOffline(): boolean {
+    return !navigator.onLine && requiresNetwork(settings);
+}
+
+/** Holds a turn made while offline until the tutor can be reached again. */
+async function queueTurn(session: PracticeSession, turn: QueuedTurn) {
+    session.queuedTurns.push(turn);
+    session.updatedAt = turn.timestamp;
+    addQueuedMessage(turn.userText);
+    try {
+        await saveSession(session);
+    } catch (error) {
+        console.error("Could not save session:", error);
+    }
+}
+
+/** Shows a learner message that is waiting to be sent. */
+function addQueuedMessage(text: string) {
+    const messageElement = addMessageToChat(text, 'user');
+    messageElement.classList.add('queued');
+}
+
+/**
+ * Sends every turn queued while offline, session by session and in the order they
+ * were made. Stops at the first failure and leaves the rest queued for next time.
+ */
+async function flushQueuedTurns() {
+    if (flushingQueue || isTutorOffline()) return;
+    flushingQueue = true;
+    awaitingReply = true;
+    try {
+        const queued = (await listSessions()).filter(session => session.queuedTurns.length);
+        for (const stored of queued) {
+            // Use the live session object when it's on screen, so its replies are shown.
+            const session = stored.id === currentSession?.id ? currentSession : stored;
+            const activeChat = session === currentSession ? chat : createSessionChat(session);
+            if (session === currentSession) {
+                chatContainer.querySelectorAll('.chat-message.queued').forEach(message => message.remove());
+            }
+
+            while (session.queuedTurns.length) {
+                const turn = session.queuedTurns.shift() as QueuedTurn;
+                if (!await sendConversationTurn(session, activeChat, turn)) {
+                    session.queuedTurns.unshift(turn);
+                    await saveSession(session);
+                    if (session === currentSession) session.queuedTurns.forEach(pending => addQueuedMessage(pending.userText));
+                    return;
+                }
+            }
+        }
+    } catch (error) {
+        console.error("Could not send queued messages:", error);
+    } finally {
+        flushingQueue = false;
+        awaitingReply = false;
+        resumeListening();
+    }
+}
+
+/**
+ * Streams the tutor's reply, rendering the conversational part as it arrives and
+ * queueing each finished sentence for speech. Returns the parsed response once
+ * the stream ends, together with the bubble it was rendered into (if any), or
+ * `null` if the learner talked over it and it was cut off.
+ */
+async function streamTutorReply(activeChat: TutorChat, message: string, isCurrent: () => boolean) {
+    let raw = '';
+    let spokenUpTo = 0;
+    let messageElement: HTMLElement | null = null;
+    // Each chat answers one message at a time, so an interrupted reply winds down before the next is sent.
+    const previousReply = chatReplies.get(activeChat);
+    let finishReply = () => {};
+    chatReplies.set(activeChat, new Promise(resolve => { finishReply = resolve; }));
+    await previousReply;
+    const controller = new AbortController();
+    streamingReply = controller;
+
+    try {
+        for await (const chunk of activeChat.sendMessageStream(message, controller.signal)) {
+            raw += chunk;
+            // Keep reading even when the session has changed, so the chat history stays complete.
+            if (!isCurrent()) continue;
+
+            const reply = extractStreamingReply(raw);
+            if (!reply) continue;
+            if (!messageElement) {
+                chatView.showThinkingIndicator(false);
+                messageElement = addMessageToChat('', 'ai');
+            }
+            chatView.setMessageText(messageElement, reply);
+            if (controller.signal.aborted) continue;
+
+            const { sentences, nextIndex } = takeCompleteSentences(reply, spokenUpTo);
+            const element = messageElement;
+            let position = spokenUpTo;
+            sentences.forEach((sentence, index) => {
+                const offset = reply.indexOf(sentence, position);
+                position = offset + sentence.length;
+                speak(sentence, { queue: spokenUpTo > 0 || index > 0, highlight: { element, offset } });
+            });
+            spokenUpTo = nextIndex;
+        }
+    } catch (error) {
+        if (!controller.signal.aborted) throw error;
+        messageElement?.classList.add('interrupted');
+        return null;
+    } finally {
+        if (streamingReply === controller) streamingReply = null;
+        finishReply();
+    }
+
+    const response = parseTutorResponse(raw);
+    if (messageElement && isCurrent()) {
+        chatView.setMessageText(messageElement, response.reply);
+        announce(response.reply);
+        const rest = response.reply.slice(spokenUpTo).trim();
+        const offset = response.reply.indexOf(rest, spokenUpTo);
+        if (rest && !controller.signal.aborted) speak(rest, { queue: spokenUpTo > 0, highlight: { element: messageElement, offset } });
+    }
+    return { response, messageElement };
+}
+
+/** Tells the learner why they can't talk right now. */
+function showSpeechProblem(problem: SpeechProblem) {
+    const message = t(problem.message, { details: problem.details ?? '' });
+    if (problem.persistent) {
+        showFooterError(t(problem.title), message);
+    } else {
+        showToast(message);
+    }
+}
+
+/**
+ * Explains why the tutor couldn't be reached: no Gemini API key has been entered
+ * yet, or the provider didn't accept the settings.
+ */
+function showInitializationError(message: string = t('checkApiKey')) {
+    if (isMissingApiKey(settings)) {
+        showFooterError(t('apiKeyNeeded'), t('apiKeyNeededMessage'));
+        return;
+    }
+    showFooterError(t('initializationFailed'), message);
+}
+
+/** Displays a specific error message in the footer. */
+function showFooterError(title: string, message: string) {
+    const titleEl = footerError.querySelector('.error-title') as HTMLElement;
+    const messageEl = footerError.querySelector('.error-message') as HTMLElement;
+    if (titleEl && messageEl) {
+        titleEl.textContent = title;
+        messageEl.textContent = message;
+    }
+    micButton.classList.add('hidden');
+    footerError.classList.remove('hidden');
+}
+
+/** Checks for connected audio devices and then requests microphone permissions. */
+async function handlePermissions() {
+    // Without speech recognition the microphone is never used, so don't ask for it.
+    if (!speechController.supported) return;
+    const problem = await checkMicrophoneAccess();
+    if (problem) {
+        showSpeechProblem(problem);
+        return;
+    }
+    // Ensure the mic button is visible and any previous error is hidden.
+    micButton.classList.remove('hidden');
+    footerError.classList.add('hidden');
+}
+
+/** Adds a message to the chat UI. */
+function addMessageToChat(text: string, sender: 'user' | 'ai', shouldSpeak: boolean = false, feedback: string = ''): HTMLElement {
+    const messageElement = chatView.addMessage(text, sender, feedback);
+    if (sender === 'ai' && text) announce(text);
+
+    if (shouldSpeak && speechSynthesis && text) {
+        speak(text, { highlight: sender === 'ai' ? { element: messageElement, offset: 0 } : undefined });
+    }
+    return messageElement;
+}
+
+/** Adds the replay buttons, and a translate button for learners whose native language isn't English, to one of the tutor's messages. */
+function decorateTutorMessage(messageElement: HTMLElement) {
+    messageElement.appendChild(createAudioControls(messageElement));
+    if (settings.nativeLanguage !== 'en') {
+        messageElement.appendChild(createTranslateButton(messageElement));
+    }
+}
+
+/** Creates the replay and slow-replay buttons under one of the tutor's messages. */
+function createAudioControls(messageElement: HTMLElement): HTMLElement {
+    const controls = document.createElement('div');
+    controls.classList.add('audio-controls');
+    const replay = document.createElement('button');
+    replay.textContent = t('replay');
+    replay.addEventListener('click', () => replayMessage(messageElement));
+    controls.appendChild(replay);
+    SLOW_REPLAY_RATES.forEach(rate => {
+        const slow = document.createElement('button');
+        slow.textContent = `${rate}×`;
+        slow.setAttribute('aria-label', `${t('playAt')} ${rate}×`);
+        slow.addEventListener('click', () => replayMessage(messageElement, rate));
+        controls.appendChild(slow);
+    });
+    return controls;
+}
+
+/** Plays one of the tutor's messages again, at a share of the learner's chosen speed. */
+function replayMessage(messageElement: HTMLElement, rate: number = 1) {
+    const text = messageElement.dataset.text;
+    if (text) speak(text, { rate: settings.speed * rate, highlight: { element: messageElement, offset: 0 } });
+}
+
+/**
+ * Highlights the tutor's corrections inline in the learner's message bubble and
+ * lists their explanations underneath.
+ */
+function showCorrections(messageElement: HTMLElement, text: string, corrections: Correction[]) {
+    if (corrections.length === 0) return;
+
+    markCorrections(messageElement, text, corrections);
+
+    const feedbackElement = document.createElement('div');
+    feedbackElement.classList.add('feedback');
+    const feedbackTitle = document.createElement('strong');
+    feedbackTitle.textContent = t('feedback');
+    feedbackElement.appendChild(feedbackTitle);
+
+    const list = document.createElement('ul');
+    list.classList.add('correction-list');
+    corrections.forEach(correction => {
+        const item = document.createElement('li');
+        const badge = document.createElement('span');
+        if (correction.variant) {
+            badge.classList.add('category-badge', 'variant');
+            badge.textContent = t('otherVariety');
+        } else {
+            badge.classList.add('category-badge', `category-${correction.category}`);
+            badge.textContent = t(correction.category);
+        }
+        const change = document.createElement('span');
+        change.classList.add('correction-change');
+        change.textContent = `${correction.original} → ${correction.corrected}`;
+        const save = document.createElement('button');
+        save.classList.add('save-correction');
+        save.textContent = t('save');
+        save.setAttribute('aria-label', t('saveTermToNotebook', { term: correction.corrected }));
+        save.addEventListener('click', () => saveToNotebook(
+            correction.corrected,
+            applyCorrection(text, correction),
+            correction.explanation,
+        ));
+        item.append(badge, change, save);
+        if (correction.explanation) {
+            const explanation = document.createElement('p');
+            explanation.textContent = correction.explanation;
+            item.appendChild(explanation);
+        }
+        if (correction.translatedExplanation) {
+            const translated = document.createElement('p');
+            translated.classList.add('translated-explanation');
+            translated.lang = settings.nativeLanguage;
+            translated.dir = 'auto';
+            translated.textContent = correction.translatedExplanation;
+            item.appendChild(translated);
+        }
+        list.appendChild(item);
+    });
+    feedbackElement.appendChild(list);
+    messageElement.appendChild(feedbackElement);
+    announce(`${t('feedback')}: ${corrections.map(correction => `${correction.original} → ${correction.corrected}`).join('; ')}`);
+}
+
+/**
+ * Shows the corrections for one of the learner's messages, or keeps them until the
+ * session ends if that's how the learner wants feedback. A recording of the
+ * message is playable either way.
+ */
+function presentTurnFeedback(session: PracticeSession, messageElement: HTMLElement, turn: SessionTurn) {
+    if (settings.strictness === 'endOfSession' && !session.report) {
+        if (turn.corrections.length) heldBackFeedback.push({ messageElement, turn });
+        if (turn.recordingId) messageElement.appendChild(createRecordingButton(turn.recordingId));
+        return;
+    }
+    showTurnFeedback(messageElement, turn);
+}
+
+function showTurnFeedback(messageElement: HTMLElement, turn: SessionTurn) {
+    showCorrections(messageElement, turn.userText, turn.corrections);
+    if (turn.recordingId) messageElement.appendChild(createRecordingButton(turn.recordingId));
+}
+
+/**
+ * Shows every correction held back in the session on screen.
+ * @returns How many of them were mistakes, rather than notes about other varieties of English.
+ */
+function revealHeldBackFeedback(): number {
+    const held = heldBackFeedback;
+    heldBackFeedback = [];
+    held.forEach(({ messageElement, turn }) => showTurnFeedback(messageElement, turn));
+    return held.reduce((count, { turn }) => count + turn.corrections.filter(isMistake).length, 0);
+}
+
+/**
+ * Creates the button under one of the tutor's messages that shows it in the learner's
+ * native language. Translations are fetched once and then toggled.
+ */
+function createTranslateButton(messageElement: HTMLElement): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.classList.add('translate-button');
+    button.textContent = t('translate');
+    button.addEventListener('click', async () => {
+        const shown = messageElement.querySelector('.message-translation');
+        if (shown) {
+            shown.remove();
+            button.textContent = t('translate');
+            return;
+        }
+        const text = messageElement.dataset.text ?? '';
+        if (!text) return;
+
+        button.disabled = true;
+        button.textContent = t('translating');
+        try {
+            const translation = await translateMessage(text);
+            const element = document.createElement('p');
+            element.classList.add('message-translation');
+            element.lang = settings.nativeLanguage;
+            element.dir = 'auto';
+            element.textContent = translation;
+            button.after(element);
+            button.textContent = t('hideTranslation');
+        } catch (error) {
+            console.error("Translation failed:", error);
+            button.textContent = t('translate');
+            showToast(isTutorOffline()
+                ? t('translationsNeedInternet')
+                : t('translationFailed'));
+        } finally {
+            button.disabled = false;
+        }
+    });
+    return button;
+}
+
+/** Translates one of the tutor's messages into the learner's native language. */
+async function translateMessage(text: string): Promise<string> {
+    const key = `${settings.nativeLanguage}:${text}`;
+    const cached = translations.get(key);
+    if (cached) return cached;
+
+    const language = getLanguage(settings.nativeLanguage);
+    const translator = createChat(createTranslationInstruction(language), [], translationResponseSchema, { kind: 'translation' });
+    const translation = parseTranslation(await translator.sendMessage(text));
+    translations.set(key, translation);
+    return translation;
+}
+
+/** Returns the learner's sentence with one correction applied. */
+function applyCorrection(text: string, correction: Correction): string {
+    const index = text.toLowerCase().indexOf(correction.original.toLowerCase());
+    if (index === -1) return correction.corrected;
+    return `${text.slice(0, index)}${correction.corrected}${text.slice(index + correction.original.length)}`;
+}
+
+/** Populates the voice dropdown in the settings. */
+function populateVoiceList() {
+    voices = speechSynthesis.getVoices();
+    const currentVoice = voiceSelect.value;
+    voiceSelect.innerHTML = '';
+    
+    const filteredVoices = voicesForAccent(voices, settings.accent);
+    if (filteredVoices.length === 0 && voices.length > 0) {
+        // Fallback if no english voices are explicitly listed
+        filteredVoices.push(...voices.filter(v => v.default));
+    }
+    
+    if(filteredVoices.length === 0) {
+        const none = document.createElement('option');
+        none.textContent = t('noVoices');
+        voiceSelect.replaceChildren(none);
+        return;
+    }
+
+    filteredVoices.forEach(voice => {
+        const option = document.createElement('option');
+        option.textContent = `${voice.name} (${voice.lang})`;
+        option.value = voice.name;
+        voiceSelect.appendChild(option);
+    });
+
+    // Set default voice if not already set
+    if (!settings.voice) {
+        settings.voice = (defaultVoiceForAccent(voices, settings.accent) ?? filteredVoices[0]).name;
+        saveSettings(settings);
+    }
+
+    voiceSelect.value = settings.voice || currentVoice;
+}
+
+
+/** How `speak` plays a piece of text. */
+interface SpeakOptions {
+    /** Play after whatever is already playing instead of cutting it off (used for streamed sentences). */
+    queue?: boolean;
+    rate?: number;
+    /** A message whose words light up as they are spoken, and where `text` starts in it. */
+    highlight?: { element: HTMLElement; offset: number };
+    /** Called when the text has been spoken to the end, but not if it was cut off. */
+    onEnd?: () => void;
+}
+
+/**
+ * Uses the Web Speech API to speak text. By default anything already playing is
+ * cut off, at the learner's chosen speed.
+ */
+function speak(text: string, { queue = false, rate = settings.speed, highlight, onEnd }: SpeakOptions = {}) {
+    // In hands-free mode, stop listening while the tutor talks so its own voice isn't transcribed.
+    if (settings.handsFree && !handsFreeTranscript) {
+        stopRecording();
+    }
+    speakText(speechSynthesis, text, {
+        voice: voices.find(v => v.name === settings.voice) || defaultVoiceForAccent(voices, settings.accent) || null,
+        lang: settings.accent,
+        rate,
+        queue,
+        onWord: highlight ? charIndex => highlightSpokenWord(highlight.element, highlight.offset + charIndex) : undefined,
+        onEnd,
+        onFinish: () => {
+            if (highlight) highlightSpokenWord(highlight.element, null);
+            resumeListening();
+        },
+    });
+}
+
+/**
+ * Handles the app going offline. Everything stored locally keeps working, and
+ * conversation turns are queued until the connection returns.
+ */
+function handleOffline() {
+    offlineBanner.classList.remove('hidden');
 }
 
-/** Handles the app coming back online. */
+/** Handles the app coming back online and sends any turns queued meanwhile. */
 function handleOnline() {
-    offlineOverlay.classList.add('hidden');
-    micButton.disabled = false;
+    offlineBanner.classList.add('hidden');
     // Re-check permissions in case they were affected or this is the first time online with the app.
     if(chat) {
         handlePermissions();
     }
+    flushQueuedTurns();
 }
 
 
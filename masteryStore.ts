@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { MASTERY_STORE, withStore } from './db';
+import type { GrammarMastery } from './types';
+
+/** Inserts or updates the learner's mastery of a grammar point. */
+export async function saveGrammarMastery(mastery: GrammarMastery): Promise<void> {
+    await withStore(MASTERY_STORE, 'readwrite', store => store.put(mastery));
+}
+
+/** Lists every grammar point the learner has drilled, most recently practised first. */
+export async function listGrammarMastery(): Promise<GrammarMastery[]> {
+    const entries = await withStore<GrammarMastery[]>(MASTERY_STORE, 'readonly', store => store.getAll());
+    return entries.sort((a, b) => b.lastPracticedAt - a.lastPracticedAt);
+}
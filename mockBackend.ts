@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Correction } from './types';
+import { parseLearnerMessage } from './feedback';
+import type { MessageDetails, TutorBackend, TutorChat, TutorChatOptions } from './tutorBackend';
+
+/** The replies the mock tutor cycles through, in order. */
+const SCRIPT = [
+    "That's interesting! Can you tell me more about it?",
+    'I see. How did that make you feel?',
+    'Great answer. What do you usually do at the weekend?',
+    "That sounds fun! What's something you'd like to get better at this year?",
+    'Thanks for sharing. Is there anything else you want to talk about?',
+];
+
+/** Common learner mistakes the mock recognizes, so corrections can be exercised offline. */
+const RULES: { pattern: RegExp; corrected: (match: string) => string; category: Correction['category']; explanation: string; grammarPoint?: string; typedOnly?: boolean }[] = [
+    {
+        pattern: /\bi\b/,
+        corrected: () => 'I',
+        category: 'spelling',
+        explanation: 'The pronoun "I" is always written with a capital letter.',
+        typedOnly: true,
+    },
+    {
+        pattern: /\brecieve\b/i,
+        corrected: () => 'receive',
+        category: 'spelling',
+        explanation: '"I before E, except after C": it is spelled "receive".',
+        typedOnly: true,
+    },
+    {
+        pattern: /\bgoed\b/i,
+        corrected: () => 'went',
+        category: 'grammar',
+        explanation: '"Go" is irregular; its past tense is "went".',
+        grammarPoint: 'past simple',
+    },
+    {
+        pattern: /\ba (?=[aeiou])/i,
+        corrected: () => 'an ',
+        category: 'grammar',
+        explanation: 'Use "an" before a vowel sound.',
+        grammarPoint: 'articles',
+    },
+    {
+        pattern: /\b(he|she|it) (don't)\b/i,
+        corrected: match => match.replace(/don't/i, "doesn't"),
+        category: 'grammar',
+        explanation: 'Use "doesn\'t" with he, she and it.',
+        grammarPoint: 'subject-verb agreement',
+    },
+    {
+        pattern: /\bvery much (like|love)\b/i,
+        corrected: match => `really ${match.split(' ')[2]}`,
+        category: 'fluency',
+        explanation: '"I really like" sounds more natural than "I very much like".',
+    },
+];
+
+/** How many learner turns the mock waits before saying a scenario's goal is met. */
+const MOCK_GOAL_TURNS = 4;
+
+/** The end-of-session report the mock gives for any transcript. */
+const MOCK_REPORT = {
+    strengths: ['You kept the conversation going with full sentences.', 'You answered every question clearly.'],
+    focusAreas: [
+        { area: 'Past tense', advice: 'Practise irregular past forms such as "went" and "saw".' },
+        { area: 'Articles', advice: 'Use "an" before vowel sounds, as in "an apple".' },
+        { area: 'Longer answers', advice: 'Add a reason or an example to each answer.' },
+    ],
+    newVocabulary: [],
+    cefrLevel: 'B1',
+    cefrEvidence: ['You described your own experiences in simple connected sentences.'],
+};
+
+/** The exercises the mock puts in every drill, once per grammar point asked for. */
+const MOCK_DRILL = [
+    { type: 'gap', instruction: 'Say the missing word.', prompt: 'Yesterday I _____ (go) to the park.', answer: 'went' },
+    { type: 'transform', instruction: 'Say this sentence in the past.', prompt: "She doesn't like coffee.", answer: "She didn't like coffee." },
+    { type: 'structure', instruction: 'Answer using "I have never…".', prompt: 'Have you ever been to Japan?', answer: 'I have never been to Japan.' },
+];
+
+/** Normalizes an answer for the mock's drill checks. */
+function normalizeAnswer(text: string): string {
+    return text.toLowerCase().replace(/[^a-z'\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * A deterministic, offline tutor for development and testing. It never calls the
+ * network: replies come from a fixed script and corrections from simple rules.
+ */
+export function createMockBackend(): TutorBackend {
+    return {
+        createChat(options: TutorChatOptions): TutorChat {
+            let turn = options.history.filter(message => message.role === 'user').length;
+            const { task } = options;
+
+            const respond = (message: string, details: MessageDetails = {}) => {
+                switch (task.kind) {
+                    case 'report':
+                        return JSON.stringify(MOCK_REPORT);
+                    case 'translation':
+                        return JSON.stringify({ translation: `[translated] ${message}` });
+                    case 'drill':
+                        return JSON.stringify({
+                            exercises: task.grammarPoints.flatMap(grammarPoint => MOCK_DRILL.map(exercise => ({ ...exercise, grammarPoint }))),
+                        });
+                    case 'drillCheck': {
+                        const { modelAnswer = '', answer = '' } = details.drillAnswer ?? {};
+                        const expected = normalizeAnswer(modelAnswer);
+                        const correct = Boolean(expected) && normalizeAnswer(answer).includes(expected);
+                        return JSON.stringify({
+                            correct,
+                            feedback: correct ? 'Well done!' : `Not quite. You could say: "${modelAnswer}"`,
+                            correctedAnswer: correct ? answer : modelAnswer,
+                        });
+                    }
+                }
+                turn++;
+                const { text, inputMode } = parseLearnerMessage(message);
+                const corrections = RULES.flatMap(rule => {
+                    if (rule.typedOnly && inputMode !== 'typed') return [];
+                    const match = text.match(rule.pattern);
+                    return match ? [{
+                        original: match[0].trim(),
+                        corrected: rule.corrected(match[0]).trim(),
+                        category: rule.category,
+                        explanation: rule.explanation,
+                        grammarPoint: rule.grammarPoint,
+                    }] : [];
+                });
+                const response: Record<string, unknown> = {
+                    reply: SCRIPT[(turn - 1) % SCRIPT.length],
+                    corrections,
+                };
+                if (task.kind === 'scenario') response.goalMet = turn >= MOCK_GOAL_TURNS;
+                return JSON.stringify(response);
+            };
+
+            return {
+                async sendMessage(message: string, details?: MessageDetails) {
+                    return respond(message, details);
+                },
+                async *sendMessageStream(message: string, signal?: AbortSignal) {
+                    const text = respond(message);
+                    // Yield small pieces so the streaming path is exercised too.
+                    for (let i = 0; i < text.length; i += 16) {
+                        await new Promise(resolve => setTimeout(resolve, 20));
+                        signal?.throwIfAborted();
+                        yield text.slice(i, i + 16);
+                    }
+                },
+            };
+        },
+    };
+}
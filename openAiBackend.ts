@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Schema } from '@google/genai';
+import type { TutorBackend, TutorChat, TutorChatOptions } from './tutorBackend';
+
+export interface OpenAiBackendConfig {
+    /** e.g. `http://localhost:11434/v1` for Ollama or `http://localhost:8080/v1` for llama.cpp. */
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+}
+
+interface OpenAiMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Converts a Gemini schema (upper-case type names) into standard JSON Schema.
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    if (schema.type) result.type = schema.type.toLowerCase();
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        result.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+        result.additionalProperties = false;
+    }
+    if (schema.required) result.required = schema.required;
+    return result;
+}
+
+/**
+ * Reads the text added by one server-sent event of a streamed reply. Some servers
+ * and proxies send keep-alive or other non-JSON lines; those add nothing.
+ */
+export function readStreamDelta(payload: string): string {
+    try {
+        return JSON.parse(payload).choices?.[0]?.delta?.content ?? '';
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Talks to any server that implements the OpenAI chat-completions API, such as
+ * Ollama, llama.cpp's server, LM Studio or vLLM.
+ */
+export function createOpenAiBackend(config: OpenAiBackendConfig): TutorBackend {
+    const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    return {
+        createChat(options: TutorChatOptions): TutorChat {
+            const messages: OpenAiMessage[] = [
+                { role: 'system', content: options.systemInstruction },
+                ...options.history.map(message => ({
+                    role: message.role === 'model' ? 'assistant' as const : 'user' as const,
+                    content: message.text,
+                })),
+            ];
+            const responseFormat = {
+                type: 'json_schema',
+                json_schema: { name: 'tutor_response', schema: toJsonSchema(options.responseSchema) },
+            };
+
+            // Each message waits for the exchange before it, so every request carries the whole history.
+            let lastExchange: Promise<void> = Promise.resolve();
+            const waitForTurn = async () => {
+                const previous = lastExchange;
+                let finish = () => {};
+                lastExchange = new Promise(resolve => { finish = resolve; });
+                await previous;
+                return finish;
+            };
+
+            const post = (pending: OpenAiMessage[], stream: boolean, signal?: AbortSignal) => fetch(endpoint, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ model: config.model, messages: pending, response_format: responseFormat, stream }),
+                signal,
+            }).then(async response => {
+                if (!response.ok) {
+                    throw new Error(`Model server responded with ${response.status}: ${await response.text()}`);
+                }
+                return response;
+            });
+
+            return {
+                async sendMessage(message: string) {
+                    const finish = await waitForTurn();
+                    try {
+                        const pending = [...messages, { role: 'user' as const, content: message }];
+                        const response = await post(pending, false);
+                        const data = await response.json();
+                        const text: string = data.choices?.[0]?.message?.content ?? '';
+                        messages.push(pending[pending.length - 1], { role: 'assistant', content: text });
+                        return text;
+                    } finally {
+                        finish();
+                    }
+                },
+                async *sendMessageStream(message: string, signal?: AbortSignal) {
+                    const finish = await waitForTurn();
+                    try {
+                        const pending = [...messages, { role: 'user' as const, content: message }];
+                        const response = await post(pending, true, signal);
+                        if (!response.body) throw new Error('Model server returned no response body.');
+
+                        const reader = response.body.getReader();
+                        const decoder = new TextDecoder();
+                        let buffer = '';
+                        let text = '';
+                        while (true) {
+                            const { done, value } = await reader.read();
+                            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+                            // Server-sent events: one `data: {...}` line per chunk. The last line
+                            // may still be arriving, unless the stream has ended without a newline.
+                            const lines = buffer.split('\n');
+                            buffer = done ? '' : lines.pop() ?? '';
+                            for (const line of lines) {
+                                const payload = line.replace(/^data:\s*/, '').trim();
+                                if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+                                const delta = readStreamDelta(payload);
+                                if (delta) {
+                                    text += delta;
+                                    yield delta;
+                                }
+                            }
+                            if (done) break;
+                        }
+                        // Only a reply that arrived in full is remembered.
+                        messages.push(pending[pending.length - 1], { role: 'assistant', content: text });
+                    } finally {
+                        finish();
+                    }
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCorrectionsFormatInstruction } from './feedback';
+import { createAccentInstruction } from './accents';
+import type { UiStringKey } from './i18n';
+import type { AppSettings, TutorPersonality } from './types';
+
+/** The name the tutor has until the learner chooses another. */
+export const DEFAULT_TUTOR_NAME = 'Alex';
+const MAX_TUTOR_NAME_LENGTH = 30;
+
+/** The settings a free-conversation prompt is built from. */
+export type TutorPromptSettings = Pick<AppSettings, 'level' | 'nativeLanguage' | 'accent' | 'tutorName' | 'personality' | 'strictness' | 'topics' | 'avoidTopics'>;
+
+/** How the tutor talks to a learner at one level. */
+interface LevelStyle {
+    /** Pace, vocabulary and the kind of conversation to have. */
+    language: string;
+    /** What correction explanations concentrate on. */
+    feedback: string;
+    /** The tutor's first message in a new conversation. */
+    welcome: (name: string) => string;
+}
+
+const LEVEL_STYLES: Record<AppSettings['level'], LevelStyle> = {
+    Beginner: {
+        language: 'Speak slowly and use simple vocabulary and short, clear sentences. Be very patient and wait for me to finish speaking. Start conversations with simple questions like "How was your day?" or "What is your favorite color?".',
+        feedback: 'Keep explanations very simple and focus on basic errors.',
+        welcome: name => `Hello! I'm ${name}. Let's start with something easy. What is your favorite animal?`,
+    },
+    Intermediate: {
+        language: 'Speak at a natural, clear pace. Use a good range of vocabulary and sentence structures, but avoid overly complex language. Encourage me to explain my ideas in more detail by asking follow-up questions.',
+        feedback: 'Focus explanations on improving word choice and natural phrasing.',
+        welcome: name => `Hi there! I'm ${name}. It's great to practice with you. What's something interesting you did this week?`,
+    },
+    Advanced: {
+        language: 'Speak fluently and naturally, using a rich vocabulary, idioms, and complex sentence structures. Feel free to challenge my ideas, introduce new topics, and engage in deeper, more nuanced conversations.',
+        feedback: 'Make explanations detailed, covering subtle errors and awkward phrasing, and suggest more sophisticated expressions.',
+        welcome: name => `Welcome. I'm ${name}, and I'm ready for an engaging conversation. What is a complex topic you're passionate about discussing today?`,
+    },
+};
+
+/**
+ * The personalities the learner can choose: the interface text that labels each
+ * in settings, and how it's described to the tutor.
+ */
+export const PERSONALITIES: Record<TutorPersonality, { label: UiStringKey; description: string }> = {
+    warm: {
+        label: 'personalityWarm',
+        description: 'Be warm, patient and encouraging. Praise my effort and keep the mood relaxed.',
+    },
+    casual: {
+        label: 'personalityCasual',
+        description: 'Talk like a relaxed friend: informal, chatty and curious about my life. Act like a peer.',
+    },
+    witty: {
+        label: 'personalityWitty',
+        description: 'Be articulate, witty and playful, with light humour and the occasional friendly tease.',
+    },
+    formal: {
+        label: 'personalityFormal',
+        description: 'Be polite, focused and professional, like a business English coach.',
+    },
+};
+
+/** Cleans up a tutor name typed by the learner, falling back to the default when it's empty. */
+export function normalizeTutorName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').slice(0, MAX_TUTOR_NAME_LENGTH) || DEFAULT_TUTOR_NAME;
+}
+
+/** Reads a comma- or line-separated list of topics, dropping blanks and repeats. */
+export function parseTopicList(text: string): string[] {
+    const topics = text.split(/[,\n]/).map(topic => topic.trim()).filter(Boolean);
+    return topics.filter((topic, index) => topics.findIndex(other => other.toLowerCase() === topic.toLowerCase()) === index);
+}
+
+/**
+ * Creates the system instruction for a free conversation from the learner's
+ * settings: the tutor's name and personality, how strictly to correct, the
+ * learner's level and topic preferences, and notebook words to bring up.
+ * @param {TutorPromptSettings} settings - The learner's settings, with the session's level.
+ * @param {string[]} focusWords - Notebook words that are due for review.
+ */
+export function createTutorInstruction(settings: TutorPromptSettings, focusWords: string[] = []): string {
+    const style = LEVEL_STYLES[settings.level];
+    const sections = [
+        `You are an AI English speaking partner named ${normalizeTutorName(settings.tutorName)}. Your goal is to help me practice my English conversation skills in a natural and encouraging way. ${createCorrectionsFormatInstruction(settings.nativeLanguage, settings.strictness)} ${createAccentInstruction(settings.accent)} Do not correct my very first message. Start the conversation first. You are acting as a conversational partner for a user with a proficiency level of: ${settings.level}.`,
+        `**Your Persona:** ${PERSONALITIES[settings.personality].description} ${style.language} ${style.feedback}`,
+    ];
+    if (settings.topics.length) {
+        sections.push(`**Topics I enjoy:** ${settings.topics.join(', ')}. Steer the conversation towards these when it needs a new direction.`);
+    }
+    if (settings.avoidTopics.length) {
+        sections.push(`**Topics to avoid:** ${settings.avoidTopics.join(', ')}. Never bring these up, and if I mention one, acknowledge it briefly and move on to something else.`);
+    }
+    if (focusWords.length) {
+        sections.push(`**Words I'm learning:** ${focusWords.join(', ')}. Bring these into the conversation on purpose: use them yourself and ask questions that give me a natural reason to use them.`);
+    }
+    return sections.join('\n\n');
+}
+
+/** The tutor's first message in a new conversation at a level. */
+export function createWelcomeMessage(level: AppSettings['level'], tutorName: string): string {
+    return LEVEL_STYLES[level].welcome(normalizeTutorName(tutorName));
+}
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCorrectionsFormatInstruction, isMistake } from './feedback';
+import { createAccentInstruction } from './accents';
+import { countWords } from './progress';
+import { DEFAULT_TUTOR_NAME } from './persona';
+import type { UiStringKey } from './i18n';
+import type { AppSettings, Correction, PracticeSession } from './types';
+
+/** How many learner answers the placement conversation collects. */
+export const PLACEMENT_TURNS = 5;
+
+/** How many practised sessions go by before the level is checked again. */
+export const LEVEL_CHECK_INTERVAL = 3;
+
+/** The tutor's first message in the placement conversation. */
+export function createPlacementWelcome(tutorName: string): string {
+    return `Hi, I'm ${tutorName}! Let's have a short chat so I can find the right level for you. There are no wrong answers. To start, tell me a little about yourself.`;
+}
+
+/** The part of a turn the assessment looks at. */
+export interface AssessedTurn {
+    userText: string;
+    corrections: Correction[];
+}
+
+export interface LevelAssessment {
+    level: AppSettings['level'];
+    /** Each score runs from 0 to 100, higher is better. */
+    scores: {
+        vocabularyRange: number;
+        sentenceComplexity: number;
+        accuracy: number;
+    };
+    /** Errors per 100 words. */
+    errorDensity: number;
+    reasoning: AssessmentReason[];
+}
+
+/** One reason behind a recommended level, as interface text and the values it fills in. */
+export interface AssessmentReason {
+    key: UiStringKey;
+    values: Record<string, string | number>;
+}
+
+/** Words that usually introduce a subordinate clause or link ideas. */
+const CONNECTIVES = new Set([
+    'because', 'although', 'though', 'which', 'who', 'whose', 'whom', 'whereas', 'while', 'unless',
+    'since', 'however', 'therefore', 'if', 'when', 'whenever', 'whether', 'despite', 'moreover',
+    'otherwise', 'until', 'so', 'that',
+]);
+
+/**
+ * Creates the system instruction for the placement conversation.
+ * @param {string} nativeLanguage - The learner's native language code.
+ * @param {string} accent - The variety of English the learner is aiming for.
+ * @param {string} tutorName - The name the learner has given the tutor.
+ */
+export function createPlacementInstruction(nativeLanguage: string = 'en', accent: AppSettings['accent'] = 'en-US', tutorName: string = DEFAULT_TUTOR_NAME): string {
+    return `You are ${tutorName}, a friendly English speaking partner running a short placement conversation to find my level. Ask exactly one open question per reply and keep your replies brief. Start with simple personal questions, then move to describing past experiences, then opinions, then hypothetical situations, so that each question gives me room to show more complex English. Do not teach or explain anything in your reply. ${createCorrectionsFormatInstruction(nativeLanguage)} ${createAccentInstruction(accent)} Be thorough with corrections, including my first message, because they are used to estimate my level.`;
+}
+
+function clamp(value: number): number {
+    return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+/**
+ * Scores a set of learner turns on vocabulary range, sentence complexity and
+ * error density, and recommends a level with the reasoning behind it.
+ * Everything is computed locally from the transcripts and corrections.
+ */
+export function assessLevel(turns: AssessedTurn[]): LevelAssessment {
+    const words = turns.flatMap(turn => turn.userText.toLowerCase().match(/[a-z']+/g) ?? []);
+    const totalWords = Math.max(words.length, 1);
+    const uniqueWords = new Set(words).size;
+    const turnCount = Math.max(turns.length, 1);
+
+    // Guiraud's index (unique / sqrt(total)) is far less length-sensitive than a plain type/token ratio.
+    const guiraud = uniqueWords / Math.sqrt(totalWords);
+    const vocabularyRange = clamp(((guiraud - 3) / 4) * 100);
+
+    const wordsPerTurn = turns.reduce((sum, turn) => sum + countWords(turn.userText), 0) / turnCount;
+    const connectivesPerTurn = words.filter(word => CONNECTIVES.has(word)).length / turnCount;
+    const sentenceComplexity = clamp(((wordsPerTurn - 5) / 15) * 70 + (Math.min(connectivesPerTurn, 1.5) / 1.5) * 30);
+
+    const errorCount = turns.reduce((sum, turn) => sum + turn.corrections.filter(isMistake).length, 0);
+    const errorDensity = (errorCount / totalWords) * 100;
+    const accuracy = clamp((1 - errorDensity / 15) * 100);
+
+    const overall = vocabularyRange * 0.35 + sentenceComplexity * 0.35 + accuracy * 0.3;
+    const level: AppSettings['level'] = overall < 40 ? 'Beginner' : overall < 70 ? 'Intermediate' : 'Advanced';
+
+    const reasoning: AssessmentReason[] = [
+        {
+            key: vocabularyRange >= 70 ? 'wideVocabulary' : vocabularyRange >= 40 ? 'solidVocabulary' : 'commonVocabulary',
+            values: { count: uniqueWords },
+        },
+        {
+            key: sentenceComplexity >= 70 ? 'longAnswers' : sentenceComplexity >= 40 ? 'reasonableAnswers' : 'shortAnswers',
+            values: { count: Math.round(wordsPerTurn) },
+        },
+        {
+            key: errorDensity < 3 ? 'fewMistakes' : errorDensity < 8 ? 'someMistakes' : 'frequentMistakes',
+            values: { rate: errorDensity.toFixed(1) },
+        },
+    ];
+
+    return {
+        level,
+        scores: { vocabularyRange, sentenceComplexity, accuracy },
+        errorDensity,
+        reasoning,
+    };
+}
+
+/**
+ * Decides whether enough practice has happened since the last level check to run another.
+ * Returns the sessions to assess, or `null` if it is not time yet.
+ */
+export function sessionsForLevelCheck(
+    sessions: PracticeSession[],
+    level: AppSettings['level'],
+    lastCheckedAt: number,
+): PracticeSession[] | null {
+    const recent = sessions.filter(session =>
+        session.level === level && session.turns.length > 0 && session.createdAt > lastCheckedAt);
+    return recent.length >= LEVEL_CHECK_INTERVAL ? recent : null;
+}
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** The slow-replay speeds offered under each of the tutor's messages, relative to the learner's chosen speed. */
+export const SLOW_REPLAY_RATES = [0.75, 0.5];
+
+/** A word in a message and where it starts, so speech boundary events can be matched to it. */
+export interface SpokenWord {
+    word: string;
+    start: number;
+}
+
+/** Splits a message into its words, keeping each word's position in the text. */
+export function splitSpokenWords(text: string): SpokenWord[] {
+    return Array.from(text.matchAll(/\S+/g), match => ({ word: match[0], start: match.index ?? 0 }));
+}
+
+/**
+ * Finds the word being spoken from a boundary event's character index: the last
+ * word that starts at or before it. Returns -1 before the first word.
+ */
+export function findSpokenWord(words: SpokenWord[], charIndex: number): number {
+    let found = -1;
+    words.forEach(({ start }, index) => {
+        if (start <= charIndex) found = index;
+    });
+    return found;
+}
+
+/** Strips the punctuation around a word so it can be spoken on its own. */
+export function toSpeakableWord(word: string): string {
+    return word.replace(/[^\p{L}\p{N}'’-]/gu, '');
+}
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { LearnerProfile } from './types';
+
+// --- Learner Profiles ---
+// Profiles live in localStorage. The first profile uses the storage keys the app had
+// before profiles existed, so an existing learner's data becomes that profile's.
+const PROFILES_KEY = 'profiles';
+const ACTIVE_PROFILE_KEY = 'activeProfileId';
+const DEFAULT_PROFILE_ID = 'default';
+
+const DEFAULT_PROFILE: LearnerProfile = { id: DEFAULT_PROFILE_ID, name: 'Me', role: 'student', createdAt: 0 };
+
+/** Lists the profiles on this device, oldest first. There is always at least one. */
+export function listProfiles(): LearnerProfile[] {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? '[]') as LearnerProfile[];
+        if (Array.isArray(saved) && saved.length) return saved;
+    } catch (error) {
+        console.error("Could not read profiles:", error);
+    }
+    return [DEFAULT_PROFILE];
+}
+
+function saveProfiles(profiles: LearnerProfile[]) {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+/** The profile the app is running as. */
+export function getActiveProfile(): LearnerProfile {
+    const profiles = listProfiles();
+    const id = localStorage.getItem(ACTIVE_PROFILE_KEY);
+    return profiles.find(profile => profile.id === id) ?? profiles[0];
+}
+
+/** Makes a profile the active one. The page must be reloaded for it to take effect. */
+export function setActiveProfile(id: string) {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+/** Adds a profile and returns it. */
+export function createProfile(name: string, role: LearnerProfile['role']): LearnerProfile {
+    const profile: LearnerProfile = { id: crypto.randomUUID(), name, role, createdAt: Date.now() };
+    saveProfiles([...listProfiles(), profile]);
+    return profile;
+}
+
+/** Renames a profile or changes its role. */
+export function updateProfile(id: string, changes: Partial<Pick<LearnerProfile, 'name' | 'role'>>) {
+    saveProfiles(listProfiles().map(profile => profile.id === id ? { ...profile, ...changes } : profile));
+}
+
+/**
+ * The localStorage key for a per-profile value such as `appSettings`. The first
+ * profile keeps the original key.
+ */
+export function profileStorageKey(key: string, profile: LearnerProfile = getActiveProfile()): string {
+    return profile.id === DEFAULT_PROFILE_ID ? key : `${key}:${profile.id}`;
+}
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ERROR_CATEGORIES, isMistake } from './feedback';
+import type { CefrLevel, ErrorCategory, PracticeSession } from './types';
+
+/** Per-session figures used by the dashboard charts. */
+export interface SessionProgress {
+    id: string;
+    title: string;
+    level: PracticeSession['level'];
+    date: number;
+    wordsSpoken: number;
+    errors: Record<ErrorCategory, number>;
+    /** Errors per 100 words spoken, by category. */
+    errorRate: Record<ErrorCategory, number>;
+    /** The CEFR band from the session's report, if the learner ended it. */
+    cefr?: CefrLevel;
+}
+
+/** A mistake the learner has made more than once. */
+export interface RecurringMistake {
+    original: string;
+    corrected: string;
+    category: ErrorCategory;
+    count: number;
+}
+
+export interface ProgressSummary {
+    sessions: SessionProgress[];
+    totalWords: number;
+    totalTurns: number;
+    recurringMistakes: RecurringMistake[];
+    currentStreak: number;
+    longestStreak: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Counts the words in a transcript. */
+export function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+function emptyCategoryCounts(): Record<ErrorCategory, number> {
+    return Object.fromEntries(ERROR_CATEGORIES.map(category => [category, 0])) as Record<ErrorCategory, number>;
+}
+
+/**
+ * Builds the dashboard figures from stored sessions. Sessions without any learner
+ * turns are ignored. Everything is computed locally; no model calls are made.
+ * @param {PracticeSession[]} sessions - Sessions in any order.
+ * @param {number} now - The current time, used to decide whether a streak is still running.
+ */
+export function computeProgress(sessions: PracticeSession[], now: number = Date.now()): ProgressSummary {
+    const practised = sessions
+        .filter(session => session.turns.length > 0)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+    const mistakes = new Map<string, RecurringMistake>();
+    const practiceDays = new Set<number>();
+    let totalTurns = 0;
+
+    const sessionProgress = practised.map(session => {
+        const errors = emptyCategoryCounts();
+        let wordsSpoken = 0;
+
+        session.turns.forEach(turn => {
+            totalTurns++;
+            wordsSpoken += countWords(turn.userText);
+            practiceDays.add(toDayNumber(turn.timestamp));
+
+            turn.corrections.filter(isMistake).forEach(correction => {
+                errors[correction.category]++;
+                const key = `${correction.original.toLowerCase()}→${correction.corrected.toLowerCase()}`;
+                const existing = mistakes.get(key);
+                if (existing) {
+                    existing.count++;
+                } else {
+                    mistakes.set(key, { ...correction, count: 1 });
+                }
+            });
+        });
+
+        const errorRate = emptyCategoryCounts();
+        ERROR_CATEGORIES.forEach(category => {
+            errorRate[category] = wordsSpoken ? (errors[category] / wordsSpoken) * 100 : 0;
+        });
+
+        return {
+            id: session.id,
+            title: session.title,
+            level: session.level,
+            date: session.createdAt,
+            wordsSpoken,
+            errors,
+            errorRate,
+            cefr: session.report?.cefr.level,
+        };
+    });
+
+    const { currentStreak, longestStreak } = computeStreaks(practiceDays, toDayNumber(now));
+
+    return {
+        sessions: sessionProgress,
+        totalWords: sessionProgress.reduce((sum, session) => sum + session.wordsSpoken, 0),
+        totalTurns,
+        recurringMistakes: [...mistakes.values()]
+            .filter(mistake => mistake.count > 1)
+            .sort((a, b) => b.count - a.count),
+        currentStreak,
+        longestStreak,
+    };
+}
+
+/** Converts a timestamp to a whole-day number in the learner's local time zone. */
+function toDayNumber(timestamp: number): number {
+    const date = new Date(timestamp);
+    return Math.floor((timestamp - date.getTimezoneOffset() * 60 * 1000) / DAY_MS);
+}
+
+/**
+ * Finds the longest run of consecutive practice days, and the run that ends today
+ * (or yesterday, since today's practice may not have happened yet).
+ */
+function computeStreaks(days: Set<number>, today: number): { currentStreak: number; longestStreak: number } {
+    const sorted = [...days].sort((a, b) => a - b);
+    let longestStreak = 0;
+    let run = 0;
+    sorted.forEach((day, index) => {
+        run = index > 0 && day === sorted[index - 1] + 1 ? run + 1 : 1;
+        longestStreak = Math.max(longestStreak, run);
+    });
+
+    let currentStreak = 0;
+    let day = days.has(today) ? today : today - 1;
+    while (days.has(day)) {
+        currentStreak++;
+        day--;
+    }
+
+    return { currentStreak, longestStreak };
+}
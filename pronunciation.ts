@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AppSettings } from './types';
+
+/** One recognition hypothesis, as reported by the Web Speech API. */
+export interface RecognitionAlternative {
+    transcript: string;
+    confidence: number;
+}
+
+export type WordStatus = 'good' | 'unclear' | 'missed';
+
+export interface WordScore {
+    /** The word as written in the target sentence. */
+    word: string;
+    status: WordStatus;
+    /** 0 to 1: how strongly the recognizer supports this word having been said clearly. */
+    score: number;
+}
+
+export interface PronunciationResult {
+    words: WordScore[];
+    /** 0 to 100. */
+    overall: number;
+    /** What the recognizer most likely heard. */
+    heard: string;
+}
+
+/** Sentences to read aloud, chosen to exercise common problem sounds at each level. */
+export const PRONUNCIATION_SENTENCES: Record<AppSettings['level'], string[]> = {
+    Beginner: [
+        'I think this is the right bus.',
+        'She sells fresh fish on Thursday.',
+        'My brother lives in a very big village.',
+        'The weather is warm and the sky is clear.',
+        'Please put the red cup on the table.',
+    ],
+    Intermediate: [
+        'I thought the three thieves went through the theatre.',
+        'We usually visit our relatives during the holidays.',
+        'The vegetables in the world market were surprisingly cheap.',
+        'Could you tell me whether the library is open on Wednesday?',
+        'He worked hard to improve his pronunciation every day.',
+    ],
+    Advanced: [
+        'The particularly thorough researcher deliberately rechecked the statistics.',
+        'Environmental regulations are increasingly enforced throughout the world.',
+        'Her entrepreneurial enthusiasm was thoroughly contagious.',
+        'The anthropologist’s hypothesis was rigorously scrutinized.',
+        'Miscommunication frequently occurs in multicultural workplaces.',
+    ],
+};
+
+/** How confident the top alternative has to be before its words count as clearly spoken. */
+const CLEAR_CONFIDENCE = 0.7;
+
+function normalize(word: string): string {
+    return word.toLowerCase().replace(/[’]/g, "'").replace(/[^a-z0-9']/g, '');
+}
+
+function tokenize(text: string): string[] {
+    return text.split(/\s+/).map(normalize).filter(Boolean);
+}
+
+/**
+ * Finds which target words appear, in order, in a heard transcript
+ * (a longest-common-subsequence alignment at word level).
+ */
+function alignedIndices(target: string[], heard: string[]): Set<number> {
+    const rows = target.length + 1;
+    const cols = heard.length + 1;
+    const table: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+    for (let i = target.length - 1; i >= 0; i--) {
+        for (let j = heard.length - 1; j >= 0; j--) {
+            table[i][j] = target[i] === heard[j]
+                ? table[i + 1][j + 1] + 1
+                : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+
+    const matched = new Set<number>();
+    let i = 0;
+    let j = 0;
+    while (i < target.length && j < heard.length) {
+        if (target[i] === heard[j]) {
+            matched.add(i);
+            i++;
+            j++;
+        } else if (table[i + 1][j] >= table[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return matched;
+}
+
+/**
+ * Compares what the recognizer heard against the target sentence word by word.
+ * A word scores well when most of the (confidence-weighted) alternatives contain it
+ * and the recognizer was confident overall; words missing from the alternatives
+ * were most likely mispronounced.
+ */
+export function scorePronunciation(target: string, alternatives: RecognitionAlternative[]): PronunciationResult {
+    const displayWords = target.split(/\s+/).filter(word => normalize(word));
+    const targetWords = displayWords.map(normalize);
+    const usable = alternatives.filter(alt => alt.transcript.trim());
+
+    // Browsers report 0 when they have no confidence estimate, which is common for all but
+    // the best alternative. Treat that as unknown: full trust for the best guess, half for the rest.
+    const topWeight = usable[0]?.confidence > 0 ? usable[0].confidence : 1;
+    const weights = usable.map((alt, index) => (alt.confidence > 0 ? alt.confidence : index === 0 ? topWeight : topWeight / 2));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const clarity = usable.length ? Math.min(1, topWeight / CLEAR_CONFIDENCE) : 0;
+
+    const support = new Array(targetWords.length).fill(0);
+    usable.forEach((alt, altIndex) => {
+        alignedIndices(targetWords, tokenize(alt.transcript)).forEach(index => {
+            support[index] += weights[altIndex];
+        });
+    });
+
+    const words = displayWords.map((word, index) => {
+        const score = totalWeight ? (support[index] / totalWeight) * clarity : 0;
+        const status: WordStatus = score >= 0.75 ? 'good' : score >= 0.4 ? 'unclear' : 'missed';
+        return { word, status, score };
+    });
+
+    const overall = words.length
+        ? Math.round((words.reduce((sum, word) => sum + Math.min(word.score / 0.75, 1), 0) / words.length) * 100)
+        : 0;
+
+    return { words, overall, heard: usable[0]?.transcript.trim() ?? '' };
+}
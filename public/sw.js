@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Service worker that keeps the app shell, fonts and scripts cached, so the
+ * notebook, past sessions and drills keep working offline. Requests to the tutor
+ * are never cached; while offline the app queues them itself.
+ */
+
+const CACHE_NAME = 'english-practice-v1';
+
+/** Files cached at install, relative to this worker's scope. */
+const APP_SHELL = ['./', './manifest.webmanifest', './icon.svg'];
+
+/** Other origins whose files the app needs to start (web fonts and ES modules). */
+const CACHED_ORIGINS = ['https://fonts.googleapis.com', 'https://fonts.gstatic.com', 'https://esm.sh'];
+
+self.addEventListener('install', event => {
+    event.waitUntil(
+        caches.open(CACHE_NAME)
+            .then(cache => cache.addAll(APP_SHELL))
+            .then(() => self.skipWaiting()),
+    );
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+            .then(() => self.clients.claim()),
+    );
+});
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (request.mode === 'navigate') {
+        event.respondWith(networkFirst(request));
+    } else if (url.origin === self.location.origin || CACHED_ORIGINS.includes(url.origin)) {
+        event.respondWith(staleWhileRevalidate(request));
+    }
+});
+
+/** Pages come from the network when possible, so a new deploy is picked up straight away. */
+async function networkFirst(request) {
+    const cache = await caches.open(CACHE_NAME);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cache.put(request, response.clone());
+        return response;
+    } catch (error) {
+        return (await cache.match(request)) || (await cache.match('./')) || Response.error();
+    }
+}
+
+/** Assets are served from the cache and refreshed in the background. */
+async function staleWhileRevalidate(request) {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(request);
+    const refresh = fetch(request)
+        .then(response => {
+            if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+            return response;
+        })
+        .catch(() => cached || Response.error());
+    return cached || refresh;
+}
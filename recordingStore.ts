@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RECORDING_STORE, withStore } from './db';
+import type { VoiceRecording } from './types';
+
+/** Stores a recording of one of the learner's turns. */
+export async function saveRecording(recording: VoiceRecording): Promise<void> {
+    await withStore(RECORDING_STORE, 'readwrite', store => store.put(recording));
+}
+
+/** Fetches a recording, or `undefined` if it isn't on this device (e.g. the session was imported). */
+export function getRecording(id: string): Promise<VoiceRecording | undefined> {
+    return withStore<VoiceRecording | undefined>(RECORDING_STORE, 'readonly', store => store.get(id));
+}
+
+/** Removes every recording made in a session, when the session itself is deleted. */
+export async function deleteSessionRecordings(sessionId: string): Promise<void> {
+    const ids = await withStore<IDBValidKey[]>(RECORDING_STORE, 'readonly', store => store.index('sessionId').getAllKeys(sessionId));
+    await Promise.all(ids.map(id => withStore(RECORDING_STORE, 'readwrite', store => store.delete(id))));
+}
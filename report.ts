@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from '@google/genai';
+import { formatLearnerMessage } from './feedback';
+import { getScenario } from './scenarios';
+import type { CefrLevel, PracticeSession, SessionReport } from './types';
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+/** How many focus areas a report lists. */
+const FOCUS_AREA_COUNT = 3;
+
+/** JSON schema for the end-of-session report. */
+export const reportResponseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        strengths: {
+            type: Type.ARRAY,
+            description: 'Two to four specific things the learner did well in this session.',
+            items: { type: Type.STRING },
+        },
+        focusAreas: {
+            type: Type.ARRAY,
+            description: `Exactly ${FOCUS_AREA_COUNT} things to work on, most important first.`,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    area: {
+                        type: Type.STRING,
+                        description: 'A short name for the skill or grammar point.',
+                    },
+                    advice: {
+                        type: Type.STRING,
+                        description: 'One or two sentences on how to improve, with an example from the session.',
+                    },
+                },
+                required: ['area', 'advice'],
+                propertyOrdering: ['area', 'advice'],
+            },
+        },
+        newVocabulary: {
+            type: Type.ARRAY,
+            description: "Words or phrases the learner used that are new or notable for their level. Empty if there were none.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    term: {
+                        type: Type.STRING,
+                        description: 'The word or phrase as the learner used it.',
+                    },
+                    context: {
+                        type: Type.STRING,
+                        description: "The learner's sentence that contains it.",
+                    },
+                },
+                required: ['term', 'context'],
+                propertyOrdering: ['term', 'context'],
+            },
+        },
+        cefrLevel: {
+            type: Type.STRING,
+            enum: CEFR_LEVELS,
+        },
+        cefrEvidence: {
+            type: Type.ARRAY,
+            description: 'Two to four observations from the transcript, quoting the learner, that justify the CEFR band.',
+            items: { type: Type.STRING },
+        },
+    },
+    required: ['strengths', 'focusAreas', 'newVocabulary', 'cefrLevel', 'cefrEvidence'],
+    propertyOrdering: ['strengths', 'focusAreas', 'newVocabulary', 'cefrLevel', 'cefrEvidence'],
+};
+
+/**
+ * Creates the system instruction for writing a session report.
+ * @param {PracticeSession} session - The session being reported on.
+ * @param {string} tutorName - The name the learner has given the tutor.
+ */
+export function createReportInstruction(session: PracticeSession, tutorName: string): string {
+    const scenario = session.scenarioId ? getScenario(session.scenarioId) : undefined;
+    const context = scenario ? `a role-play of "${scenario.title}"` : 'a free conversation';
+    return `You are ${tutorName}, an experienced English teacher. You will receive the transcript of ${context} between a learner practising at the ${session.level} level and their tutor. Write an end-of-session report for the learner, speaking to them directly as "you". Be encouraging but honest, and base every point on what the learner actually said. Give exactly ${FOCUS_AREA_COUNT} focus areas, ordered by how much they would improve the learner's English. Estimate the learner's CEFR band (A1 to C2) from their own messages only, not the tutor's, and quote their words as evidence. Learner messages starting with "[typed]" were typed; the others were spoken and transcribed, so ignore their spelling and punctuation.`;
+}
+
+/** Writes the session out as the transcript the report is based on. */
+export function formatTranscriptForReport(session: PracticeSession): string {
+    const lines = [`Tutor: ${session.welcomeMessage}`];
+    session.turns.forEach(turn => {
+        lines.push(`Learner: ${formatLearnerMessage(turn.userText, turn.inputMode)}`);
+        lines.push(`Tutor: ${turn.aiText}`);
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Parses the model's report. Entries missing required fields are dropped; a
+ * reply with no CEFR band at all is rejected, since there is nothing to compare.
+ */
+export function parseSessionReport(raw: string, createdAt: number = Date.now()): SessionReport {
+    return readReport(JSON.parse(raw) as Record<string, unknown>, createdAt);
+}
+
+/**
+ * Checks a report saved with a session, e.g. one in an imported file, by the same
+ * rules as `parseSessionReport`. Returns `undefined` if it can't be used.
+ */
+export function normalizeStoredReport(value: unknown, fallbackCreatedAt: number): SessionReport | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const { createdAt, strengths, focusAreas, newVocabulary, cefr } = value as Record<string, unknown>;
+    const { level, evidence } = (cefr && typeof cefr === 'object' ? cefr : {}) as Record<string, unknown>;
+    try {
+        return readReport(
+            { strengths, focusAreas, newVocabulary, cefrLevel: level, cefrEvidence: evidence },
+            typeof createdAt === 'number' ? createdAt : fallbackCreatedAt,
+        );
+    } catch {
+        return undefined;
+    }
+}
+
+function readReport(data: Record<string, unknown>, createdAt: number): SessionReport {
+    const level = data?.cefrLevel;
+    if (!CEFR_LEVELS.includes(level as CefrLevel)) {
+        throw new Error('The report has no CEFR level.');
+    }
+
+    const strings = (value: unknown) => Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+        : [];
+    const pairs = <K extends string>(value: unknown, keys: [K, K]) => Array.isArray(value)
+        ? value.flatMap(item => {
+            if (!item || typeof item !== 'object') return [];
+            const [first, second] = keys.map(key => (item as Record<string, unknown>)[key]);
+            if (typeof first !== 'string' || !first.trim()) return [];
+            return [{ [keys[0]]: first.trim(), [keys[1]]: typeof second === 'string' ? second.trim() : '' } as Record<K, string>];
+        })
+        : [];
+
+    return {
+        createdAt,
+        strengths: strings(data.strengths),
+        focusAreas: pairs(data.focusAreas, ['area', 'advice']).slice(0, FOCUS_AREA_COUNT),
+        newVocabulary: pairs(data.newVocabulary, ['term', 'context']),
+        cefr: {
+            level: level as CefrLevel,
+            evidence: strings(data.cefrEvidence),
+        },
+    };
+}
+
+/**
+ * Finds the most recent report from another session, to compare a new report with.
+ */
+export function findPreviousReport(sessions: PracticeSession[], excludeId: string): SessionReport | undefined {
+    return sessions
+        .filter(session => session.id !== excludeId && session.report)
+        .map(session => session.report as SessionReport)
+        .sort((a, b) => b.createdAt - a.createdAt)[0];
+}
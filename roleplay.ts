@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from '@google/genai';
+import { createCorrectionsFormatInstruction, isMistake, tutorResponseSchema } from './feedback';
+import { createAccentInstruction } from './accents';
+import { countWords } from './progress';
+import type { AppSettings, CorrectionStrictness, PracticeSession, Scenario } from './types';
+
+/** What the learner achieved in a finished role-play. */
+export interface ScenarioSummary {
+    goal: string;
+    turns: number;
+    wordsSpoken: number;
+    vocabularyUsed: string[];
+    vocabularyMissed: string[];
+    /** Mistakes corrected, not counting notes about other varieties of English. */
+    corrections: number;
+}
+
+/** The tutor schema plus a flag the model sets once the scenario's end condition is met. */
+export const scenarioResponseSchema: Schema = {
+    ...tutorResponseSchema,
+    properties: {
+        ...tutorResponseSchema.properties,
+        goalMet: {
+            type: Type.BOOLEAN,
+            description: "True once the scenario's end condition has been met, otherwise false.",
+        },
+    },
+    required: ['reply', 'corrections', 'goalMet'],
+    propertyOrdering: ['reply', 'corrections', 'goalMet'],
+};
+
+/**
+ * Creates the system instruction for a role-play scenario.
+ * @param {Scenario} scenario - The scenario to play.
+ * @param {string} level - The learner's proficiency level.
+ * @param {string} nativeLanguage - The learner's native language code.
+ * @param {string} accent - The variety of English the learner is aiming for.
+ * @param {CorrectionStrictness} strictness - Which mistakes to correct.
+ */
+export function createScenarioInstruction(scenario: Scenario, level: AppSettings['level'], nativeLanguage: string = 'en', accent: AppSettings['accent'] = 'en-US', strictness: CorrectionStrictness = 'everything'): string {
+    const { persona } = scenario;
+    return `You are ${persona.name}, a ${persona.role}, in a role-play that helps me practise English. The setting is ${scenario.setting}. Your personality: ${persona.personality}. Stay in character at all times and keep the conversation realistic for this situation. Adjust your language to a learner with a proficiency level of: ${level}.
+
+**My goal:** ${scenario.goal}
+**Vocabulary I should practise:** ${scenario.requiredVocabulary.join(', ')}. Create natural opportunities for me to use these words, but don't say them for me.
+**End condition:** ${scenario.endCondition}
+
+${createCorrectionsFormatInstruction(nativeLanguage, strictness)} ${createAccentInstruction(accent)} Set "goalMet" to true in the reply where the end condition has been met, and close the conversation naturally in character. Otherwise set it to false. You have already opened the conversation with: "${scenario.openingLine}"`;
+}
+
+/**
+ * Finds which of the scenario's target words or phrases the learner has said.
+ */
+export function findUsedVocabulary(scenario: Scenario, session: PracticeSession): string[] {
+    const spoken = ` ${session.turns.map(turn => turn.userText.toLowerCase().replace(/[^a-z'\s-]/g, ' ')).join(' ')} `.replace(/\s+/g, ' ');
+    return scenario.requiredVocabulary.filter(item => spoken.includes(` ${item.toLowerCase()} `));
+}
+
+/**
+ * Summarizes what the learner achieved in a role-play session.
+ */
+export function summarizeScenario(scenario: Scenario, session: PracticeSession): ScenarioSummary {
+    const vocabularyUsed = findUsedVocabulary(scenario, session);
+    return {
+        goal: scenario.goal,
+        turns: session.turns.length,
+        wordsSpoken: session.turns.reduce((sum, turn) => sum + countWords(turn.userText), 0),
+        vocabularyUsed,
+        vocabularyMissed: scenario.requiredVocabulary.filter(item => !vocabularyUsed.includes(item)),
+        corrections: session.turns.reduce((sum, turn) => sum + turn.corrections.filter(isMistake).length, 0),
+    };
+}
@@ -0,0 +1,305 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Correction, ErrorCategory, PracticeSession } from './types';
+import { ERROR_CATEGORIES, isMistake, normalizeCorrection } from './feedback';
+import { normalizeStoredReport } from './report';
+import { getScenario } from './scenarios';
+import { DEFAULT_TUTOR_NAME } from './persona';
+import { upgradeSession } from './sessionStore';
+
+/** Identifies files written by `exportSessionJson`. */
+const EXPORT_FORMAT = 'ai-english-practice-session';
+
+/** Bumped whenever the JSON export changes shape; older versions are upgraded on import. */
+export const EXPORT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+/** How exports label a word from another variety of English, which isn't a mistake. */
+const VARIANT_LABEL = 'other variety';
+
+/** What a JSON export contains. */
+export interface SessionExport {
+    format: typeof EXPORT_FORMAT;
+    version: number;
+    exportedAt: number;
+    session: PracticeSession;
+}
+
+/** How many mistakes of each kind a session had, and all of them in order. Notes about other varieties of English are left out. */
+interface CorrectionSummary {
+    total: number;
+    byCategory: { category: ErrorCategory; count: number }[];
+    corrections: Correction[];
+}
+
+function summarizeCorrections(session: PracticeSession): CorrectionSummary {
+    const corrections = session.turns.flatMap(turn => turn.corrections).filter(isMistake);
+    const byCategory = ERROR_CATEGORIES
+        .map(category => ({ category, count: corrections.filter(correction => correction.category === category).length }))
+        .filter(entry => entry.count > 0);
+    return { total: corrections.length, byCategory, corrections };
+}
+
+function formatTimestamp(timestamp: number): string {
+    return new Date(timestamp).toLocaleString();
+}
+
+/** The speaker label for the tutor: the scenario persona in role-plays, otherwise the name the learner gave the tutor. */
+function tutorName(session: PracticeSession): string {
+    const scenario = session.scenarioId ? getScenario(session.scenarioId) : undefined;
+    return scenario ? scenario.persona.name : session.tutorName ?? DEFAULT_TUTOR_NAME;
+}
+
+function sessionKind(session: PracticeSession): string {
+    const scenario = session.scenarioId ? getScenario(session.scenarioId) : undefined;
+    return scenario ? `Role-play: ${scenario.title}` : 'Conversation';
+}
+
+/**
+ * A file name for an exported session, such as `2026-10-19-ordering-food.md`.
+ */
+export function exportFileName(session: PracticeSession, format: ExportFormat): string {
+    const date = new Date(session.createdAt).toISOString().slice(0, 10);
+    const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'session';
+    const extension = { markdown: 'md', html: 'html', json: 'json' }[format];
+    return `${date}-${slug}.${extension}`;
+}
+
+/**
+ * Writes a session as Markdown: a header, the transcript with speaker labels and
+ * times, the feedback on each learner message, and a summary of corrections.
+ */
+export function exportSessionMarkdown(session: PracticeSession): string {
+    const tutor = tutorName(session);
+    const lines = [
+        `# ${session.title}`,
+        '',
+        `- **Type:** ${sessionKind(session)}`,
+        `- **Level:** ${session.level}`,
+        `- **Started:** ${formatTimestamp(session.createdAt)}`,
+        `- **Last practised:** ${formatTimestamp(session.updatedAt)}`,
+        '',
+        '## Transcript',
+        '',
+        `**${tutor}** _(${formatTimestamp(session.createdAt)})_`,
+        '',
+        session.welcomeMessage,
+        '',
+    ];
+
+    session.turns.forEach(turn => {
+        const mode = turn.inputMode === 'typed' ? 'typed' : 'spoken';
+        lines.push(`**You** _(${formatTimestamp(turn.timestamp)}, ${mode})_`, '', turn.userText, '');
+        if (turn.corrections.length) {
+            lines.push('> **Feedback**');
+            turn.corrections.forEach(correction => {
+                lines.push(correction.variant
+                    ? `> - ${correction.original} → **${correction.corrected}** (${VARIANT_LABEL}): ${correction.explanation}`
+                    : `> - ~~${correction.original}~~ → **${correction.corrected}** (${correction.category}): ${correction.explanation}`);
+            });
+            lines.push('');
+        } else if (turn.feedback) {
+            lines.push(`> **Feedback:** ${turn.feedback}`, '');
+        }
+        lines.push(`**${tutor}**`, '', turn.aiText, '');
+    });
+
+    session.queuedTurns.forEach(turn => {
+        lines.push(`**You** _(${formatTimestamp(turn.timestamp)}, not sent yet)_`, '', turn.userText, '');
+    });
+
+    const summary = summarizeCorrections(session);
+    lines.push('## Corrections summary', '');
+    if (summary.total === 0) {
+        lines.push('No corrections in this session.');
+    } else {
+        lines.push(`${summary.total} ${summary.total === 1 ? 'correction' : 'corrections'}: ${summary.byCategory.map(({ category, count }) => `${category} ${count}`).join(', ')}.`, '');
+        lines.push('| You said | Better | Type |', '| --- | --- | --- |');
+        summary.corrections.forEach(correction => {
+            lines.push(`| ${escapeTableCell(correction.original)} | ${escapeTableCell(correction.corrected)} | ${correction.category} |`);
+        });
+    }
+
+    const { report } = session;
+    if (report) {
+        lines.push('', `## Report card (${formatTimestamp(report.createdAt)})`, '', `**Estimated CEFR level:** ${report.cefr.level}`, '');
+        report.cefr.evidence.forEach(evidence => lines.push(`- ${evidence}`));
+        lines.push('', '### What went well', '');
+        report.strengths.forEach(strength => lines.push(`- ${strength}`));
+        lines.push('', '### Work on next', '');
+        report.focusAreas.forEach(({ area, advice }, index) => lines.push(`${index + 1}. **${area}**: ${advice}`));
+        if (report.newVocabulary.length) {
+            lines.push('', '### New vocabulary', '');
+            report.newVocabulary.forEach(({ term, context }) => lines.push(`- **${term}**: "${context}"`));
+        }
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+function escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/** Light, print-friendly styles for the HTML export, so "Print → Save as PDF" looks right. */
+const PRINT_STYLES = `
+    body { font-family: Georgia, 'Times New Roman', serif; color: #1a1a1a; max-width: 720px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+    h1 { margin-bottom: 4px; }
+    .meta { color: #555; font-size: 0.9em; margin-bottom: 24px; }
+    .message { margin: 0 0 16px; padding: 10px 14px; border-radius: 8px; break-inside: avoid; }
+    .message.ai { background: #f1f4f9; }
+    .message.user { background: #f7f2e8; }
+    .message.queued { opacity: 0.6; }
+    .speaker { font-weight: bold; font-family: Helvetica, Arial, sans-serif; font-size: 0.85em; }
+    .time { color: #777; font-weight: normal; margin-left: 6px; }
+    .feedback { margin: 8px 0 0; padding-left: 18px; font-size: 0.9em; }
+    del { color: #b3261e; }
+    ins { color: #1e6b34; text-decoration: none; font-weight: bold; }
+    .category { font-family: Helvetica, Arial, sans-serif; font-size: 0.75em; text-transform: uppercase; color: #555; }
+    table { border-collapse: collapse; width: 100%; font-size: 0.9em; }
+    th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; }
+    @media print { body { margin: 0; max-width: none; } .message { border: 1px solid #ddd; } }
+`;
+
+/**
+ * Writes a session as a standalone HTML page, styled for printing or saving as PDF.
+ */
+export function exportSessionHtml(session: PracticeSession): string {
+    const tutor = escapeHtml(tutorName(session));
+    const message = (sender: 'ai' | 'user' | 'user queued', speaker: string, time: string, text: string, feedback = '') => `
+    <div class="message ${sender}">
+        <div class="speaker">${speaker}<span class="time">${escapeHtml(time)}</span></div>
+        <p>${escapeHtml(text)}</p>${feedback}
+    </div>`;
+
+    const turns = session.turns.map(turn => {
+        let feedback = '';
+        if (turn.corrections.length) {
+            feedback = `
+        <ul class="feedback">${turn.corrections.map(correction => correction.variant ? `
+            <li class="variant">${escapeHtml(correction.original)} → <strong>${escapeHtml(correction.corrected)}</strong> <span class="category">${VARIANT_LABEL}</span><br>${escapeHtml(correction.explanation)}</li>` : `
+            <li><del>${escapeHtml(correction.original)}</del> → <ins>${escapeHtml(correction.corrected)}</ins> <span class="category">${escapeHtml(correction.category)}</span><br>${escapeHtml(correction.explanation)}</li>`).join('')}
+        </ul>`;
+        } else if (turn.feedback) {
+            feedback = `
+        <p class="feedback">${escapeHtml(turn.feedback)}</p>`;
+        }
+        const mode = turn.inputMode === 'typed' ? 'typed' : 'spoken';
+        return message('user', 'You', `${formatTimestamp(turn.timestamp)} · ${mode}`, turn.userText, feedback)
+            + message('ai', tutor, '', turn.aiText);
+    });
+    const queued = session.queuedTurns.map(turn =>
+        message('user queued', 'You', `${formatTimestamp(turn.timestamp)} · not sent yet`, turn.userText));
+
+    const summary = summarizeCorrections(session);
+    const summaryHtml = summary.total === 0
+        ? '<p>No corrections in this session.</p>'
+        : `<p>${summary.total} ${summary.total === 1 ? 'correction' : 'corrections'}: ${escapeHtml(summary.byCategory.map(({ category, count }) => `${category} ${count}`).join(', '))}.</p>
+    <table>
+        <thead><tr><th>You said</th><th>Better</th><th>Type</th></tr></thead>
+        <tbody>${summary.corrections.map(correction => `
+            <tr><td>${escapeHtml(correction.original)}</td><td>${escapeHtml(correction.corrected)}</td><td>${escapeHtml(correction.category)}</td></tr>`).join('')}
+        </tbody>
+    </table>`;
+
+    const { report } = session;
+    const list = (items: string[]) => `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    const reportHtml = report ? `
+    <h2>Report card</h2>
+    <p class="meta">${escapeHtml(formatTimestamp(report.createdAt))}</p>
+    <p><strong>Estimated CEFR level: ${escapeHtml(report.cefr.level)}</strong></p>
+    ${list(report.cefr.evidence)}
+    <h3>What went well</h3>
+    ${list(report.strengths)}
+    <h3>Work on next</h3>
+    <ol>${report.focusAreas.map(({ area, advice }) => `<li><strong>${escapeHtml(area)}</strong>: ${escapeHtml(advice)}</li>`).join('')}</ol>${report.newVocabulary.length ? `
+    <h3>New vocabulary</h3>
+    ${list(report.newVocabulary.map(({ term, context }) => `${term}: "${context}"`))}` : ''}` : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>${escapeHtml(session.title)}</title>
+    <style>${PRINT_STYLES}</style>
+</head>
+<body>
+    <h1>${escapeHtml(session.title)}</h1>
+    <p class="meta">${escapeHtml(sessionKind(session))} · ${escapeHtml(session.level)} · ${escapeHtml(formatTimestamp(session.createdAt))}</p>
+    <h2>Transcript</h2>${message('ai', tutor, formatTimestamp(session.createdAt), session.welcomeMessage)}${turns.join('')}${queued.join('')}
+    <h2>Corrections summary</h2>
+    ${summaryHtml}${reportHtml}
+</body>
+</html>
+`;
+}
+
+/** Writes a session as versioned JSON that `parseSessionExport` can read back. */
+export function exportSessionJson(session: PracticeSession): string {
+    const data: SessionExport = {
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt: Date.now(),
+        session,
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Reads a JSON export back into a session. Throws an error with a message for the
+ * learner if the file isn't a session export this version of the app understands.
+ */
+export function parseSessionExport(text: string): PracticeSession {
+    let data: Partial<SessionExport>;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not valid JSON.');
+    }
+    if (!data || data.format !== EXPORT_FORMAT) {
+        throw new Error('This file is not an exported practice session.');
+    }
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+        throw new Error('This session was exported by a newer version of the app.');
+    }
+
+    const session = data.session;
+    if (!session || typeof session.id !== 'string' || typeof session.title !== 'string'
+        || typeof session.welcomeMessage !== 'string' || !Array.isArray(session.turns)) {
+        throw new Error('This session export is incomplete.');
+    }
+    if (!['Beginner', 'Intermediate', 'Advanced'].includes(session.level)) {
+        throw new Error('This session export has an unknown level.');
+    }
+    if (session.turns.some(turn => typeof turn?.userText !== 'string' || typeof turn.aiText !== 'string')) {
+        throw new Error('This session export has a damaged transcript.');
+    }
+
+    session.createdAt = typeof session.createdAt === 'number' ? session.createdAt : Date.now();
+    session.updatedAt = typeof session.updatedAt === 'number' ? session.updatedAt : session.createdAt;
+    session.turns.forEach(turn => {
+        turn.timestamp = typeof turn.timestamp === 'number' ? turn.timestamp : session.updatedAt;
+        // Drop anything that would break the transcript, the dashboard or the report card.
+        turn.corrections = Array.isArray(turn.corrections) ? turn.corrections.flatMap(normalizeCorrection) : [];
+    });
+    if (Array.isArray(session.focusWords)) {
+        session.focusWords = session.focusWords.filter(word => typeof word === 'string' && word.trim() !== '');
+    } else {
+        delete session.focusWords;
+    }
+    const report = normalizeStoredReport(session.report, session.updatedAt);
+    if (report) session.report = report;
+    else delete session.report;
+    return upgradeSession(session);
+}
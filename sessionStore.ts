@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SESSION_STORE, withStore } from './db';
+import type { PracticeSession } from './types';
+
+/** Inserts or updates a practice session. */
+export async function saveSession(session: PracticeSession): Promise<void> {
+    await withStore(SESSION_STORE, 'readwrite', store => store.put(session));
+}
+
+/** Loads a single session, or `undefined` if it no longer exists. */
+export async function getSession(id: string): Promise<PracticeSession | undefined> {
+    const session = await withStore<PracticeSession | undefined>(SESSION_STORE, 'readonly', store => store.get(id));
+    return session && upgradeSession(session);
+}
+
+/** Lists all stored sessions, most recently used first. */
+export async function listSessions(): Promise<PracticeSession[]> {
+    const sessions = await withStore<PracticeSession[]>(SESSION_STORE, 'readonly', store => store.getAll());
+    return sessions.map(upgradeSession).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Fills in fields that older stored sessions don't have. */
+export function upgradeSession(session: PracticeSession): PracticeSession {
+    session.queuedTurns ??= [];
+    session.turns.forEach(turn => {
+        turn.corrections ??= [];
+        turn.inputMode ??= 'spoken';
+    });
+    return session;
+}
+
+/** Changes the display title of a session. */
+export async function renameSession(id: string, title: string): Promise<void> {
+    const session = await getSession(id);
+    if (!session) return;
+    session.title = title;
+    await saveSession(session);
+}
+
+/** Permanently removes a session. */
+export async function deleteSession(id: string): Promise<void> {
+    await withStore(SESSION_STORE, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getAccent } from './accents';
+import { detectNativeLanguage } from './i18n';
+import { DEFAULT_TUTOR_NAME } from './persona';
+import { profileStorageKey } from './profiles';
+import { DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL } from './tutorBackend';
+import type { AppSettings } from './types';
+
+// --- Settings ---
+// Settings live in localStorage, one copy per profile. Settings saved by older
+// versions of the app are missing newer fields, which get their defaults.
+const SETTINGS_KEY = 'appSettings';
+
+/** The settings a new learner starts with, guessing their languages from the browser's. */
+export function createDefaultSettings(browserLanguages: readonly string[] = navigator.languages ?? [navigator.language]): AppSettings {
+    return {
+        level: 'Intermediate',
+        voice: '',
+        speed: 1,
+        fontSize: 'medium',
+        handsFree: false,
+        editTranscripts: false,
+        recordVoice: false,
+        tutorName: DEFAULT_TUTOR_NAME,
+        personality: 'warm',
+        strictness: 'everything',
+        topics: [],
+        avoidTopics: [],
+        nativeLanguage: detectNativeLanguage(browserLanguages),
+        accent: getAccent(browserLanguages[0] ?? '').code,
+        backend: 'gemini',
+        model: DEFAULT_MODELS.gemini,
+        apiKey: '',
+        baseUrl: DEFAULT_OPENAI_BASE_URL,
+    };
+}
+
+/** Whether the active profile has saved settings yet; if not, the learner is new. */
+export function hasSavedSettings(): boolean {
+    return localStorage.getItem(profileStorageKey(SETTINGS_KEY)) !== null;
+}
+
+/** Loads the active profile's settings, with defaults for anything not saved. */
+export function loadSettings(defaults: AppSettings = createDefaultSettings()): AppSettings {
+    const saved = localStorage.getItem(profileStorageKey(SETTINGS_KEY));
+    if (!saved) return { ...defaults };
+    try {
+        return { ...defaults, ...JSON.parse(saved) };
+    } catch (error) {
+        console.error("Could not read settings:", error);
+        return { ...defaults };
+    }
+}
+
+/** Saves the active profile's settings. */
+export function saveSettings(settings: AppSettings) {
+    localStorage.setItem(profileStorageKey(SETTINGS_KEY), JSON.stringify(settings));
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { VocabularyEntry } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+/** SM-2 answer quality, from 0 (complete blackout) to 5 (perfect recall). */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** Creates a notebook entry that is due for its first review straight away. */
+export function createVocabularyEntry(term: string, context: string, note?: string, now: number = Date.now()): VocabularyEntry {
+    const entry: VocabularyEntry = {
+        id: crypto.randomUUID(),
+        term,
+        context,
+        createdAt: now,
+        repetitions: 0,
+        interval: 0,
+        easeFactor: INITIAL_EASE,
+        dueAt: now,
+    };
+    if (note) entry.note = note;
+    return entry;
+}
+
+/**
+ * Applies one review to an entry using the SM-2 algorithm and returns the updated entry.
+ * Answers below 3 restart the repetition sequence.
+ */
+export function reviewVocabularyEntry(entry: VocabularyEntry, quality: ReviewQuality, now: number = Date.now()): VocabularyEntry {
+    let { repetitions, interval } = entry;
+
+    if (quality >= 3) {
+        interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * entry.easeFactor);
+        repetitions++;
+    } else {
+        repetitions = 0;
+        interval = 1;
+    }
+
+    const easeFactor = Math.max(MIN_EASE, entry.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    return {
+        ...entry,
+        repetitions,
+        interval,
+        easeFactor,
+        dueAt: now + interval * DAY_MS,
+        lastReviewedAt: now,
+    };
+}
+
+function normalize(text: string): string[] {
+    return text.toLowerCase().replace(/[’]/g, "'").replace(/[^a-z0-9'\s-]/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Grades a spoken answer against the expected term. A confident, exact answer is
+ * perfect recall; getting most of a longer phrase counts as a near miss.
+ */
+export function gradeSpokenAnswer(term: string, transcript: string, confidence: number): ReviewQuality {
+    const expected = normalize(term);
+    const heard = normalize(transcript);
+    if (expected.length === 0) return 0;
+
+    const heardText = ` ${heard.join(' ')} `;
+    if (heardText.includes(` ${expected.join(' ')} `)) {
+        return confidence === 0 || confidence >= 0.8 ? 5 : 4;
+    }
+
+    const found = expected.filter(word => heard.includes(word)).length;
+    if (expected.length > 1 && found / expected.length >= 0.5) return 2;
+    return found > 0 ? 1 : 0;
+}
+
+/**
+ * Replaces the term in its context sentence with a gap, for recall practice.
+ * Returns `null` if the term isn't in the sentence.
+ */
+export function createCloze(entry: VocabularyEntry): string | null {
+    const index = entry.context.toLowerCase().indexOf(entry.term.toLowerCase());
+    if (index === -1) return null;
+    return `${entry.context.slice(0, index)}_____${entry.context.slice(index + entry.term.length)}`;
+}
@@ -0,0 +1,296 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { UiStringKey } from './i18n';
+
+// --- Type Definitions for Web Speech API ---
+interface SpeechRecognitionAlternative {
+  readonly transcript: string;
+  readonly confidence: number;
+}
+
+interface SpeechRecognitionResult {
+  readonly isFinal: boolean;
+  readonly length: number;
+  item(index: number): SpeechRecognitionAlternative;
+  [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionResultList {
+  readonly length: number;
+  item(index: number): SpeechRecognitionResult;
+  [index: number]: SpeechRecognitionResult;
+}
+
+export interface SpeechRecognitionEvent extends Event {
+  readonly results: SpeechRecognitionResultList;
+}
+
+export type SpeechRecognitionErrorCode =
+  | 'no-speech'
+  | 'aborted'
+  | 'audio-capture'
+  | 'network'
+  | 'not-allowed'
+  | 'service-not-allowed'
+  | 'bad-grammar'
+  | 'language-not-supported';
+
+export interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: SpeechRecognitionErrorCode;
+  readonly message: string;
+}
+
+export interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: (event: SpeechRecognitionEvent) => void;
+  onerror: (event: SpeechRecognitionErrorEvent) => void;
+  onend: () => void;
+  start(): void;
+  stop(): void;
+}
+
+export interface SpeechRecognitionStatic {
+  new(): SpeechRecognition;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: SpeechRecognitionStatic;
+    webkitSpeechRecognition: SpeechRecognitionStatic;
+  }
+}
+
+/**
+ * Something that keeps the learner from talking, described for them as interface
+ * text, so it can be shown in their language.
+ */
+export interface SpeechProblem {
+    title: UiStringKey;
+    message: UiStringKey;
+    /** Fills in the message's `{details}`, such as the browser's own description of a hardware error. */
+    details?: string;
+    /**
+     * Whether the microphone can't be used until the learner changes something, so
+     * it should be hidden. Otherwise the problem passes and a brief notice is enough.
+     */
+    persistent: boolean;
+}
+
+/** How the learner wants to be listened to. */
+export interface RecognitionConfig {
+    /** The accent to recognize, e.g. `en-GB`. */
+    lang: string;
+    /** Keep listening through pauses and report interim results, for hands-free turns. */
+    continuous: boolean;
+}
+
+export interface SpeechControllerOptions {
+    onResult: (event: SpeechRecognitionEvent) => void;
+    /** Called when recognition stops, whether the learner stopped it or the browser did. */
+    onEnd: () => void;
+    /** Called for errors worth telling the learner about. Listening has already stopped. */
+    onError: (problem: SpeechProblem) => void;
+    /** Called whenever listening starts or stops. */
+    onStateChange: (listening: boolean) => void;
+}
+
+export interface SpeechController {
+    /** Whether this browser can recognize speech at all. */
+    readonly supported: boolean;
+    /** Whether recognition has been set up, so listening can start. */
+    readonly ready: boolean;
+    readonly listening: boolean;
+    /** (Re)creates the recognizer, stopping any listening in progress. */
+    setup(config: RecognitionConfig): void;
+    start(): void;
+    stop(): void;
+    toggle(): void;
+}
+
+/** The parts of `navigator.mediaDevices` used to check the microphone. */
+export type MicrophoneDevices = Pick<MediaDevices, 'enumerateDevices' | 'getUserMedia'>;
+
+/** The parts of `window.speechSynthesis` used to speak. */
+export type SpeechOutput = Pick<SpeechSynthesis, 'speaking' | 'pending' | 'speak' | 'cancel'>;
+
+/** How many hypotheses to ask for. Only pronunciation mode uses more than the best one. */
+const MAX_ALTERNATIVES = 5;
+
+/**
+ * Describes a speech recognition error for the learner, or returns `null` when it
+ * isn't worth mentioning.
+ */
+export function describeRecognitionError(error: SpeechRecognitionErrorCode, online: boolean = navigator.onLine): SpeechProblem | null {
+    switch (error) {
+        case 'not-allowed':
+        case 'service-not-allowed':
+            return { title: 'permissionDenied', message: 'allowMicrophone', persistent: true };
+        case 'audio-capture':
+            return { title: 'noMicrophone', message: 'connectMicrophone', persistent: true };
+        case 'no-speech':
+            // No visual error needed for this, it's not a persistent state.
+            return null;
+        case 'network':
+            // Some browsers recognize speech on a server, so the mic stops working offline.
+            return { title: 'speechError', message: online ? 'speechServiceUnreachable' : 'speechNeedsConnection', persistent: false };
+        default:
+            return { title: 'speechError', message: 'unexpectedSpeechError', persistent: true };
+    }
+}
+
+/** Describes a failed request for microphone access for the learner. */
+export function describePermissionError(error: unknown): SpeechProblem {
+    if (error instanceof DOMException) {
+        if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
+            return { title: 'permissionDenied', message: 'microphoneBlocked', persistent: true };
+        }
+        if (error.name === 'NotFoundError' || error.name === 'DevicesNotFoundError') {
+            return { title: 'noMicrophone', message: 'checkMicrophoneConnected', persistent: true };
+        }
+        return { title: 'permissionError', message: 'hardwareError', details: error.message, persistent: true };
+    }
+    return { title: 'permissionError', message: 'unknownMicrophoneError', persistent: true };
+}
+
+/**
+ * Checks for connected audio devices and then requests microphone permission,
+ * which shows the browser's prompt if the learner hasn't chosen yet.
+ * @returns Why the microphone can't be used, or `null` if it can.
+ */
+export async function checkMicrophoneAccess(mediaDevices: MicrophoneDevices | undefined = navigator.mediaDevices): Promise<SpeechProblem | null> {
+    if (!mediaDevices?.enumerateDevices) {
+        return { title: 'featureNotSupported', message: 'cannotListDevices', persistent: true };
+    }
+    try {
+        const devices = await mediaDevices.enumerateDevices();
+        if (!devices.some(device => device.kind === 'audioinput')) {
+            return { title: 'noMicrophoneFound', message: 'connectAndAllowMicrophone', persistent: true };
+        }
+        const stream = await mediaDevices.getUserMedia({ audio: true });
+        // We have permission, so stop the tracks straight away rather than holding the stream open.
+        stream.getTracks().forEach(track => track.stop());
+        return null;
+    } catch (error) {
+        console.error('Error requesting microphone permission:', error);
+        return describePermissionError(error);
+    }
+}
+
+/** How `speakText` plays a piece of text. */
+export interface UtteranceOptions {
+    voice: SpeechSynthesisVoice | null;
+    lang: string;
+    rate: number;
+    /** Play after whatever is already playing instead of cutting it off. */
+    queue?: boolean;
+    /** Called with the position of each word as it starts, for voices that report word boundaries. */
+    onWord?: (charIndex: number) => void;
+    /** Called when the text has been spoken to the end, but not if it was cut off. */
+    onEnd?: () => void;
+    /** Called when the text stops playing for any reason, after `onEnd`. */
+    onFinish?: () => void;
+}
+
+/**
+ * Speaks text with the browser's speech synthesis. Unless it is queued,
+ * anything already playing is cut off.
+ */
+export function speakText(synthesis: SpeechOutput, text: string, options: UtteranceOptions): SpeechSynthesisUtterance {
+    if (!options.queue && (synthesis.speaking || synthesis.pending)) {
+        synthesis.cancel();
+    }
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.voice = options.voice;
+    utterance.lang = options.lang;
+    utterance.rate = options.rate;
+    utterance.pitch = 1;
+    utterance.onend = () => {
+        options.onEnd?.();
+        options.onFinish?.();
+    };
+    utterance.onerror = () => options.onFinish?.();
+    const { onWord } = options;
+    if (onWord) {
+        // Voices that don't report word boundaries simply play without them.
+        utterance.onboundary = (event) => {
+            if (event.name === 'word') onWord(event.charIndex);
+        };
+    }
+    synthesis.speak(utterance);
+    return utterance;
+}
+
+/**
+ * Owns the browser's speech recognizer and whether it is listening. Listening
+ * stops whenever recognition ends or fails, so the state always matches the browser's.
+ * @param {SpeechRecognitionStatic | undefined} Recognition - The browser's recognizer, if it has one.
+ */
+export function createSpeechController(Recognition: SpeechRecognitionStatic | undefined, options: SpeechControllerOptions): SpeechController {
+    let recognition: SpeechRecognition | null = null;
+    let listening = false;
+
+    const controller: SpeechController = {
+        get supported() {
+            return Boolean(Recognition);
+        },
+        get ready() {
+            return recognition !== null;
+        },
+        get listening() {
+            return listening;
+        },
+        setup({ lang, continuous }) {
+            if (!Recognition) return;
+            controller.stop();
+            recognition = new Recognition();
+            // Hands-free turns can include pauses; the caller's silence timer decides when they end.
+            recognition.continuous = continuous;
+            recognition.interimResults = continuous;
+            recognition.lang = lang;
+            recognition.maxAlternatives = MAX_ALTERNATIVES;
+
+            recognition.onresult = options.onResult;
+            recognition.onerror = (event) => {
+                console.error('Speech recognition error:', event.error, event.message);
+                controller.stop();
+                const problem = describeRecognitionError(event.error);
+                if (problem) options.onError(problem);
+            };
+            recognition.onend = () => {
+                controller.stop();
+                options.onEnd();
+            };
+        },
+        start() {
+            if (listening || !recognition) return;
+            try {
+                recognition.start();
+            } catch (error) {
+                console.error("Recognition start error:", error);
+                return;
+            }
+            listening = true;
+            options.onStateChange(true);
+        },
+        stop() {
+            if (!listening || !recognition) return;
+            listening = false;
+            options.onStateChange(false);
+            recognition.stop();
+        },
+        toggle() {
+            if (listening) {
+                controller.stop();
+            } else {
+                controller.start();
+            }
+        },
+    };
+    return controller;
+}
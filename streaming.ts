@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const ESCAPES: Record<string, string> = {
+    '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t',
+};
+
+/**
+ * Pulls the (possibly unfinished) "reply" string out of a partially streamed JSON
+ * response. The schema orders "reply" first, so it arrives before the corrections.
+ * Returns an empty string until the reply has started.
+ */
+export function extractStreamingReply(partialJson: string): string {
+    const start = partialJson.match(/"reply"\s*:\s*"/);
+    if (!start || start.index === undefined) return '';
+
+    let reply = '';
+    for (let i = start.index + start[0].length; i < partialJson.length; i++) {
+        const char = partialJson[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            reply += char;
+            continue;
+        }
+
+        const next = partialJson[i + 1];
+        if (next === undefined) break; // The escape sequence is split across chunks.
+        if (next === 'u') {
+            const hex = partialJson.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            reply += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            reply += ESCAPES[next] ?? next;
+            i += 1;
+        }
+    }
+    return reply;
+}
+
+/**
+ * Finds the sentences in `text` that are complete (ended by punctuation and
+ * followed by more text) and haven't been handed out yet.
+ * @param {string} text - Everything received so far.
+ * @param {number} fromIndex - Where the previous call stopped.
+ * @returns The new sentences, and the index to pass next time.
+ */
+export function takeCompleteSentences(text: string, fromIndex: number): { sentences: string[]; nextIndex: number } {
+    const sentences: string[] = [];
+    const boundary = /[.!?…]+["')\]]*\s+/g;
+    boundary.lastIndex = fromIndex;
+    let nextIndex = fromIndex;
+
+    let match: RegExpExecArray | null;
+    while ((match = boundary.exec(text))) {
+        const end = match.index + match[0].length;
+        const sentence = text.slice(nextIndex, end).trim();
+        if (sentence) sentences.push(sentence);
+        nextIndex = end;
+    }
+    return { sentences, nextIndex };
+}
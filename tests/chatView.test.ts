@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createChatView, highlightSpokenWord, markCorrections } from '../chatView';
+import { translateUi } from '../i18n';
+import type { Correction } from '../types';
+
+let container: HTMLElement;
+
+beforeEach(() => {
+    document.body.replaceChildren();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+});
+
+function createView(overrides: Partial<Parameters<typeof createChatView>[1]> = {}) {
+    return createChatView(container, {
+        t: key => translateUi(key, 'en'),
+        thinkingLabel: () => 'Alex is thinking…',
+        onWordTap: vi.fn(),
+        ...overrides,
+    });
+}
+
+describe('createChatView', () => {
+    it("renders the tutor's words so each can be tapped", () => {
+        const onWordTap = vi.fn();
+        const decorateTutorMessage = vi.fn((element: HTMLElement) => element.appendChild(document.createElement('button')));
+        const view = createView({ onWordTap, decorateTutorMessage });
+
+        const message = view.addMessage("Hello! What's new?", 'ai');
+        const words = message.querySelectorAll<HTMLElement>('.message-text .spoken-word');
+        expect(container.contains(message)).toBe(true);
+        expect(message.classList.contains('ai')).toBe(true);
+        expect(message.dataset.text).toBe("Hello! What's new?");
+        expect(message.querySelector('.message-text')?.textContent).toBe("Hello! What's new?");
+        expect(Array.from(words, word => word.textContent)).toEqual(['Hello!', "What's", 'new?']);
+        expect(decorateTutorMessage).toHaveBeenCalledWith(message);
+
+        words[2].click();
+        expect(onWordTap).toHaveBeenCalledWith('new?');
+    });
+
+    it("shows the learner's messages as plain text, with any feedback", () => {
+        const decorateTutorMessage = vi.fn();
+        const view = createView({ decorateTutorMessage });
+        const message = view.addMessage('I goes home', 'user', 'Use "go" with "I".');
+        expect(message.querySelector('.spoken-word')).toBeNull();
+        expect(message.querySelector('.feedback strong')?.textContent).toBe('Feedback:');
+        expect(message.querySelector('.feedback')?.textContent).toContain('Use "go" with "I".');
+        expect(decorateTutorMessage).not.toHaveBeenCalled();
+    });
+
+    it('updates a message that is being streamed in', () => {
+        const view = createView();
+        const message = view.addMessage('', 'ai');
+        view.setMessageText(message, 'Good morning');
+        expect(message.dataset.text).toBe('Good morning');
+        expect(message.querySelectorAll('.spoken-word')).toHaveLength(2);
+    });
+
+    it('shows a single thinking indicator until it is hidden', () => {
+        const view = createView();
+        view.showThinkingIndicator(true);
+        view.showThinkingIndicator(true);
+        const indicators = container.querySelectorAll('#thinking-indicator');
+        expect(indicators).toHaveLength(1);
+        expect(indicators[0].getAttribute('role')).toBe('status');
+        expect(indicators[0].getAttribute('aria-label')).toBe('Alex is thinking…');
+
+        view.showThinkingIndicator(false);
+        expect(container.querySelector('#thinking-indicator')).toBeNull();
+    });
+
+    it('clears the conversation', () => {
+        const view = createView();
+        view.addMessage('Hi', 'user');
+        view.append(document.createElement('section'));
+        expect(container.children).toHaveLength(2);
+        view.clear();
+        expect(container.children).toHaveLength(0);
+    });
+});
+
+describe('message helpers', () => {
+    it('lights up the word being spoken', () => {
+        const message = createView().addMessage('See you tomorrow', 'ai');
+        highlightSpokenWord(message, 5);
+        expect(message.querySelector('.speaking')?.textContent).toBe('you');
+        highlightSpokenWord(message, 8);
+        expect(Array.from(message.querySelectorAll('.speaking'), word => word.textContent)).toEqual(['tomorrow']);
+        highlightSpokenWord(message, null);
+        expect(message.querySelector('.speaking')).toBeNull();
+    });
+
+    it('marks corrections inline', () => {
+        const correction: Correction = { original: 'goes', corrected: 'go', category: 'grammar', explanation: 'Use "go" with "I".' };
+        const message = createView().addMessage('I goes home', 'user');
+        markCorrections(message, 'I goes home', [correction]);
+        const mark = message.querySelector('.correction.category-grammar') as HTMLElement;
+        expect(mark.title).toBe('Use "go" with "I".');
+        expect(mark.querySelector('del')?.textContent).toBe('goes');
+        expect(mark.querySelector('ins')?.textContent).toBe('go');
+        expect(message.textContent).toBe('I goesgo home');
+    });
+
+    it('shows words from another variety of English without striking them through', () => {
+        const note: Correction = { original: 'lorry', corrected: 'truck', category: 'vocabulary', explanation: 'UK vs US', variant: true };
+        const message = createView().addMessage('A big lorry', 'user');
+        markCorrections(message, 'A big lorry', [note]);
+        const mark = message.querySelector('.correction.variant') as HTMLElement;
+        expect(mark.querySelector('del')).toBeNull();
+        expect(mark.querySelector('.variant-alternative')?.textContent).toBe('truck');
+        expect(message.querySelector('.category-vocabulary')).toBeNull();
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { exportResultsJson, parseResultsFile } from '../classroom';
+import type { AssignmentResult } from '../types';
+
+const result: AssignmentResult = {
+    assignmentId: 'assignment-1',
+    assignmentTitle: 'At the café',
+    student: 'Maria',
+    sessionId: 'session-1',
+    startedAt: 1,
+    updatedAt: 2,
+    completed: true,
+    turns: 6,
+    minTurns: 6,
+    wordsSpoken: 80,
+    vocabularyUsed: ['menu'],
+    vocabularyMissed: ['bill'],
+    corrections: { grammar: 2 },
+    cefrLevel: 'B1',
+};
+
+/** Exports a result and edits the raw JSON, the way a hand-edited or damaged file would look. */
+function damage(change: (data: Record<string, any>) => void): string {
+    const data = JSON.parse(exportResultsJson('Maria', [result]));
+    change(data.results[0]);
+    return JSON.stringify(data);
+}
+
+describe('parseResultsFile', () => {
+    it('reads back exported results', () => {
+        expect(parseResultsFile(exportResultsJson('Maria', [result]))).toEqual([result]);
+    });
+
+    it('rejects results missing the fields the overview is built from', () => {
+        expect(() => parseResultsFile(damage(data => { data.turns = 'six'; }))).toThrow('damaged');
+        expect(() => parseResultsFile(damage(data => { delete data.sessionId; }))).toThrow('damaged');
+    });
+
+    it('fills in fields that are missing or the wrong type', () => {
+        const [parsed] = parseResultsFile(damage(data => {
+            data.assignmentTitle = 7;
+            data.completed = 'yes';
+            data.minTurns = null;
+            data.wordsSpoken = 'lots';
+            data.updatedAt = Number.NaN;
+            data.corrections = { grammar: 'two', style: 3, spelling: 1 };
+            data.cefrLevel = 'Z9';
+        }));
+        expect(parsed).toEqual({
+            ...result,
+            assignmentTitle: 'assignment-1',
+            completed: false,
+            minTurns: 1,
+            wordsSpoken: 0,
+            updatedAt: 1,
+            corrections: { spelling: 1 },
+            cefrLevel: undefined,
+        });
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Test Fakes ---
+// Stand-ins for the browser and model APIs the app talks to. Each records what
+// the app asked of it and lets a test play the other side of the conversation.
+import type { GenerateContentResponse } from '@google/genai';
+import type { GeminiChat } from '../geminiBackend';
+import type {
+    MicrophoneDevices, SpeechOutput, SpeechRecognition,
+    SpeechRecognitionErrorCode, SpeechRecognitionErrorEvent, SpeechRecognitionEvent,
+} from '../speechController';
+
+/** A recognizer whose results, errors and endings are triggered by the test. */
+export class FakeSpeechRecognition extends EventTarget implements SpeechRecognition {
+    /** Every recognizer created, oldest first. */
+    static instances: FakeSpeechRecognition[] = [];
+
+    continuous = false;
+    lang = '';
+    interimResults = false;
+    maxAlternatives = 1;
+    onresult: (event: SpeechRecognitionEvent) => void = () => {};
+    onerror: (event: SpeechRecognitionErrorEvent) => void = () => {};
+    onend: () => void = () => {};
+    started = false;
+    stopCalls = 0;
+    /** Makes the next `start()` throw, as browsers do when recognition is busy. */
+    failNextStart = false;
+
+    constructor() {
+        super();
+        FakeSpeechRecognition.instances.push(this);
+    }
+
+    /** The recognizer created most recently. */
+    static latest(): FakeSpeechRecognition {
+        return FakeSpeechRecognition.instances[FakeSpeechRecognition.instances.length - 1];
+    }
+
+    start() {
+        if (this.started || this.failNextStart) {
+            this.failNextStart = false;
+            throw new DOMException('Recognition has already started.', 'InvalidStateError');
+        }
+        this.started = true;
+    }
+
+    stop() {
+        this.started = false;
+        this.stopCalls++;
+    }
+
+    /** Reports one utterance, with its transcripts best first. */
+    say(...transcripts: string[]) {
+        const alternatives = transcripts.map((transcript, index) => ({ transcript, confidence: 0.9 - index * 0.1 }));
+        const result = Object.assign(alternatives, {
+            isFinal: true,
+            item: (index: number) => alternatives[index],
+        });
+        const results = Object.assign([result], { item: () => result });
+        this.onresult(Object.assign(new Event('result'), { results }) as unknown as SpeechRecognitionEvent);
+    }
+
+    /** Fails the way the browser does, then ends. */
+    fail(error: SpeechRecognitionErrorCode) {
+        this.started = false;
+        this.onerror(Object.assign(new Event('error'), { error, message: '' }) as SpeechRecognitionErrorEvent);
+        this.onend();
+    }
+
+    /** Ends recognition, as happens after the learner stops or pauses. */
+    end() {
+        this.started = false;
+        this.onend();
+    }
+}
+
+/** An utterance that only records how it was set up. */
+export class FakeUtterance {
+    voice: SpeechSynthesisVoice | null = null;
+    lang = '';
+    rate = 1;
+    pitch = 1;
+    onend: ((event: SpeechSynthesisEvent) => void) | null = null;
+    onerror: ((event: SpeechSynthesisErrorEvent) => void) | null = null;
+    onboundary: ((event: SpeechSynthesisEvent) => void) | null = null;
+
+    constructor(public text: string) {}
+}
+
+export interface FakeSpeechSynthesis extends SpeechOutput {
+    /** What is playing, then what is waiting to play. */
+    queue: SpeechSynthesisUtterance[];
+    /** Plays the current utterance to the end. */
+    finish(): void;
+    /** Reports that the current utterance has reached a word. */
+    reachWord(charIndex: number): void;
+}
+
+/** Speech synthesis that plays nothing; the test decides when speech ends. Needs `FakeUtterance` as the global utterance. */
+export function createFakeSpeechSynthesis(): FakeSpeechSynthesis {
+    const queue: SpeechSynthesisUtterance[] = [];
+    const event = (init: object) => init as SpeechSynthesisErrorEvent;
+    return {
+        queue,
+        get speaking() {
+            return queue.length > 0;
+        },
+        get pending() {
+            return queue.length > 1;
+        },
+        speak(utterance) {
+            queue.push(utterance);
+        },
+        cancel() {
+            queue.splice(0).forEach(utterance => utterance.onerror?.call(utterance, event({ error: 'interrupted' })));
+        },
+        finish() {
+            const utterance = queue.shift();
+            utterance?.onend?.call(utterance, event({}));
+        },
+        reachWord(charIndex) {
+            const utterance = queue[0];
+            utterance?.onboundary?.call(utterance, event({ name: 'word', charIndex }));
+        },
+    };
+}
+
+/** A microphone track that remembers being stopped. */
+export interface FakeTrack {
+    stopped: boolean;
+    stop(): void;
+}
+
+export interface FakeMediaDevices extends MicrophoneDevices {
+    /** Every track handed out, so tests can check the microphone was released. */
+    tracks: FakeTrack[];
+    requests: number;
+}
+
+export interface FakeMediaDevicesOptions {
+    /** The kinds of device connected. */
+    devices?: MediaDeviceKind[];
+    /** What `getUserMedia` throws, e.g. a `NotAllowedError` when the learner blocks the mic. */
+    denyWith?: unknown;
+}
+
+/** Media devices with a configurable set of devices and permission answer. */
+export function createFakeMediaDevices({ devices = ['audioinput', 'audiooutput'], denyWith }: FakeMediaDevicesOptions = {}): FakeMediaDevices {
+    const fake: FakeMediaDevices = {
+        tracks: [],
+        requests: 0,
+        async enumerateDevices() {
+            return devices.map(kind => ({ kind, deviceId: kind, groupId: '', label: '', toJSON: () => ({}) }));
+        },
+        async getUserMedia() {
+            fake.requests++;
+            if (denyWith) throw denyWith;
+            const track: FakeTrack = {
+                stopped: false,
+                stop() {
+                    track.stopped = true;
+                },
+            };
+            fake.tracks.push(track);
+            return { getTracks: () => [track] } as unknown as MediaStream;
+        },
+    };
+    return fake;
+}
+
+/** A media recorder that captures the given chunks of audio when stopped. */
+export function createFakeMediaRecorder(chunks: Blob[]) {
+    return class FakeMediaRecorder {
+        static instances: FakeMediaRecorder[] = [];
+        state: RecordingState = 'inactive';
+        mimeType = 'audio/webm';
+        ondataavailable: ((event: { data: Blob }) => void) | null = null;
+        onstop: (() => void) | null = null;
+
+        constructor(public stream: MediaStream) {
+            FakeMediaRecorder.instances.push(this);
+        }
+
+        start() {
+            this.state = 'recording';
+        }
+
+        stop() {
+            this.state = 'inactive';
+            chunks.forEach(data => this.ondataavailable?.({ data }));
+            this.onstop?.();
+        }
+    };
+}
+
+export interface FakeGeminiChat extends GeminiChat {
+    /** Every message sent, in order. */
+    messages: string[];
+}
+
+/**
+ * A Gemini chat that answers with scripted replies, in order. Streamed replies
+ * arrive in pieces of `chunkSize` characters.
+ */
+export function createFakeGeminiChat(replies: string[], chunkSize: number = 8): FakeGeminiChat {
+    const remaining = [...replies];
+    const respond = (text: string | undefined) => ({ text }) as GenerateContentResponse;
+    const fake: FakeGeminiChat = {
+        messages: [],
+        async sendMessage({ message }) {
+            fake.messages.push(String(message));
+            return respond(remaining.shift());
+        },
+        async sendMessageStream({ message }) {
+            fake.messages.push(String(message));
+            const reply = remaining.shift() ?? '';
+            return (async function* () {
+                for (let i = 0; i < reply.length; i += chunkSize) {
+                    yield respond(reply.slice(i, i + chunkSize));
+                }
+            })();
+        },
+    };
+    return fake;
+}
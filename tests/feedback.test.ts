@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { formatLearnerMessage, isMistake, parseLearnerMessage, parseTutorResponse, segmentCorrections, serializeTutorResponse } from '../feedback';
+import type { Correction } from '../types';
+
+const goesCorrection: Correction = { original: 'goes', corrected: 'go', category: 'grammar', explanation: 'Use "go" with "I".' };
+
+describe('parseTutorResponse', () => {
+    it('reads the reply and each correction', () => {
+        const response = parseTutorResponse(JSON.stringify({
+            reply: ' Which school? ',
+            corrections: [{ ...goesCorrection, grammarPoint: 'Subject-Verb Agreement', translatedExplanation: 'Usa "go" con "I".' }],
+        }));
+        expect(response).toEqual({
+            reply: 'Which school?',
+            corrections: [{ ...goesCorrection, grammarPoint: 'subject-verb agreement', translatedExplanation: 'Usa "go" con "I".' }],
+        });
+    });
+
+    it('shows malformed output as plain conversation', () => {
+        expect(parseTutorResponse(' Sorry, I lost my train of thought. ')).toEqual({ reply: 'Sorry, I lost my train of thought.', corrections: [] });
+        expect(parseTutorResponse('null')).toEqual({ reply: 'null', corrections: [] });
+    });
+
+    it('drops corrections missing required fields', () => {
+        const response = parseTutorResponse(JSON.stringify({
+            reply: 'Great!',
+            corrections: [null, 'goes → go', { corrected: 'go' }, { original: '  ', corrected: 'go' }, goesCorrection],
+        }));
+        expect(response.corrections).toEqual([goesCorrection]);
+    });
+
+    it('treats unknown categories as grammar and only keeps grammar points for grammar', () => {
+        const { corrections } = parseTutorResponse(JSON.stringify({
+            reply: '',
+            corrections: [
+                { original: 'a', corrected: 'b', category: 'style', explanation: 'x' },
+                { original: 'c', corrected: 'd', category: 'vocabulary', explanation: 'y', grammarPoint: 'articles' },
+            ],
+        }));
+        expect(corrections.map(correction => correction.category)).toEqual(['grammar', 'vocabulary']);
+        expect(corrections[1].grammarPoint).toBeUndefined();
+    });
+
+    it('keeps notes about other varieties of English apart from mistakes', () => {
+        const { corrections } = parseTutorResponse(JSON.stringify({
+            reply: '',
+            corrections: [
+                { original: 'lorry', corrected: 'truck', category: 'vocabulary', explanation: 'UK vs US', variant: true },
+                { ...goesCorrection, variant: 'yes' },
+            ],
+        }));
+        expect(corrections.map(isMistake)).toEqual([false, true]);
+        expect(corrections[1]).not.toHaveProperty('variant');
+    });
+
+    it('keeps whether a scenario goal was met', () => {
+        expect(parseTutorResponse('{"reply":"Here is your coffee.","corrections":[],"goalMet":true}').goalMet).toBe(true);
+        expect(parseTutorResponse('{"reply":"Hi","corrections":[]}')).not.toHaveProperty('goalMet');
+    });
+
+    it('reads back what it serializes', () => {
+        const response = { reply: 'Nice!', corrections: [goesCorrection] };
+        expect(parseTutorResponse(serializeTutorResponse(response))).toEqual(response);
+    });
+});
+
+describe('learner messages', () => {
+    it('marks typed messages so the tutor judges them as writing', () => {
+        const message = formatLearnerMessage('I has a cat', 'typed');
+        expect(message).not.toBe('I has a cat');
+        expect(parseLearnerMessage(message)).toEqual({ text: 'I has a cat', inputMode: 'typed' });
+        expect(parseLearnerMessage(formatLearnerMessage('I has a cat', 'spoken'))).toEqual({ text: 'I has a cat', inputMode: 'spoken' });
+    });
+});
+
+describe('segmentCorrections', () => {
+    it('splits a message around its corrections', () => {
+        const { segments, unplaced } = segmentCorrections('Yesterday I goes to school', [goesCorrection]);
+        expect(segments).toEqual([
+            { text: 'Yesterday I ' },
+            { text: 'goes', correction: goesCorrection },
+            { text: ' to school' },
+        ]);
+        expect(unplaced).toEqual([]);
+    });
+
+    it('returns corrections that cannot be placed separately', () => {
+        const missing: Correction = { ...goesCorrection, original: 'went' };
+        const { segments, unplaced } = segmentCorrections('I goes', [goesCorrection, missing]);
+        expect(segments.map(segment => segment.text).join('')).toBe('I goes');
+        expect(unplaced).toEqual([missing]);
+    });
+});
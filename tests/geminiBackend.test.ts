@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createGeminiTutorChat } from '../geminiBackend';
+import { formatLearnerMessage, parseTutorResponse } from '../feedback';
+import { extractStreamingReply } from '../streaming';
+import { createFakeGeminiChat } from './fakes';
+
+const reply = JSON.stringify({
+    reply: 'Which school do you go to?',
+    corrections: [{ original: 'goes', corrected: 'go', category: 'grammar', explanation: 'Use "go" with "I".', grammarPoint: 'subject-verb agreement' }],
+});
+
+describe('createGeminiTutorChat', () => {
+    it('sends the message and returns the reply text', async () => {
+        const gemini = createFakeGeminiChat([reply]);
+        const chat = createGeminiTutorChat(gemini);
+        const raw = await chat.sendMessage(formatLearnerMessage('I goes to school', 'spoken'));
+
+        expect(gemini.messages).toEqual(['I goes to school']);
+        expect(parseTutorResponse(raw).corrections[0]).toMatchObject({ original: 'goes', grammarPoint: 'subject-verb agreement' });
+    });
+
+    it('returns an empty reply when the model sends no text', async () => {
+        const chat = createGeminiTutorChat(createFakeGeminiChat([]));
+        expect(await chat.sendMessage('Hello')).toBe('');
+    });
+
+    it('streams the reply in pieces that can be read as they arrive', async () => {
+        const chat = createGeminiTutorChat(createFakeGeminiChat([reply], 5));
+        const pieces: string[] = [];
+        let raw = '';
+        for await (const chunk of chat.sendMessageStream('Hello')) {
+            pieces.push(chunk);
+            raw += chunk;
+        }
+
+        expect(pieces.length).toBeGreaterThan(1);
+        expect(raw).toBe(reply);
+        expect(extractStreamingReply(raw.slice(0, 22))).toBe('Which school');
+        expect(parseTutorResponse(raw).reply).toBe('Which school do you go to?');
+    });
+});
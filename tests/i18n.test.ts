@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { UI_STRINGS, fillPlaceholders, localizeDocument, translateUi } from '../i18n';
+
+beforeEach(() => {
+    document.body.innerHTML = `
+        <p data-i18n="chooseLevelIntro"></p>
+        <button data-i18n-title="shortcutReplay"></button>`;
+});
+
+describe('localizeDocument', () => {
+    it("translates the page and fills in the tutor's name", () => {
+        localizeDocument(document, 'fr', 'Robin');
+        expect(document.documentElement.lang).toBe('fr');
+        expect(document.querySelector('p')?.textContent).toContain('Cela aide Robin');
+        expect(document.querySelector('button')?.title).toBe('Réécouter le dernier message de Robin');
+    });
+
+    it('sets the reading direction and falls back to English', () => {
+        localizeDocument(document, 'he', 'Alex');
+        expect(document.documentElement.dir).toBe('rtl');
+        localizeDocument(document, 'ko', 'Alex');
+        expect(document.documentElement.lang).toBe('en');
+        expect(document.querySelector('p')?.textContent).toBe(translateUi('chooseLevelIntro', 'en').replace('{name}', 'Alex'));
+    });
+
+    it('keeps a right-to-left layout for languages shown in English', () => {
+        localizeDocument(document, 'fa', 'Alex');
+        expect(document.documentElement.lang).toBe('en');
+        expect(document.documentElement.dir).toBe('rtl');
+        expect(document.querySelector('p')?.textContent).toBe(translateUi('chooseLevelIntro', 'en').replace('{name}', 'Alex'));
+    });
+});
+
+describe('interface text', () => {
+    it('fills in placeholders', () => {
+        expect(fillPlaceholders(translateUi('drillComplete', 'es'), { right: 3, total: 4 })).toBe('¡Ejercicio terminado! 3 de 4 correctas.');
+        expect(fillPlaceholders('{name} and {other}', { name: 'Robin' })).toBe('Robin and {other}');
+    });
+
+    it('translates every message into every interface language', () => {
+        const keys = Object.keys(UI_STRINGS.en).sort();
+        Object.entries(UI_STRINGS).forEach(([code, strings]) => {
+            expect(Object.keys(strings).sort(), code).toEqual(keys);
+            expect(Object.values(strings).filter(text => !text.trim()), code).toEqual([]);
+        });
+        expect(translateUi('noGrammarMistakesYet', 'he')).toContain('{name}');
+    });
+});
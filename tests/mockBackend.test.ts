@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createMockBackend } from '../mockBackend';
+import {
+    FrequentGrammarPoint, createDrillCheckInstruction, createDrillInstruction, drillCheckSchema,
+    drillResponseSchema, formatDrillAnswer, parseDrillCheck, parseDrillExercises,
+} from '../drills';
+import { formatLearnerMessage, parseTutorResponse, tutorResponseSchema } from '../feedback';
+import { scenarioResponseSchema } from '../roleplay';
+
+const points: FrequentGrammarPoint[] = [
+    { point: 'past simple', count: 3, examples: [{ original: 'goed', corrected: 'went', category: 'grammar', explanation: '', grammarPoint: 'past simple' }] },
+    { point: 'articles', count: 2, examples: [{ original: 'a apple', corrected: 'an apple', category: 'grammar', explanation: '', grammarPoint: 'articles' }] },
+];
+
+describe('createMockBackend', () => {
+    it('writes a drill for the grammar points asked for and checks the answers', async () => {
+        const backend = createMockBackend();
+        const writer = backend.createChat({
+            task: { kind: 'drill', grammarPoints: points.map(({ point }) => point) },
+            systemInstruction: createDrillInstruction(points, 'Intermediate', 'en-US', 'Alex'),
+            history: [],
+            responseSchema: drillResponseSchema,
+        });
+        const exercises = parseDrillExercises(await writer.sendMessage('Write the drill.'));
+        expect([...new Set(exercises.map(exercise => exercise.grammarPoint))]).toEqual(['past simple', 'articles']);
+
+        const checker = backend.createChat({
+            task: { kind: 'drillCheck' },
+            systemInstruction: createDrillCheckInstruction('Alex'),
+            history: [],
+            responseSchema: drillCheckSchema,
+        });
+        const [exercise] = exercises;
+        const check = (answer: string) => checker.sendMessage(formatDrillAnswer(exercise, answer), {
+            drillAnswer: { modelAnswer: exercise.answer, answer },
+        }).then(parseDrillCheck);
+
+        expect(await check(`I think it's ${exercise.answer}.`)).toMatchObject({ correct: true });
+        expect(await check('goed')).toEqual({
+            correct: false,
+            feedback: `Not quite. You could say: "${exercise.answer}"`,
+            correctedAnswer: exercise.answer,
+        });
+    });
+
+    it('corrects common mistakes in conversation', async () => {
+        const chat = createMockBackend().createChat({ task: { kind: 'conversation' }, systemInstruction: '', history: [], responseSchema: tutorResponseSchema });
+        const response = parseTutorResponse(await chat.sendMessage(formatLearnerMessage('Yesterday i goed home', 'typed')));
+        expect(response.corrections.map(correction => correction.corrected)).toEqual(['I', 'went']);
+        expect(response).not.toHaveProperty('goalMet');
+    });
+
+    it("reports a scenario's goal after a few turns", async () => {
+        const chat = createMockBackend().createChat({ task: { kind: 'scenario' }, systemInstruction: '', history: [], responseSchema: scenarioResponseSchema });
+        const goals = [];
+        for (let i = 0; i < 4; i++) goals.push(parseTutorResponse(await chat.sendMessage('Hello')).goalMet);
+        expect(goals).toEqual([false, false, false, true]);
+    });
+});
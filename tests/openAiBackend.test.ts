@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Mock, afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAiBackend, readStreamDelta } from '../openAiBackend';
+import { tutorResponseSchema } from '../feedback';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+const chunk = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n`;
+
+const createChat = () => createOpenAiBackend({ baseUrl: 'http://localhost:8080/v1/', apiKey: '', model: 'test' })
+    .createChat({ task: { kind: 'conversation' }, systemInstruction: 'Be nice.', history: [], responseSchema: tutorResponseSchema });
+
+/** The text of every message in one of the requests sent to the model server. */
+function sentMessages(fetchMock: Mock, call: number): string[] {
+    return JSON.parse(fetchMock.mock.calls[call][1].body).messages.map((message: { content: string }) => message.content);
+}
+
+describe('readStreamDelta', () => {
+    it('reads the text of a chunk', () => {
+        expect(readStreamDelta(JSON.stringify({ choices: [{ delta: { content: 'Hi' } }] }))).toBe('Hi');
+        expect(readStreamDelta(JSON.stringify({ choices: [{ delta: {} }] }))).toBe('');
+    });
+
+    it('skips lines that are not JSON', () => {
+        expect(readStreamDelta('keep-alive')).toBe('');
+        expect(readStreamDelta('{"choices": [')).toBe('');
+    });
+});
+
+describe('createOpenAiBackend', () => {
+    it('streams a reply through keep-alive lines', async () => {
+        const body = [chunk('{"reply":'), 'data: keep-alive\n', ': comment\n', chunk('"Hi"}'), 'data: [DONE]\n'].join('');
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(body)));
+        const chat = createChat();
+
+        let text = '';
+        for await (const piece of chat.sendMessageStream('Hello')) text += piece;
+        expect(text).toBe('{"reply":"Hi"}');
+        expect(fetch).toHaveBeenCalledWith('http://localhost:8080/v1/chat/completions', expect.anything());
+    });
+
+    it('reads a last chunk that has no newline after it', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(chunk('{"reply":') + chunk('"Hi"}').trimEnd())));
+        let text = '';
+        for await (const piece of createChat().sendMessageStream('Hello')) text += piece;
+        expect(text).toBe('{"reply":"Hi"}');
+    });
+
+    it('sends each message with the exchanges before it, even when sent together', async () => {
+        const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+            const { messages } = JSON.parse(String(init.body));
+            return Response.json({ choices: [{ message: { content: `reply ${messages.length}` } }] });
+        });
+        vi.stubGlobal('fetch', fetchMock);
+        const chat = createChat();
+
+        expect(await Promise.all([chat.sendMessage('One'), chat.sendMessage('Two')])).toEqual(['reply 2', 'reply 4']);
+        expect(sentMessages(fetchMock, 1)).toEqual(['Be nice.', 'One', 'reply 2', 'Two']);
+    });
+
+    it('forgets a reply the learner talked over and then sends the next turn', async () => {
+        const encoder = new TextEncoder();
+        const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+            if (fetchMock.mock.calls.length > 1) return new Response(chunk('{"reply":"Sure"}'));
+            // The first reply stalls after one piece until it is aborted.
+            return new Response(new ReadableStream({
+                start(controller) {
+                    controller.enqueue(encoder.encode(chunk('{"reply":')));
+                    init.signal?.addEventListener('abort', () => controller.error(init.signal?.reason));
+                },
+            }));
+        });
+        vi.stubGlobal('fetch', fetchMock);
+        const chat = createChat();
+
+        const interrupt = new AbortController();
+        const first = chat.sendMessageStream('Tell me a story', interrupt.signal);
+        expect((await first.next()).value).toBe('{"reply":');
+        const second = (async () => {
+            let text = '';
+            for await (const piece of chat.sendMessageStream('Actually, never mind')) text += piece;
+            return text;
+        })();
+        expect(fetchMock).toHaveBeenCalledOnce();
+
+        interrupt.abort();
+        await expect(first.next()).rejects.toThrow();
+        expect(await second).toBe('{"reply":"Sure"}');
+        expect(sentMessages(fetchMock, 1)).toEqual(['Be nice.', 'Actually, never mind']);
+    });
+});
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { TutorPromptSettings, createTutorInstruction, createWelcomeMessage, normalizeTutorName, parseTopicList } from '../persona';
+
+const settings: TutorPromptSettings = {
+    level: 'Beginner',
+    nativeLanguage: 'en',
+    accent: 'en-US',
+    tutorName: 'Alex',
+    personality: 'warm',
+    strictness: 'everything',
+    topics: [],
+    avoidTopics: [],
+};
+
+describe('createTutorInstruction', () => {
+    it('describes the tutor, the level and the corrections format', () => {
+        const instruction = createTutorInstruction(settings);
+        expect(instruction).toContain('named Alex');
+        expect(instruction).toContain('proficiency level of: Beginner');
+        expect(instruction).toContain('Speak slowly');
+        expect(instruction).toContain('Always answer in JSON');
+        expect(instruction).not.toContain('Topics I enjoy');
+        expect(instruction).not.toContain("Words I'm learning");
+    });
+
+    it("uses the learner's choice of name and personality", () => {
+        const instruction = createTutorInstruction({ ...settings, tutorName: '  Captain   Grammar ', personality: 'formal' });
+        expect(instruction).toContain('named Captain Grammar');
+        expect(instruction).toContain('business English coach');
+    });
+
+    it('includes topics to steer towards and away from', () => {
+        const instruction = createTutorInstruction({ ...settings, topics: ['football', 'cooking'], avoidTopics: ['politics'] });
+        expect(instruction).toContain('**Topics I enjoy:** football, cooking.');
+        expect(instruction).toContain('**Topics to avoid:** politics.');
+    });
+
+    it('brings up notebook words that are due', () => {
+        expect(createTutorInstruction(settings, ['reluctant', 'commute'])).toContain("**Words I'm learning:** reluctant, commute.");
+    });
+
+    it('follows the chosen correction strictness', () => {
+        expect(createTutorInstruction({ ...settings, strictness: 'essential' })).not.toBe(createTutorInstruction(settings));
+    });
+});
+
+describe('tutor persona helpers', () => {
+    it('cleans up tutor names', () => {
+        expect(normalizeTutorName('  Ms   Lee ')).toBe('Ms Lee');
+        expect(normalizeTutorName('   ')).toBe('Alex');
+        expect(normalizeTutorName('x'.repeat(50))).toHaveLength(30);
+    });
+
+    it('reads topic lists', () => {
+        expect(parseTopicList('Football, cooking\n\n travel ,football')).toEqual(['Football', 'cooking', 'travel']);
+        expect(parseTopicList(' , ')).toEqual([]);
+    });
+
+    it('welcomes the learner by the tutor’s name', () => {
+        expect(createWelcomeMessage('Advanced', 'Robin')).toContain("I'm Robin");
+    });
+});
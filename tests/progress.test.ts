@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { computeProgress } from '../progress';
+import { assessLevel } from '../placement';
+import type { Correction, PracticeSession } from '../types';
+
+const goesCorrection: Correction = { original: 'goes', corrected: 'go', category: 'grammar', explanation: 'Use "go" with "I".' };
+const lorryNote: Correction = { original: 'lorry', corrected: 'truck', category: 'vocabulary', explanation: 'UK vs US', variant: true };
+
+function createSession(corrections: Correction[]): PracticeSession {
+    return {
+        id: 'session-1',
+        title: 'Trucks',
+        level: 'Intermediate',
+        welcomeMessage: 'Hi there!',
+        turns: [
+            { userText: 'I goes to work by lorry', inputMode: 'spoken', aiText: 'Nice!', corrections, timestamp: 1 },
+            { userText: 'The lorry was late', inputMode: 'spoken', aiText: 'Oh no!', corrections: [lorryNote], timestamp: 2 },
+        ],
+        queuedTurns: [],
+        createdAt: 1,
+        updatedAt: 2,
+    };
+}
+
+describe('notes about other varieties of English', () => {
+    it('are not counted as errors on the dashboard', () => {
+        const [session] = computeProgress([createSession([goesCorrection, lorryNote])], 2).sessions;
+        expect(session.errors.grammar).toBe(1);
+        expect(session.errors.vocabulary).toBe(0);
+        expect(computeProgress([createSession([lorryNote])], 2).recurringMistakes).toEqual([]);
+    });
+
+    it('do not lower the placement accuracy score', () => {
+        const turns = createSession([]).turns;
+        const withNotes = assessLevel(turns.map(turn => ({ ...turn, corrections: [lorryNote] })));
+        expect(withNotes.errorDensity).toBe(0);
+        expect(withNotes).toEqual(assessLevel(turns));
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { exportSessionHtml, exportSessionJson, exportSessionMarkdown, parseSessionExport } from '../sessionExport';
+import type { Correction, PracticeSession } from '../types';
+
+const goesCorrection: Correction = { original: 'goes', corrected: 'go', category: 'grammar', explanation: 'Use "go" with "I".' };
+
+function createSession(overrides: Partial<PracticeSession> = {}): PracticeSession {
+    return {
+        id: 'session-1',
+        title: 'Weekend plans',
+        level: 'Intermediate',
+        welcomeMessage: 'Hi there!',
+        tutorName: 'Alex',
+        turns: [{ userText: 'I goes home', inputMode: 'spoken', aiText: 'Nice!', corrections: [goesCorrection], timestamp: 2 }],
+        queuedTurns: [],
+        createdAt: 1,
+        updatedAt: 2,
+        ...overrides,
+    };
+}
+
+/** Exports a session and edits the raw JSON, the way a hand-edited or damaged file would look. */
+function damage(session: PracticeSession, change: (data: Record<string, any>) => void): string {
+    const data = JSON.parse(exportSessionJson(session));
+    change(data.session);
+    return JSON.stringify(data);
+}
+
+describe('parseSessionExport', () => {
+    it('reads back an exported session', () => {
+        const session = createSession({
+            report: { createdAt: 3, strengths: ['Clear answers'], focusAreas: [], newVocabulary: [], cefr: { level: 'B1', evidence: [] } },
+        });
+        expect(parseSessionExport(exportSessionJson(session))).toEqual(session);
+    });
+
+    it('rejects files that are not session exports', () => {
+        expect(() => parseSessionExport('{')).toThrow('not valid JSON');
+        expect(() => parseSessionExport('{"format":"other"}')).toThrow('not an exported practice session');
+    });
+
+    it('cleans up corrections and drops unusable ones', () => {
+        const text = damage(createSession(), session => {
+            session.turns[0].corrections = [null, { corrected: 'go' }, { ...goesCorrection, category: 'style' }];
+        });
+        expect(parseSessionExport(text).turns[0].corrections).toEqual([goesCorrection]);
+    });
+
+    it('keeps only usable focus words', () => {
+        const text = damage(createSession({ focusWords: ['commute'] }), session => {
+            session.focusWords.push(7, ' ');
+        });
+        expect(parseSessionExport(text).focusWords).toEqual(['commute']);
+        expect(parseSessionExport(damage(createSession(), session => { session.focusWords = 'commute'; })).focusWords).toBeUndefined();
+    });
+
+    it('drops a report that the report card could not show', () => {
+        const text = damage(createSession(), session => {
+            session.report = { strengths: 'Lots', cefr: { level: 'Z9' } };
+        });
+        expect(parseSessionExport(text).report).toBeUndefined();
+    });
+
+    it('fills in missing parts of a usable report', () => {
+        const text = damage(createSession(), session => {
+            session.report = { cefr: { level: 'A2' }, focusAreas: [{ area: 'Articles' }, { advice: 'No area' }] };
+        });
+        expect(parseSessionExport(text).report).toEqual({
+            createdAt: 2,
+            strengths: [],
+            focusAreas: [{ area: 'Articles', advice: '' }],
+            newVocabulary: [],
+            cefr: { level: 'A2', evidence: [] },
+        });
+    });
+});
+
+describe('exportSessionMarkdown', () => {
+    it('summarizes the corrections as plain Markdown', () => {
+        const markdown = exportSessionMarkdown(createSession({ title: 'Tea & cake' }));
+        expect(markdown).toContain('# Tea & cake');
+        expect(markdown).toContain('1 correction: grammar 1.');
+        expect(markdown).not.toContain('&amp;');
+    });
+
+    it('leaves notes about other varieties out of the summary', () => {
+        const note: Correction = { original: 'lorry', corrected: 'truck', category: 'vocabulary', explanation: 'UK vs US', variant: true };
+        const session = createSession();
+        session.turns[0].corrections.push(note);
+        const markdown = exportSessionMarkdown(session);
+        expect(markdown).toContain('> - lorry → **truck** (other variety): UK vs US');
+        expect(markdown).toContain('1 correction: grammar 1.');
+        expect(markdown).not.toContain('| lorry |');
+        expect(exportSessionHtml(session)).toContain('<li class="variant">lorry → <strong>truck</strong>');
+    });
+});
+
+describe('exportSessionHtml', () => {
+    it('escapes everything taken from the session', () => {
+        const session = createSession({
+            title: '<b>Plans</b>',
+            turns: [{
+                userText: 'I <3 tea',
+                inputMode: 'typed',
+                aiText: 'Me & you',
+                corrections: [{ ...goesCorrection, category: '<img src=x onerror=alert(1)>' as Correction['category'] }],
+                timestamp: 2,
+            }],
+            report: {
+                createdAt: 3, strengths: [], focusAreas: [], newVocabulary: [],
+                cefr: { level: '<script>alert(1)</script>' as 'B1', evidence: [] },
+            },
+        });
+        const html = exportSessionHtml(session);
+        expect(html).not.toContain('<img');
+        expect(html).not.toContain('<script>');
+        expect(html).not.toContain('<b>');
+        expect(html).toContain('I &lt;3 tea');
+        expect(html).toContain('Me &amp; you');
+    });
+});
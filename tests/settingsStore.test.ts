@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDefaultSettings, hasSavedSettings, loadSettings, saveSettings } from '../settingsStore';
+import { createProfile, setActiveProfile } from '../profiles';
+
+beforeEach(() => {
+    localStorage.clear();
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('settings store', () => {
+    it('guesses the native language and accent from the browser', () => {
+        const settings = createDefaultSettings(['es-MX', 'en-US']);
+        expect(settings.nativeLanguage).toBe('es');
+        expect(settings.level).toBe('Intermediate');
+        expect(settings.tutorName).toBe('Alex');
+        expect(settings.topics).toEqual([]);
+    });
+
+    it('starts new learners on the defaults', () => {
+        const defaults = createDefaultSettings(['en-GB']);
+        expect(hasSavedSettings()).toBe(false);
+        expect(loadSettings(defaults)).toEqual(defaults);
+        expect(loadSettings(defaults)).not.toBe(defaults);
+    });
+
+    it('saves and loads settings', () => {
+        const settings = { ...createDefaultSettings(['en-US']), level: 'Advanced' as const, personality: 'witty' as const };
+        saveSettings(settings);
+        expect(hasSavedSettings()).toBe(true);
+        expect(loadSettings()).toEqual(settings);
+    });
+
+    it('fills in settings added since they were saved', () => {
+        localStorage.setItem('appSettings', JSON.stringify({ level: 'Beginner', speed: 0.8 }));
+        const settings = loadSettings(createDefaultSettings(['en-US']));
+        expect(settings.level).toBe('Beginner');
+        expect(settings.speed).toBe(0.8);
+        expect(settings.strictness).toBe('everything');
+        expect(settings.avoidTopics).toEqual([]);
+    });
+
+    it('falls back to the defaults when saved settings are damaged', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        localStorage.setItem('appSettings', '{"level":');
+        const defaults = createDefaultSettings(['en-US']);
+        expect(loadSettings(defaults)).toEqual(defaults);
+    });
+
+    it('keeps each profile’s settings separate', () => {
+        saveSettings({ ...createDefaultSettings(['en-US']), tutorName: 'Sam' });
+        const sibling = createProfile('Lina', 'student');
+        setActiveProfile(sibling.id);
+        expect(hasSavedSettings()).toBe(false);
+
+        saveSettings({ ...createDefaultSettings(['en-US']), tutorName: 'Jo' });
+        expect(loadSettings().tutorName).toBe('Jo');
+        setActiveProfile('default');
+        expect(loadSettings().tutorName).toBe('Sam');
+    });
+});
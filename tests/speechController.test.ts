@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    SpeechControllerOptions, checkMicrophoneAccess, createSpeechController,
+    describePermissionError, describeRecognitionError, speakText,
+} from '../speechController';
+import { FakeSpeechRecognition, FakeUtterance, createFakeMediaDevices, createFakeSpeechSynthesis } from './fakes';
+
+function createOptions() {
+    return {
+        onResult: vi.fn(),
+        onEnd: vi.fn(),
+        onError: vi.fn(),
+        onStateChange: vi.fn(),
+    } satisfies SpeechControllerOptions;
+}
+
+beforeEach(() => {
+    FakeSpeechRecognition.instances = [];
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
+
+describe('createSpeechController', () => {
+    it('sets up recognition for the accent and hands-free mode', () => {
+        const controller = createSpeechController(FakeSpeechRecognition, createOptions());
+        expect(controller.supported).toBe(true);
+        expect(controller.ready).toBe(false);
+
+        controller.setup({ lang: 'en-GB', continuous: true });
+        const recognition = FakeSpeechRecognition.latest();
+        expect(controller.ready).toBe(true);
+        expect(recognition.lang).toBe('en-GB');
+        expect(recognition.continuous).toBe(true);
+        expect(recognition.interimResults).toBe(true);
+        expect(recognition.maxAlternatives).toBe(5);
+    });
+
+    it('does nothing in browsers without speech recognition', () => {
+        const options = createOptions();
+        const controller = createSpeechController(undefined, options);
+        controller.setup({ lang: 'en-US', continuous: false });
+        controller.toggle();
+        expect(controller.supported).toBe(false);
+        expect(controller.ready).toBe(false);
+        expect(controller.listening).toBe(false);
+        expect(options.onStateChange).not.toHaveBeenCalled();
+    });
+
+    it('starts and stops listening, reporting each change once', () => {
+        const options = createOptions();
+        const controller = createSpeechController(FakeSpeechRecognition, options);
+        controller.setup({ lang: 'en-US', continuous: false });
+        const recognition = FakeSpeechRecognition.latest();
+
+        controller.start();
+        controller.start();
+        expect(controller.listening).toBe(true);
+        expect(recognition.started).toBe(true);
+        expect(options.onStateChange.mock.calls).toEqual([[true]]);
+
+        controller.stop();
+        controller.stop();
+        expect(controller.listening).toBe(false);
+        expect(recognition.stopCalls).toBe(1);
+        expect(options.onStateChange.mock.calls).toEqual([[true], [false]]);
+    });
+
+    it('toggles between listening and not', () => {
+        const controller = createSpeechController(FakeSpeechRecognition, createOptions());
+        controller.setup({ lang: 'en-US', continuous: false });
+        controller.toggle();
+        expect(controller.listening).toBe(true);
+        controller.toggle();
+        expect(controller.listening).toBe(false);
+    });
+
+    it('stays idle when recognition refuses to start', () => {
+        const options = createOptions();
+        const controller = createSpeechController(FakeSpeechRecognition, options);
+        controller.setup({ lang: 'en-US', continuous: false });
+        FakeSpeechRecognition.latest().failNextStart = true;
+
+        controller.start();
+        expect(controller.listening).toBe(false);
+        expect(options.onStateChange).not.toHaveBeenCalled();
+
+        controller.start();
+        expect(controller.listening).toBe(true);
+    });
+
+    it('passes results through and stops listening when the browser ends recognition', () => {
+        const options = createOptions();
+        const controller = createSpeechController(FakeSpeechRecognition, options);
+        controller.setup({ lang: 'en-US', continuous: false });
+        controller.start();
+        const recognition = FakeSpeechRecognition.latest();
+
+        recognition.say('I goes to school', 'I go to school');
+        const event = options.onResult.mock.calls[0][0];
+        expect(event.results[0][0].transcript).toBe('I goes to school');
+        expect(event.results[0][1].transcript).toBe('I go to school');
+
+        recognition.end();
+        expect(controller.listening).toBe(false);
+        expect(options.onStateChange).toHaveBeenLastCalledWith(false);
+        expect(options.onEnd).toHaveBeenCalledOnce();
+
+        controller.start();
+        expect(controller.listening).toBe(true);
+    });
+
+    it('stops the old recognizer when set up again', () => {
+        const controller = createSpeechController(FakeSpeechRecognition, createOptions());
+        controller.setup({ lang: 'en-US', continuous: false });
+        controller.start();
+        const first = FakeSpeechRecognition.latest();
+
+        controller.setup({ lang: 'en-US', continuous: true });
+        expect(first.started).toBe(false);
+        expect(controller.listening).toBe(false);
+        expect(FakeSpeechRecognition.latest()).not.toBe(first);
+    });
+
+    it('stops listening and reports a denied microphone', () => {
+        const options = createOptions();
+        const controller = createSpeechController(FakeSpeechRecognition, options);
+        controller.setup({ lang: 'en-US', continuous: false });
+        controller.start();
+
+        FakeSpeechRecognition.latest().fail('not-allowed');
+        expect(controller.listening).toBe(false);
+        expect(options.onError).toHaveBeenCalledWith(expect.objectContaining({ title: 'permissionDenied', persistent: true }));
+        expect(options.onEnd).toHaveBeenCalledOnce();
+    });
+
+    it("doesn't report silence as an error", () => {
+        const options = createOptions();
+        const controller = createSpeechController(FakeSpeechRecognition, options);
+        controller.setup({ lang: 'en-US', continuous: false });
+        controller.start();
+
+        FakeSpeechRecognition.latest().fail('no-speech');
+        expect(controller.listening).toBe(false);
+        expect(options.onError).not.toHaveBeenCalled();
+    });
+});
+
+describe('describeRecognitionError', () => {
+    it('keeps the microphone hidden for problems the learner has to fix', () => {
+        expect(describeRecognitionError('service-not-allowed')?.persistent).toBe(true);
+        expect(describeRecognitionError('audio-capture')).toMatchObject({ title: 'noMicrophone', persistent: true });
+        expect(describeRecognitionError('language-not-supported')).toMatchObject({ title: 'speechError', persistent: true });
+    });
+
+    it('explains network errors depending on the connection', () => {
+        expect(describeRecognitionError('network', true)).toMatchObject({ persistent: false, message: 'speechServiceUnreachable' });
+        expect(describeRecognitionError('network', false)).toMatchObject({ persistent: false, message: 'speechNeedsConnection' });
+    });
+});
+
+describe('checkMicrophoneAccess', () => {
+    it('releases the microphone once permission is granted', async () => {
+        const devices = createFakeMediaDevices();
+        expect(await checkMicrophoneAccess(devices)).toBeNull();
+        expect(devices.tracks).toHaveLength(1);
+        expect(devices.tracks[0].stopped).toBe(true);
+    });
+
+    it("doesn't ask for permission when there is no microphone", async () => {
+        const devices = createFakeMediaDevices({ devices: ['audiooutput', 'videoinput'] });
+        expect(await checkMicrophoneAccess(devices)).toMatchObject({ title: 'noMicrophoneFound' });
+        expect(devices.requests).toBe(0);
+    });
+
+    it('reports browsers that cannot list devices', async () => {
+        expect(await checkMicrophoneAccess(undefined)).toMatchObject({ title: 'featureNotSupported', persistent: true });
+    });
+
+    it.each([
+        ['NotAllowedError', 'permissionDenied'],
+        ['PermissionDeniedError', 'permissionDenied'],
+        ['NotFoundError', 'noMicrophone'],
+        ['DevicesNotFoundError', 'noMicrophone'],
+        ['NotReadableError', 'permissionError'],
+    ])('explains a %s', async (name, title) => {
+        const devices = createFakeMediaDevices({ denyWith: new DOMException('Blocked', name) });
+        expect(await checkMicrophoneAccess(devices)).toMatchObject({ title, persistent: true });
+    });
+
+    it('includes the details of unexpected hardware errors', () => {
+        expect(describePermissionError(new DOMException('Device busy', 'NotReadableError'))).toMatchObject({ message: 'hardwareError', details: 'Device busy' });
+        expect(describePermissionError(new Error('?')).message).toBe('unknownMicrophoneError');
+    });
+});
+
+describe('speakText', () => {
+    beforeEach(() => {
+        vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+    });
+
+    it('speaks with the chosen voice settings', () => {
+        const synthesis = createFakeSpeechSynthesis();
+        const utterance = speakText(synthesis, 'Hello there', { voice: null, lang: 'en-AU', rate: 0.75 });
+        expect(synthesis.queue).toEqual([utterance]);
+        expect(utterance).toMatchObject({ text: 'Hello there', lang: 'en-AU', rate: 0.75 });
+    });
+
+    it('cuts off what is playing unless queued', () => {
+        const synthesis = createFakeSpeechSynthesis();
+        const onEnd = vi.fn();
+        const onFinish = vi.fn();
+        speakText(synthesis, 'First', { voice: null, lang: 'en-US', rate: 1, onEnd, onFinish });
+        speakText(synthesis, 'Second', { voice: null, lang: 'en-US', rate: 1, queue: true });
+        expect(synthesis.queue).toHaveLength(2);
+
+        speakText(synthesis, 'Third', { voice: null, lang: 'en-US', rate: 1 });
+        expect(synthesis.queue.map(utterance => utterance.text)).toEqual(['Third']);
+        expect(onEnd).not.toHaveBeenCalled();
+        expect(onFinish).toHaveBeenCalledOnce();
+    });
+
+    it('reports words as they are spoken and the end of the text', () => {
+        const synthesis = createFakeSpeechSynthesis();
+        const onWord = vi.fn();
+        const onEnd = vi.fn();
+        const onFinish = vi.fn();
+        speakText(synthesis, 'Nice to meet you', { voice: null, lang: 'en-US', rate: 1, onWord, onEnd, onFinish });
+
+        synthesis.reachWord(5);
+        expect(onWord).toHaveBeenCalledWith(5);
+        synthesis.finish();
+        expect(onEnd).toHaveBeenCalledOnce();
+        expect(onFinish).toHaveBeenCalledOnce();
+    });
+});
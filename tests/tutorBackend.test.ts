@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createTutorBackend, isMissingApiKey } from '../tutorBackend';
+import { createDefaultSettings } from '../settingsStore';
+
+describe('createTutorBackend', () => {
+    it('refuses to create a Gemini backend without a key from settings', () => {
+        const settings = createDefaultSettings(['en-US']);
+        expect(isMissingApiKey(settings)).toBe(true);
+        expect(() => createTutorBackend(settings)).toThrow('API key');
+        expect(isMissingApiKey({ ...settings, apiKey: 'key' })).toBe(false);
+    });
+
+    it("doesn't need a key for the other providers", () => {
+        const settings = createDefaultSettings(['en-US']);
+        expect(isMissingApiKey({ ...settings, backend: 'mock' })).toBe(false);
+        expect(isMissingApiKey({ ...settings, backend: 'openai' })).toBe(false);
+        expect(() => createTutorBackend({ ...settings, backend: 'mock' })).not.toThrow();
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { canRecordVoice, startVoiceRecorder } from '../voiceRecorder';
+import { createFakeMediaDevices, createFakeMediaRecorder } from './fakes';
+
+function useMediaDevices(devices: MediaDevices | undefined) {
+    vi.stubGlobal('navigator', Object.assign(Object.create(navigator), { mediaDevices: devices }));
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('voice recorder', () => {
+    it('needs both MediaRecorder and microphone access', () => {
+        useMediaDevices(createFakeMediaDevices() as unknown as MediaDevices);
+        expect(canRecordVoice()).toBe(false);
+        vi.stubGlobal('MediaRecorder', createFakeMediaRecorder([]));
+        expect(canRecordVoice()).toBe(true);
+        useMediaDevices(undefined);
+        expect(canRecordVoice()).toBe(false);
+    });
+
+    it('records until stopped, then releases the microphone', async () => {
+        const devices = createFakeMediaDevices();
+        useMediaDevices(devices as unknown as MediaDevices);
+        const FakeMediaRecorder = createFakeMediaRecorder([new Blob(['one']), new Blob(['two'])]);
+        vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+
+        const recorder = await startVoiceRecorder();
+        expect(FakeMediaRecorder.instances[0].state).toBe('recording');
+        expect(devices.tracks[0].stopped).toBe(false);
+
+        const audio = await recorder.stop();
+        expect(audio?.size).toBe(6);
+        expect(audio?.type).toBe('audio/webm');
+        expect(devices.tracks[0].stopped).toBe(true);
+        // Stopping again returns the same recording.
+        expect(await recorder.stop()).toBe(audio);
+    });
+
+    it('resolves with nothing when no audio was captured', async () => {
+        useMediaDevices(createFakeMediaDevices() as unknown as MediaDevices);
+        vi.stubGlobal('MediaRecorder', createFakeMediaRecorder([new Blob([])]));
+        const recorder = await startVoiceRecorder();
+        expect(await recorder.stop()).toBeNull();
+    });
+
+    it('fails when the learner blocks the microphone', async () => {
+        useMediaDevices(createFakeMediaDevices({ denyWith: new DOMException('Blocked', 'NotAllowedError') }) as unknown as MediaDevices);
+        vi.stubGlobal('MediaRecorder', createFakeMediaRecorder([]));
+        await expect(startVoiceRecorder()).rejects.toMatchObject({ name: 'NotAllowedError' });
+    });
+});
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from '@google/genai';
+import type { Language } from './i18n';
+
+/** JSON schema for translating one of the tutor's messages. */
+export const translationResponseSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        translation: {
+            type: Type.STRING,
+            description: 'The whole message, translated.',
+        },
+    },
+    required: ['translation'],
+};
+
+/** Creates the system instruction for translating tutor messages for the learner. */
+export function createTranslationInstruction(language: Language): string {
+    return `You translate messages from an English tutor into ${language.name} for a learner of English. Translate each message I send you in full, keeping its meaning and friendly tone. Use simple, natural ${language.name}. Leave any English words the message is teaching in English, in quotes. Do not answer or comment on the message.`;
+}
+
+/** Reads the translation from the model's reply. */
+export function parseTranslation(raw: string): string {
+    const { translation } = JSON.parse(raw) as { translation?: unknown };
+    if (typeof translation !== 'string' || !translation.trim()) {
+        throw new Error('The translation was empty.');
+    }
+    return translation.trim();
+}
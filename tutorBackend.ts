@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Schema } from '@google/genai';
+import type { AppSettings } from './types';
+import { createGeminiBackend } from './geminiBackend';
+import { createOpenAiBackend } from './openAiBackend';
+import { createMockBackend } from './mockBackend';
+
+/** One earlier message, used to seed a chat with a resumed conversation. */
+export interface ChatMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+/**
+ * What a chat is for, with the structured inputs its prompt was written from.
+ * Model backends only need the prompt; the offline mock answers from these instead.
+ */
+export type TutorTask =
+    | { kind: 'conversation' }
+    | { kind: 'scenario' }
+    | { kind: 'report' }
+    | { kind: 'translation' }
+    | { kind: 'drill'; grammarPoints: string[] }
+    | { kind: 'drillCheck' };
+
+/** Structured inputs behind one message, sent alongside its text. */
+export interface MessageDetails {
+    /** For a drill check: the model answer and what the learner said. */
+    drillAnswer?: { modelAnswer: string; answer: string };
+}
+
+export interface TutorChatOptions {
+    task: TutorTask;
+    systemInstruction: string;
+    history: ChatMessage[];
+    /** The JSON shape every reply must follow. */
+    responseSchema: Schema;
+}
+
+/** A running conversation with the model. It remembers every finished exchange sent through it. */
+export interface TutorChat {
+    /** Sends a message and resolves with the model's full (JSON) reply. */
+    sendMessage(message: string, details?: MessageDetails): Promise<string>;
+    /**
+     * Sends a message and yields the model's reply in pieces as they arrive. Aborting
+     * `signal` stops the reply with an `AbortError`, and the exchange is forgotten.
+     */
+    sendMessageStream(message: string, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+/** A model provider the tutor can talk to. */
+export interface TutorBackend {
+    createChat(options: TutorChatOptions): TutorChat;
+}
+
+export type BackendId = AppSettings['backend'];
+
+export const DEFAULT_MODELS: Record<BackendId, string> = {
+    gemini: 'gemini-2.5-flash',
+    openai: 'llama3.1',
+    mock: 'scripted',
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+/** Whether the selected backend can't be used until the learner enters an API key in settings. */
+export function isMissingApiKey(settings: AppSettings): boolean {
+    return settings.backend === 'gemini' && !settings.apiKey.trim();
+}
+
+/**
+ * Creates the backend selected in settings. Throws if it needs an API key that
+ * hasn't been entered.
+ */
+export function createTutorBackend(settings: AppSettings): TutorBackend {
+    const model = settings.model || DEFAULT_MODELS[settings.backend];
+    switch (settings.backend) {
+        case 'openai':
+            return createOpenAiBackend({
+                baseUrl: settings.baseUrl || DEFAULT_OPENAI_BASE_URL,
+                apiKey: settings.apiKey,
+                model,
+            });
+        case 'mock':
+            return createMockBackend();
+        case 'gemini':
+        default:
+            if (isMissingApiKey(settings)) throw new Error('A Gemini API key is needed.');
+            return createGeminiBackend({
+                apiKey: settings.apiKey,
+                model,
+            });
+    }
+}
+
+/** Hosts that stay reachable when the device has no internet connection. */
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Whether the selected backend needs an internet connection. The mock and
+ * models served from this machine keep working offline.
+ */
+export function requiresNetwork(settings: AppSettings): boolean {
+    switch (settings.backend) {
+        case 'mock':
+            return false;
+        case 'openai':
+            try {
+                return !LOCAL_HOSTS.includes(new URL(settings.baseUrl || DEFAULT_OPENAI_BASE_URL).hostname);
+            } catch {
+                return true;
+            }
+        case 'gemini':
+        default:
+            return true;
+    }
+}
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- Shared Interfaces ---
+export interface AppSettings {
+    level: 'Beginner' | 'Intermediate' | 'Advanced';
+    voice: string;
+    speed: number;
+    fontSize: 'small' | 'medium' | 'large';
+    /** Language code of the learner's first language, used for explanations, translations and the interface. */
+    nativeLanguage: string;
+    /** The variety of English the learner is aiming for; sets the recognition locale, voices and spelling. */
+    accent: 'en-US' | 'en-GB' | 'en-AU' | 'en-IN';
+    /** Continuous conversation: auto-listen after the tutor speaks, end turns on silence, allow barge-in. */
+    handsFree: boolean;
+    /** Put each speech transcript in the composer for correction before it is sent. */
+    editTranscripts: boolean;
+    /** Keep a recording of each spoken turn on this device, playable from the learner's message. */
+    recordVoice: boolean;
+    /** What the tutor is called in free conversations. */
+    tutorName: string;
+    personality: TutorPersonality;
+    /** Which mistakes the tutor corrects, and when the learner sees them. */
+    strictness: CorrectionStrictness;
+    /** Topics the learner enjoys, which the tutor steers towards. */
+    topics: string[];
+    /** Topics the tutor never brings up. */
+    avoidTopics: string[];
+    /** Which model provider the tutor uses. */
+    backend: 'gemini' | 'openai' | 'mock';
+    model: string;
+    /** The learner's Gemini API key, which that backend needs; sent as a bearer token to OpenAI-compatible servers. */
+    apiKey: string;
+    /** Base URL of an OpenAI-compatible server. */
+    baseUrl: string;
+}
+
+/** The tutor's manner in free conversations; its language still follows the learner's level. */
+export type TutorPersonality = 'warm' | 'casual' | 'witty' | 'formal';
+
+/**
+ * essential: only mistakes that block understanding; everything: every mistake,
+ * however small; endOfSession: every mistake, but shown only when the session ends.
+ */
+export type CorrectionStrictness = 'essential' | 'everything' | 'endOfSession';
+
+export type ErrorCategory = 'grammar' | 'vocabulary' | 'pronunciation' | 'fluency' | 'spelling';
+
+/** Whether the learner said or typed a message. */
+export type InputMode = 'spoken' | 'typed';
+
+/** A single mistake the tutor found in one of the learner's messages. */
+export interface Correction {
+    original: string;
+    corrected: string;
+    category: ErrorCategory;
+    explanation: string;
+    /** The explanation in the learner's native language, when they've chosen one. */
+    translatedExplanation?: string;
+    /** For grammar mistakes, the rule involved, such as "past simple" or "articles". */
+    grammarPoint?: string;
+    /** A word or spelling from another variety of English: worth pointing out, but not a mistake. */
+    variant?: boolean;
+}
+
+/** A message the learner sent while offline, waiting to be sent to the tutor. */
+export interface QueuedTurn {
+    userText: string;
+    inputMode: InputMode;
+    timestamp: number;
+    /** The learner's recorded voice, in the recordings store. */
+    recordingId?: string;
+}
+
+/** One exchange in a practice session: what the learner said and how the tutor answered. */
+export interface SessionTurn {
+    userText: string;
+    inputMode: InputMode;
+    aiText: string;
+    corrections: Correction[];
+    /** Free-text feedback from sessions recorded before corrections were structured. */
+    feedback?: string;
+    timestamp: number;
+    /** The learner's recorded voice, in the recordings store. */
+    recordingId?: string;
+}
+
+/** The audio of one spoken turn, kept only on this device. */
+export interface VoiceRecording {
+    id: string;
+    sessionId: string;
+    /** What the recognizer heard, for context. */
+    text: string;
+    audio: Blob;
+    createdAt: number;
+}
+
+/** A stored practice conversation. */
+export interface PracticeSession {
+    id: string;
+    title: string;
+    level: AppSettings['level'];
+    welcomeMessage: string;
+    /** The tutor's name when the session was started, for free conversations. Older sessions were all with Alex. */
+    tutorName?: string;
+    /** Notebook words the tutor was asked to bring up, so a resumed conversation keeps them. */
+    focusWords?: string[];
+    turns: SessionTurn[];
+    /** Messages sent while offline, in order, that the tutor hasn't answered yet. */
+    queuedTurns: QueuedTurn[];
+    /** Set when the session is a role-play of one of the scenarios in `scenarios.ts`. */
+    scenarioId?: string;
+    /** When the scenario's goal was reached. */
+    completedAt?: number;
+    /** The teacher's assignment this session was started from, copied so the session stands alone. */
+    assignment?: Assignment;
+    /** The tutor's report from the last time the learner ended this session. */
+    report?: SessionReport;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/** Common European Framework of Reference bands, from beginner to mastery. */
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+/** The tutor's end-of-session assessment of one conversation. */
+export interface SessionReport {
+    createdAt: number;
+    strengths: string[];
+    /** The three most important things to work on, most important first. */
+    focusAreas: { area: string; advice: string }[];
+    /** Words and phrases the learner used that are new or notable at their level. */
+    newVocabulary: { term: string; context: string }[];
+    cefr: {
+        level: CefrLevel;
+        /** Observations from the transcript that support the band. */
+        evidence: string[];
+    };
+}
+
+/** A role-play situation the learner can practise. */
+export interface Scenario {
+    id: string;
+    title: string;
+    /** One line shown in the scenario picker. */
+    description: string;
+    persona: {
+        name: string;
+        role: string;
+        personality: string;
+    };
+    /** Where the conversation takes place, from the persona's point of view. */
+    setting: string;
+    /** What the learner is trying to achieve, written to the learner. */
+    goal: string;
+    /** Words and phrases the learner should try to use. */
+    requiredVocabulary: string[];
+    /** What has to happen in the conversation for the goal to count as met. */
+    endCondition: string;
+    /** The persona's first line. */
+    openingLine: string;
+}
+
+/** A word or phrase saved to the learner's notebook, with its spaced-repetition state. */
+export interface VocabularyEntry {
+    id: string;
+    term: string;
+    /** The sentence the term appeared in. */
+    context: string;
+    /** Why the term was worth saving, e.g. the tutor's explanation for a correction. */
+    note?: string;
+    createdAt: number;
+    /** SM-2 state. */
+    repetitions: number;
+    interval: number;
+    easeFactor: number;
+    dueAt: number;
+    lastReviewedAt?: number;
+}
+
+/** How well the learner knows one grammar point, from their answers in grammar drills. */
+export interface GrammarMastery {
+    /** The grammar point's name, in lower case, e.g. "past simple". */
+    point: string;
+    attempts: number;
+    correct: number;
+    /** The most recent answers, oldest first, true where correct. */
+    recent: boolean[];
+    lastPracticedAt: number;
+}
+
+/** Someone who uses the app on this device. Each profile has its own settings, sessions and notebook. */
+export interface LearnerProfile {
+    id: string;
+    name: string;
+    role: 'student' | 'teacher';
+    createdAt: number;
+}
+
+/** A role-play a teacher sets for the class. */
+export interface Assignment {
+    id: string;
+    title: string;
+    /** One of the scenarios in `scenarios.ts`. */
+    scenarioId: string;
+    /** Words and phrases to practise, on top of the scenario's own. */
+    targetVocabulary: string[];
+    /** The fewest learner turns that count as having done the assignment. */
+    minTurns: number;
+    /** Optional notes from the teacher, shown to the student. */
+    instructions?: string;
+    createdAt: number;
+}
+
+/** How one student did on one attempt at an assignment, as shared with the teacher. */
+export interface AssignmentResult {
+    assignmentId: string;
+    assignmentTitle: string;
+    student: string;
+    sessionId: string;
+    startedAt: number;
+    updatedAt: number;
+    /** True once the scenario's goal was met and the student took at least `minTurns` turns. */
+    completed: boolean;
+    turns: number;
+    minTurns: number;
+    wordsSpoken: number;
+    vocabularyUsed: string[];
+    vocabularyMissed: string[];
+    corrections: Partial<Record<ErrorCategory, number>>;
+    /** From the session's report card, if the student ended the session. */
+    cefrLevel?: CefrLevel;
+}
@@ -1,18 +1,18 @@
+/// <reference types="vitest/config" />
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 
-export default defineConfig(({ mode }) => {
-  const env = loadEnv(mode, '.', '');
-  return {
-    base: '/ENGLISH-TUTER-/', // اسم الريبو على GitHub بالضبط
-    define: {
-      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-    },
-    resolve: {
-      alias: {
-        '@': path.resolve(__dirname, '.'),
-      }
+// The Gemini API key is never read from the environment at build time, so it can't
+// end up in the published bundle; learners enter their own under Settings.
+export default defineConfig({
+  base: '/ENGLISH-TUTER-/', // اسم الريبو على GitHub بالضبط
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
     }
-  };
+  },
+  test: {
+    environment: 'jsdom',
+    include: ['tests/**/*.test.ts'],
+  }
 });
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VOCABULARY_STORE, withStore } from './db';
+import type { VocabularyEntry } from './types';
+
+/** Inserts or updates a notebook entry. */
+export async function saveVocabularyEntry(entry: VocabularyEntry): Promise<void> {
+    await withStore(VOCABULARY_STORE, 'readwrite', store => store.put(entry));
+}
+
+/** Lists every notebook entry, soonest due first. */
+export async function listVocabulary(): Promise<VocabularyEntry[]> {
+    const entries = await withStore<VocabularyEntry[]>(VOCABULARY_STORE, 'readonly', store => store.getAll());
+    return entries.sort((a, b) => a.dueAt - b.dueAt);
+}
+
+/** Lists the entries that are due for review, soonest due first. */
+export function listDueVocabulary(now: number = Date.now()): Promise<VocabularyEntry[]> {
+    return withStore<VocabularyEntry[]>(VOCABULARY_STORE, 'readonly',
+        store => store.index('dueAt').getAll(IDBKeyRange.upperBound(now)));
+}
+
+/** Permanently removes a notebook entry. */
+export async function deleteVocabularyEntry(id: string): Promise<void> {
+    await withStore(VOCABULARY_STORE, 'readwrite', store => store.delete(id));
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface VoiceActivityOptions {
+    /** RMS level above which the input counts as speech. Read on every check so it can change. */
+    threshold: () => number;
+    /** How long the level must stay above the threshold before speech is reported. */
+    speechMs?: number;
+    /** How long the level must stay below the threshold before silence is reported. */
+    silenceMs?: number;
+    onSpeechStart: () => void;
+    onSilence?: () => void;
+}
+
+export interface VoiceActivityDetector {
+    readonly speaking: boolean;
+    stop(): void;
+}
+
+const CHECK_INTERVAL_MS = 50;
+
+/**
+ * Watches a microphone stream and reports when the learner starts and stops talking,
+ * based on the signal's loudness.
+ */
+export function createVoiceActivityDetector(stream: MediaStream, options: VoiceActivityOptions): VoiceActivityDetector {
+    const { speechMs = 200, silenceMs = 1200 } = options;
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    let speaking = false;
+    let aboveSince: number | null = null;
+    let belowSince: number | null = null;
+
+    const timer = window.setInterval(() => {
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (const sample of samples) sum += sample * sample;
+        const level = Math.sqrt(sum / samples.length);
+        const now = performance.now();
+
+        if (level >= options.threshold()) {
+            belowSince = null;
+            aboveSince ??= now;
+            if (!speaking && now - aboveSince >= speechMs) {
+                speaking = true;
+                options.onSpeechStart();
+            }
+        } else {
+            aboveSince = null;
+            belowSince ??= now;
+            if (speaking && now - belowSince >= silenceMs) {
+                speaking = false;
+                options.onSilence?.();
+            }
+        }
+    }, CHECK_INTERVAL_MS);
+
+    return {
+        get speaking() {
+            return speaking;
+        },
+        stop() {
+            window.clearInterval(timer);
+            source.disconnect();
+            context.close();
+            stream.getTracks().forEach(track => track.stop());
+        },
+    };
+}
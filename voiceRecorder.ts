@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A recording of the learner's voice that is in progress. */
+export interface VoiceRecorder {
+    /** Stops recording and resolves with the audio, or `null` if nothing was captured. */
+    stop(): Promise<Blob | null>;
+}
+
+/** Whether this browser can record the microphone. */
+export function canRecordVoice(): boolean {
+    return typeof MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+}
+
+/**
+ * Starts recording the microphone. The microphone is only held while recording,
+ * and released as soon as it stops.
+ */
+export async function startVoiceRecorder(): Promise<VoiceRecorder> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+    });
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const recorded = new Promise<Blob | null>(resolve => {
+        recorder.onstop = () => {
+            stream.getTracks().forEach(track => track.stop());
+            resolve(chunks.length ? new Blob(chunks, { type: recorder.mimeType || chunks[0].type }) : null);
+        };
+    });
+    recorder.start();
+
+    return {
+        stop() {
+            if (recorder.state !== 'inactive') recorder.stop();
+            return recorded;
+        },
+    };
+}
+
+/** Plays a recording and resolves once it has finished. */
+export function playRecording(audio: Blob): Promise<void> {
+    const url = URL.createObjectURL(audio);
+    const player = new Audio(url);
+    return new Promise<void>((resolve, reject) => {
+        player.onended = () => resolve();
+        player.onerror = () => reject(new Error('The recording could not be played.'));
+        player.play().catch(reject);
+    }).finally(() => URL.revokeObjectURL(url));
+}